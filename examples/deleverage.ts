@@ -16,6 +16,7 @@ import {
   logWallet,
   logSDKInit,
   logPosition,
+  logDeleveragePreview,
   logStrategyResult,
 } from "../src/lib/utils/logger";
 
@@ -49,9 +50,9 @@ async function main() {
 
   // Config
   const protocol =
-    process.env.LEVERAGE_PROTOCOL === "navi"
-      ? LendingProtocol.Navi
-      : LendingProtocol.Suilend;
+    Object.values(LendingProtocol).find(
+      (p) => p === process.env.LEVERAGE_PROTOCOL,
+    ) ?? LendingProtocol.Suilend;
 
   // Check position
   const position = await sdk.getPosition(protocol);
@@ -67,6 +68,14 @@ async function main() {
     return;
   }
 
+  // Preview
+  try {
+    const preview = await sdk.previewDeleverage({ protocol });
+    logDeleveragePreview(preview);
+  } catch (error: any) {
+    console.error(`   ⚠️ Preview error: ${error.message}`);
+  }
+
   // Execute
   const result = await sdk.deleverage({
     protocol,
@@ -60,7 +60,7 @@ async function main() {
     console.log(`Liq Threshold: $${p.liquidationThresholdUsd?.toFixed(2)}`);
 
     if (p.netApy !== undefined) {
-      console.log(`Net APY (Equity): ${p.netApy.toFixed(2)}%`);
+      console.log(`Net APY (Equity): ${(p.netApy * 100).toFixed(2)}%`);
       console.log(
         `Annual Net Earnings: $${p.totalAnnualNetEarningsUsd?.toFixed(2)}`,
       );
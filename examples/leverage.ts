@@ -58,9 +58,9 @@ async function main() {
     : "0.00001";
   const multiplier = parseFloat(process.env.LEVERAGE_MULTIPLIER || "1.5");
   const protocol =
-    process.env.LEVERAGE_PROTOCOL === "navi"
-      ? LendingProtocol.Navi
-      : LendingProtocol.Suilend;
+    Object.values(LendingProtocol).find(
+      (p) => p === process.env.LEVERAGE_PROTOCOL,
+    ) ?? LendingProtocol.Suilend;
 
   // Check position
   const position = await sdk.getPosition(protocol);
@@ -71,6 +71,7 @@ async function main() {
 
   try {
     const preview = await sdk.previewLeverage({
+      protocol,
       depositAsset,
       depositAmount,
       multiplier,
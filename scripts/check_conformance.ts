@@ -0,0 +1,36 @@
+/**
+ * Check that every built-in lending adapter reports amounts and rates in
+ * the SDK's units. Pass a wallet address to also check its positions.
+ *
+ * Usage: npm run script:check-conformance [-- <address>]
+ */
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { ProtocolRegistry, checkAdapterConformance } from "../src/index";
+
+async function main() {
+  const address = process.argv[2] || process.env.USER_ADDRESS;
+  const client = new SuiClient({ url: getFullnodeUrl("mainnet") });
+  const registry = ProtocolRegistry.withDefaults();
+
+  let failed = false;
+  for (const id of registry.ids()) {
+    try {
+      const adapter = await registry.get(id, client);
+      const issues = await checkAdapterConformance(adapter, address);
+      if (issues.length === 0) {
+        console.log(`✅ ${id}: conforms`);
+        continue;
+      }
+      failed = true;
+      console.log(`❌ ${id}: ${issues.length} issue(s)`);
+      console.table(issues);
+    } catch (e: any) {
+      failed = true;
+      console.error(`❌ ${id}: ${e.message}`);
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
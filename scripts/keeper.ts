@@ -0,0 +1,60 @@
+/**
+ * Run the protection keeper for the SECRET_KEY wallet
+ *
+ * Simulates only unless KEEPER_EXECUTE=true. Actions are journaled to
+ * KEEPER_JOURNAL (default keeper-journal.jsonl).
+ *
+ * Usage: npm run script:keeper [-- <trigger HF> <target HF>]
+ */
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { DefiDashSDK, FileKeeperJournal, KeeperStrategy } from "../src/index";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  const secretKey = process.env.SECRET_KEY;
+  if (!secretKey) {
+    console.error("❌ Error: SECRET_KEY not found in .env file.");
+    process.exit(1);
+  }
+
+  const keypair = secretKey.startsWith("suiprivkey")
+    ? Ed25519Keypair.fromSecretKey(decodeSuiPrivateKey(secretKey).secretKey)
+    : Ed25519Keypair.fromSecretKey(Buffer.from(secretKey, "base64"));
+
+  const [trigger = "1.25", target = "1.6"] = process.argv.slice(2);
+  const journalPath = process.env.KEEPER_JOURNAL || "keeper-journal.jsonl";
+  const execute = process.env.KEEPER_EXECUTE === "true";
+
+  const client = new SuiClient({ url: getFullnodeUrl("mainnet") });
+  const sdk = new DefiDashSDK();
+  await sdk.initialize(client, keypair);
+
+  const keeper = sdk.createKeeper({
+    triggerHealthFactor: Number(trigger),
+    targetHealthFactor: Number(target),
+    strategy: (process.env.KEEPER_STRATEGY as KeeperStrategy) || undefined,
+    maxActionsPerDay: Number(process.env.KEEPER_MAX_ACTIONS) || undefined,
+    maxCostBps: Number(process.env.KEEPER_MAX_COST_BPS) || undefined,
+    maxCostUsd: Number(process.env.KEEPER_MAX_COST_USD) || undefined,
+    intervalMs: Number(process.env.KEEPER_INTERVAL_MS) || undefined,
+    dryRunOnly: !execute,
+    journal: new FileKeeperJournal(journalPath),
+  });
+
+  console.log(
+    `🛡️  Keeper for ${sdk.getUserAddress()}: HF < ${trigger} → ${target} ` +
+      `(${execute ? "EXECUTING" : "dry run only"}, journal ${journalPath})`,
+  );
+  keeper.start();
+
+  process.on("SIGINT", () => {
+    keeper.stop();
+    process.exit(0);
+  });
+}
+
+main();
@@ -0,0 +1,60 @@
+/**
+ * Watch lending positions and print (or forward) health alerts
+ *
+ * Addresses default to USER_ADDRESS. Set MONITOR_WEBHOOK_URL to POST
+ * events, MONITOR_LOG_FILE to append them as JSON lines.
+ *
+ * Usage: npm run script:monitor [-- <address> ...]
+ */
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import {
+  ConsoleSink,
+  FileSink,
+  MonitorSink,
+  PositionMonitor,
+  ProtocolRegistry,
+  WebhookSink,
+} from "../src/index";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+function main() {
+  const addresses = process.argv.slice(2);
+  if (addresses.length === 0 && process.env.USER_ADDRESS) {
+    addresses.push(process.env.USER_ADDRESS);
+  }
+  if (addresses.length === 0) {
+    console.error("❌ Pass an address or set USER_ADDRESS");
+    process.exit(1);
+  }
+
+  const client = new SuiClient({ url: getFullnodeUrl("mainnet") });
+  const registry = ProtocolRegistry.withDefaults();
+
+  const sinks: MonitorSink[] = [new ConsoleSink()];
+  if (process.env.MONITOR_WEBHOOK_URL) {
+    sinks.push(new WebhookSink({ url: process.env.MONITOR_WEBHOOK_URL }));
+  }
+  if (process.env.MONITOR_LOG_FILE) {
+    sinks.push(new FileSink(process.env.MONITOR_LOG_FILE));
+  }
+
+  const monitor = new PositionMonitor({
+    addresses,
+    protocols: registry.ids(),
+    getProtocol: (id) => registry.get(id, client),
+    intervalMs: Number(process.env.MONITOR_INTERVAL_MS) || undefined,
+    sinks,
+  });
+
+  console.log(`👀 Monitoring ${addresses.join(", ")} (Ctrl+C to stop)`);
+  monitor.start();
+
+  process.on("SIGINT", () => {
+    monitor.stop();
+    process.exit(0);
+  });
+}
+
+main();
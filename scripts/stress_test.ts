@@ -0,0 +1,108 @@
+/**
+ * Stress-test saved portfolios under price shocks, offline
+ *
+ * Shocks are percentages per asset (symbol or coin type). Markets JSON
+ * (an array or getAggregatedMarkets() output) adds per-asset thresholds;
+ * with --min-hf the script exits 1 when any shocked HF falls below it.
+ * --close-factor is needed for liquidatable non-Suilend portfolios.
+ *
+ * Usage:
+ *   npm run script:stress-test -- <portfolio.json> SUI=-30 LBTC=-15 \
+ *     [--markets markets.json] [--min-hf 1.1] [--close-factor 0.35]
+ */
+import * as fs from "fs";
+// Import the module directly so the script runs without protocol SDKs
+import { PriceShock, stressTestPortfolio } from "../src/lib/stress";
+import { AccountPortfolio, MarketAsset } from "../src/types";
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const shocks: PriceShock[] = [];
+  let portfolioFile: string | undefined;
+  let marketsFile: string | undefined;
+  let minHealthFactor: number | undefined;
+  let closeFactor: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--markets") {
+      marketsFile = args[++i];
+    } else if (arg === "--min-hf") {
+      minHealthFactor = Number(args[++i]);
+    } else if (arg === "--close-factor") {
+      closeFactor = Number(args[++i]);
+    } else if (arg.includes("=")) {
+      const [asset, pct] = arg.split("=");
+      shocks.push({ asset, change: Number(pct) / 100 });
+    } else {
+      portfolioFile = arg;
+    }
+  }
+
+  if (!portfolioFile) {
+    console.error(
+      "Usage: stress_test.ts <portfolio.json> SUI=-30 [--markets f] [--min-hf n]",
+    );
+    process.exit(2);
+  }
+
+  const saved = readJson(portfolioFile);
+  const portfolios: AccountPortfolio[] = Array.isArray(saved) ? saved : [saved];
+
+  const savedMarkets = marketsFile ? readJson(marketsFile) : undefined;
+  const marketsFor = (protocol: string): MarketAsset[] | undefined =>
+    Array.isArray(savedMarkets) ? savedMarkets : savedMarkets?.[protocol];
+
+  console.log(
+    `Shocks: ${shocks.map((s) => `${s.asset} ${(s.change * 100).toFixed(1)}%`).join(", ") || "none"}\n`,
+  );
+
+  let failed = false;
+  for (const portfolio of portfolios) {
+    if (!portfolio.positions?.some((p) => p.side === "borrow")) continue;
+
+    const result = stressTestPortfolio(portfolio, shocks, {
+      markets: marketsFor(portfolio.protocol),
+      closeFactor,
+    });
+
+    console.log(`── ${result.protocol} (${result.address})`);
+    console.log(
+      `   HF ${result.healthFactorBefore.toFixed(3)} → ${result.healthFactor.toFixed(3)}` +
+        (result.isLiquidatable ? "  ⚠️  LIQUIDATABLE" : ""),
+    );
+    if (result.isLiquidatable) {
+      console.log(
+        `   Liquidatable debt $${result.liquidatableDebtUsd.toFixed(2)}, ` +
+          `seized $${result.seizedCollateralUsd.toFixed(2)}, ` +
+          `bonus lost $${result.liquidationBonusUsd.toFixed(2)}`,
+      );
+    }
+    console.table(
+      result.assets.map((a) => ({
+        asset: a.symbol,
+        shock: `${(a.priceChange * 100).toFixed(1)}%`,
+        price: a.price?.toPrecision(6),
+        collateralUsd: a.collateralUsd.toFixed(2),
+        debtUsd: a.debtUsd.toFixed(2),
+        liquidationPrice: a.liquidationPrice?.toPrecision(6) ?? "-",
+        distance:
+          a.distanceToLiquidation !== null
+            ? `${(a.distanceToLiquidation * 100).toFixed(1)}%`
+            : "-",
+      })),
+    );
+
+    if (minHealthFactor !== undefined && result.healthFactor < minHealthFactor) {
+      failed = true;
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
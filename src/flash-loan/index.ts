@@ -0,0 +1,31 @@
+/**
+ * DeFi Dash SDK - Flash Loan Provider Exports
+ */
+
+import { IFlashLoanProvider } from "./interface";
+
+export { IFlashLoanProvider, FlashLoan } from "./interface";
+export { ScallopFlashLoanProvider } from "./scallop";
+export { NaviFlashLoanProvider } from "./navi";
+
+/**
+ * Pick the first provider (in preference order) that supports the coin and
+ * has enough liquidity for the loan, e.g. to fall back when Scallop's USDC
+ * pool is drained or paused
+ */
+export async function selectFlashLoanProvider(
+  providers: IFlashLoanProvider[],
+  coinType: string,
+  amount: bigint,
+): Promise<IFlashLoanProvider> {
+  for (const provider of providers) {
+    if (!provider.supportsCoin(coinType)) continue;
+    try {
+      const liquidity = await provider.getAvailableLiquidity(coinType);
+      if (liquidity >= amount) return provider;
+    } catch {
+      // Provider unreachable, try the next one
+    }
+  }
+  throw new Error(`No flash loan provider can lend ${amount} of ${coinType}`);
+}
@@ -0,0 +1,80 @@
+/**
+ * DeFi Dash SDK - Flash Loan Provider Interface
+ *
+ * Abstract interface for flash loan sources (Scallop, Navi, etc.)
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+
+/**
+ * An open flash loan inside a PTB
+ */
+export interface FlashLoan {
+  /** Borrowed coin */
+  coin: any;
+  /** Hot-potato receipt that must be handed back in repay() */
+  receipt: any;
+  /** Full coin type of the borrowed asset */
+  coinType: string;
+  /** Borrowed amount (raw units) */
+  amount: bigint;
+}
+
+/**
+ * Common interface for all flash loan providers
+ */
+export interface IFlashLoanProvider {
+  /** Provider name identifier */
+  readonly name: string;
+
+  /**
+   * Initialize the provider
+   * Must be called before using other methods
+   */
+  initialize(suiClient: SuiClient): Promise<void>;
+
+  /**
+   * Whether the provider has a flash loan pool for a coin type
+   * @param coinType - Full coin type string
+   */
+  supportsCoin(coinType: string): boolean;
+
+  /**
+   * Borrow a flash loan
+   * @param tx - Transaction to add borrow command to
+   * @param coinType - Full coin type string
+   * @param amount - Amount to borrow (raw units)
+   * @returns Open flash loan (coin + receipt)
+   */
+  borrow(tx: Transaction, coinType: string, amount: bigint): Promise<FlashLoan>;
+
+  /**
+   * Repay a flash loan
+   * @param tx - Transaction to add repay command to
+   * @param loan - Flash loan returned by borrow()
+   * @param coin - Coin covering loan + fee
+   * @param userAddress - Receives any change the provider hands back
+   */
+  repay(
+    tx: Transaction,
+    loan: FlashLoan,
+    coin: any,
+    userAddress: string,
+  ): Promise<void>;
+
+  /**
+   * Quote the fee for borrowing an amount
+   * @param coinType - Full coin type string
+   * @param amount - Amount to borrow (raw units)
+   * @returns Fee (raw units)
+   */
+  calculateFee(coinType: string, amount: bigint): bigint;
+
+  /**
+   * Amount currently available to flash borrow
+   * @param coinType - Full coin type string
+   * @returns Available liquidity (raw units)
+   */
+  getAvailableLiquidity(coinType: string): Promise<bigint>;
+}
@@ -0,0 +1,133 @@
+/**
+ * DeFi Dash SDK - Navi Flash Loan Provider
+ *
+ * Implements IFlashLoanProvider for Navi
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import {
+  flashloanPTB,
+  repayFlashLoanPTB,
+  getAllFlashLoanAssets,
+} from "@naviprotocol/lending";
+import { normalizeCoinType } from "../lib/utils";
+import { FlashLoan, IFlashLoanProvider } from "./interface";
+
+// Navi quotes fees as fractions (0.0006 = 6 bps); scale for bigint math
+const FEE_PRECISION = 1_000_000;
+
+/**
+ * Navi flash loan provider
+ *
+ * Navi lends and takes back `Balance`s, so the loan is wrapped into a `Coin`
+ * for the strategies and any change from the repayment goes to the user.
+ */
+export class NaviFlashLoanProvider implements IFlashLoanProvider {
+  readonly name = "navi";
+  private assets: any[] = [];
+  private initialized = false;
+
+  async initialize(_suiClient: SuiClient): Promise<void> {
+    this.assets = await getAllFlashLoanAssets({ env: "prod" });
+    this.initialized = true;
+  }
+
+  private ensureInitialized() {
+    if (!this.initialized) {
+      throw new Error(
+        "NaviFlashLoanProvider not initialized. Call initialize() first.",
+      );
+    }
+  }
+
+  private getAsset(coinType: string) {
+    this.ensureInitialized();
+    const normalized = normalizeCoinType(coinType);
+    const asset = this.assets.find(
+      (a) => normalizeCoinType(a.coinType) === normalized,
+    );
+    if (!asset) {
+      throw new Error(`No Navi flash loan pool for coin type: ${coinType}`);
+    }
+    return asset;
+  }
+
+  supportsCoin(coinType: string): boolean {
+    try {
+      this.getAsset(coinType);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async borrow(
+    tx: Transaction,
+    coinType: string,
+    amount: bigint,
+  ): Promise<FlashLoan> {
+    const normalized = normalizeCoinType(this.getAsset(coinType).coinType);
+
+    const [balance, receipt] = await flashloanPTB(
+      tx,
+      normalized,
+      tx.pure.u64(amount) as any,
+      { env: "prod" },
+    );
+    const [coin] = tx.moveCall({
+      target: "0x2::coin::from_balance",
+      typeArguments: [normalized],
+      arguments: [balance],
+    });
+
+    return { coin, receipt, coinType: normalized, amount };
+  }
+
+  async repay(
+    tx: Transaction,
+    loan: FlashLoan,
+    coin: any,
+    userAddress: string,
+  ): Promise<void> {
+    const [repayBalance] = tx.moveCall({
+      target: "0x2::coin::into_balance",
+      typeArguments: [loan.coinType],
+      arguments: [coin],
+    });
+
+    const [change] = await repayFlashLoanPTB(
+      tx,
+      loan.coinType,
+      loan.receipt,
+      repayBalance as any,
+      { env: "prod" },
+    );
+
+    const [changeCoin] = tx.moveCall({
+      target: "0x2::coin::from_balance",
+      typeArguments: [loan.coinType],
+      arguments: [change],
+    });
+    tx.transferObjects([changeCoin], userAddress);
+  }
+
+  /**
+   * Fee = amount * (flashloanFee + supplierFee), rounded up
+   */
+  calculateFee(coinType: string, amount: bigint): bigint {
+    const asset = this.getAsset(coinType);
+    const rate = BigInt(
+      Math.round(
+        (Number(asset.flashloanFee) + Number(asset.supplierFee)) *
+          FEE_PRECISION,
+      ),
+    );
+    const precision = BigInt(FEE_PRECISION);
+    return (amount * rate + precision - 1n) / precision;
+  }
+
+  async getAvailableLiquidity(coinType: string): Promise<bigint> {
+    return BigInt(this.getAsset(coinType).max);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * DeFi Dash SDK - Scallop Flash Loan Provider
+ *
+ * Implements IFlashLoanProvider for Scallop
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import {
+  ScallopFlashLoanClient,
+  ScallopFlashLoanClientOptions,
+} from "../lib/scallop/flash-loan-client";
+import { FlashLoan, IFlashLoanProvider } from "./interface";
+
+/**
+ * Scallop flash loan provider (fixed 5 bps fee)
+ */
+export class ScallopFlashLoanProvider implements IFlashLoanProvider {
+  readonly name = "scallop";
+  readonly client: ScallopFlashLoanClient;
+  private suiClient!: SuiClient;
+  private initialized = false;
+
+  constructor(options: ScallopFlashLoanClientOptions = {}) {
+    this.client = new ScallopFlashLoanClient(options);
+  }
+
+  async initialize(suiClient: SuiClient): Promise<void> {
+    this.suiClient = suiClient;
+    this.initialized = true;
+  }
+
+  private ensureInitialized() {
+    if (!this.initialized) {
+      throw new Error(
+        "ScallopFlashLoanProvider not initialized. Call initialize() first.",
+      );
+    }
+  }
+
+  supportsCoin(coinType: string): boolean {
+    try {
+      this.client.getCoinName(coinType);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async borrow(
+    tx: Transaction,
+    coinType: string,
+    amount: bigint,
+  ): Promise<FlashLoan> {
+    const coinName = this.client.getCoinName(coinType);
+    const [coin, receipt] = this.client.borrowFlashLoan(tx, amount, coinName);
+    return { coin, receipt, coinType, amount };
+  }
+
+  async repay(
+    tx: Transaction,
+    loan: FlashLoan,
+    coin: any,
+    _userAddress: string,
+  ): Promise<void> {
+    // Scallop takes the whole coin, so callers pass exactly loan + fee
+    const coinName = this.client.getCoinName(loan.coinType);
+    this.client.repayFlashLoan(tx, coin, loan.receipt, coinName);
+  }
+
+  calculateFee(_coinType: string, amount: bigint): bigint {
+    return ScallopFlashLoanClient.calculateFee(amount);
+  }
+
+  /**
+   * Read the pool's cash from the market's balance sheet
+   */
+  async getAvailableLiquidity(coinType: string): Promise<bigint> {
+    this.ensureInitialized();
+
+    const { market } = this.client.getCoreIds();
+    const marketObject = await this.suiClient.getObject({
+      id: market,
+      options: { showContent: true },
+    });
+    const fields = (marketObject.data?.content as any)?.fields;
+    const tableId =
+      fields?.vault?.fields?.balance_sheets?.fields?.table?.fields?.id?.id;
+    if (!tableId) {
+      throw new Error(`Scallop market ${market} has no balance sheets`);
+    }
+
+    const typeName = normalizeStructTag(coinType).replace(/^0x/, "");
+    const sheet = await this.suiClient.getDynamicFieldObject({
+      parentId: tableId,
+      name: { type: "0x1::type_name::TypeName", value: { name: typeName } },
+    });
+    const cash = (sheet.data?.content as any)?.fields?.value?.fields?.cash;
+    return cash ? BigInt(cash) : 0n;
+  }
+}
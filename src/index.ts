@@ -29,35 +29,102 @@ export {
   DefiDashSDK,
   BrowserLeverageParams,
   BrowserDeleverageParams,
+  BrowserReleverageParams,
+  BrowserRebalanceParams,
+  BrowserCollateralSwapParams,
+  BrowserDebtSwapParams,
+  BrowserAddCollateralParams,
+  BrowserMigratePositionParams,
 } from "./sdk";
 
 // Types and Enums
 export {
   LendingProtocol,
+  ProtocolId,
   LeverageParams,
   DeleverageParams,
+  DeleverageTarget,
+  ReleverageParams,
+  ReleveragePreview,
+  RebalanceParams,
+  HealthFactorBand,
+  CollateralSwapParams,
+  DebtSwapParams,
+  AddCollateralParams,
+  MigratePositionParams,
   PositionInfo,
   AssetPosition,
   StrategyResult,
   LeveragePreview,
+  LeverageLimits,
   SDKOptions,
   USDC_COIN_TYPE,
   SUI_COIN_TYPE,
   AccountPortfolio,
+  ObligationPortfolio,
   MarketAsset,
+  AmountKind,
+  RateType,
 } from "./types";
 
 // Protocol Adapters (for advanced usage)
-export { ILendingProtocol, ReserveInfo } from "./protocols/interface";
+export {
+  ILendingProtocol,
+  ReserveInfo,
+  ObligationInfo,
+  PendingObligation,
+  ObligationRef,
+  isPendingObligation,
+} from "./protocols/interface";
 export { SuilendAdapter } from "./protocols/suilend";
 export { NaviAdapter } from "./protocols/navi";
+export { ScallopAdapter } from "./protocols/scallop";
+export {
+  ProtocolRegistry,
+  LendingProtocolFactory,
+} from "./protocols/registry";
+export {
+  checkAdapterConformance,
+  checkMarketAssets,
+  checkPositionInfo,
+  checkAccountPortfolio,
+  ConformanceIssue,
+} from "./protocols/conformance";
 
 // Strategy Builders (for advanced usage)
 export {
   buildLeverageTransaction,
   calculateLeveragePreview,
+  calculateLeverageLimits,
+  getMaxMultiplier,
+  getPairMaxMultiplier,
+  DEFAULT_LEVERAGE_SAFETY_BUFFER,
   buildDeleverageTransaction,
   calculateDeleverageEstimate,
+  DeleverageEstimate,
+  DeleveragePreview,
+  DeleverageUnwindPlan,
+  UnwindLoan,
+  UnwindSwap,
+  isMultiAssetPosition,
+  buildReleverageTransaction,
+  calculateReleveragePreview,
+  buildRebalanceTransaction,
+  calculateRebalancePreview,
+  RebalancePlan,
+  RebalancePreview,
+  buildCollateralSwapTransaction,
+  calculateCollateralSwapEstimate,
+  CollateralSwapEstimate,
+  buildDebtSwapTransaction,
+  calculateDebtSwapEstimate,
+  DebtSwapEstimate,
+  buildAddCollateralTransaction,
+  calculateAddCollateralAmount,
+  AddCollateralEstimate,
+  buildMigrationTransaction,
+  calculateMigrationPreview,
+  MigrationPreview,
 } from "./strategies";
 
 // Utilities
@@ -65,6 +132,104 @@ export * from "./lib/utils";
 
 // Flash Loan
 export { ScallopFlashLoanClient } from "./lib/scallop";
+export {
+  IFlashLoanProvider,
+  FlashLoan,
+  ScallopFlashLoanProvider,
+  NaviFlashLoanProvider,
+  selectFlashLoanProvider,
+} from "./flash-loan";
+
+// Swap
+export {
+  ISwapProvider,
+  SwapQuote,
+  SwapQuoteParams,
+  SevenKSwapProvider,
+  DeepBookSwapProvider,
+  DeepBookPool,
+  DeepBookSwapProviderOptions,
+  InMemorySwapProvider,
+  InMemoryAsset,
+  InMemorySwapProviderOptions,
+  PriceImpactTooHighError,
+  PriceUnavailableError,
+  DEFAULT_SLIPPAGE_BPS,
+  DEFAULT_MAX_PRICE_IMPACT_BPS,
+  getMinAmountOut,
+  getPriceImpactBps,
+} from "./swap";
+
+// Prices
+export {
+  IPriceSource,
+  PriceQuote,
+  SevenKPriceSource,
+  PythPriceSource,
+  PythPriceSourceOptions,
+  DEFAULT_HERMES_ENDPOINT,
+  SuilendReservePriceSource,
+  NaviFeedPriceSource,
+  CachedPriceSource,
+  CachedPriceSourceOptions,
+  StalePriceError,
+  PriceLookupResult,
+  DEFAULT_PRICE_TTL_MS,
+  defaultPriceSource,
+  getPrice,
+} from "./price";
+
+// Monitoring
+export {
+  PositionMonitor,
+  PositionMonitorOptions,
+  MonitorThresholds,
+  DEFAULT_MONITOR_THRESHOLDS,
+  DEFAULT_MONITOR_INTERVAL_MS,
+  DEFAULT_MONITOR_MAX_BACKOFF_MS,
+  HealthLevel,
+  HealthFactorEvent,
+  LiquidationProximityEvent,
+  ApyFlipEvent,
+  DebtAccrualEvent,
+  MonitorErrorEvent,
+  MonitorEvent,
+  MonitorEventType,
+  MonitorSink,
+  ConsoleSink,
+  WebhookSink,
+  WebhookSinkOptions,
+  FileSink,
+  formatMonitorEvent,
+} from "./monitor";
+
+// Keeper
+export {
+  ProtectionKeeper,
+  ProtectionKeeperOptions,
+  KeeperStrategy,
+  DEFAULT_KEEPER_INTERVAL_MS,
+  DEFAULT_KEEPER_MAX_ACTIONS_PER_DAY,
+  DEFAULT_KEEPER_MAX_COST_BPS,
+  DEFAULT_KEEPER_MAX_BACKOFF_MS,
+  KeeperAction,
+  KeeperActionStatus,
+  KeeperJournalEntry,
+  IKeeperJournal,
+  MemoryKeeperJournal,
+  FileKeeperJournal,
+} from "./keeper";
+
+// Stress testing
+export {
+  PriceShock,
+  StressTestOptions,
+  StressTestResult,
+  StressAssetResult,
+  DEFAULT_CLOSE_FACTORS,
+  DEFAULT_LIQUIDATION_BONUS,
+  stressTestPortfolio,
+} from "./lib/stress";
 
 // Constants
 export {
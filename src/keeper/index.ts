@@ -0,0 +1,21 @@
+/**
+ * DeFi Dash SDK - Protection Keeper Exports
+ */
+
+export {
+  KeeperAction,
+  KeeperActionStatus,
+  KeeperJournalEntry,
+  IKeeperJournal,
+  MemoryKeeperJournal,
+  FileKeeperJournal,
+} from "./journal";
+export {
+  ProtectionKeeper,
+  ProtectionKeeperOptions,
+  KeeperStrategy,
+  DEFAULT_KEEPER_INTERVAL_MS,
+  DEFAULT_KEEPER_MAX_ACTIONS_PER_DAY,
+  DEFAULT_KEEPER_MAX_COST_BPS,
+  DEFAULT_KEEPER_MAX_BACKOFF_MS,
+} from "./keeper";
@@ -0,0 +1,100 @@
+/**
+ * DeFi Dash SDK - Keeper Journal
+ *
+ * Record of every decision the protection keeper makes
+ */
+
+import { ProtocolId } from "../types";
+
+export type KeeperAction = "deleverage" | "add-collateral";
+
+/**
+ * Outcome of one keeper decision
+ * - skipped: a limit or check stopped the action before any transaction
+ * - dry-run-failed: the simulation failed, nothing was executed
+ * - simulated: the dry run passed and the keeper runs in dry-run-only mode
+ * - executed / execution-failed: the transaction was submitted
+ */
+export type KeeperActionStatus =
+  | "skipped"
+  | "dry-run-failed"
+  | "simulated"
+  | "executed"
+  | "execution-failed";
+
+export interface KeeperJournalEntry {
+  timestamp: number;
+  protocol: ProtocolId;
+  address: string;
+  obligationId?: string;
+  action: KeeperAction;
+  status: KeeperActionStatus;
+  healthFactor: number;
+  targetHealthFactor: number;
+  /** Why the action was skipped or failed */
+  reason?: string;
+  txDigest?: string;
+  /** Net gas in MIST */
+  gasUsed?: bigint;
+  /** Action-specific figures (amounts, USD values, LTV targets) */
+  details?: Record<string, string | number | boolean>;
+}
+
+export interface IKeeperJournal {
+  append(entry: KeeperJournalEntry): Promise<void>;
+  /** Entries in the order they were appended */
+  list(): Promise<KeeperJournalEntry[]>;
+}
+
+/**
+ * Keep the journal in memory (lost on restart)
+ */
+export class MemoryKeeperJournal implements IKeeperJournal {
+  private entries: KeeperJournalEntry[] = [];
+
+  async append(entry: KeeperJournalEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async list(): Promise<KeeperJournalEntry[]> {
+    return [...this.entries];
+  }
+}
+
+/**
+ * Append entries to a file as JSON lines (Node.js only)
+ *
+ * The file is read back for list(), so daily limits survive restarts.
+ */
+export class FileKeeperJournal implements IKeeperJournal {
+  constructor(private path: string) {}
+
+  async append(entry: KeeperJournalEntry): Promise<void> {
+    // Loaded on use so browser bundles do not need fs
+    const { appendFile } = await import("fs/promises");
+    const line = JSON.stringify(entry, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    );
+    await appendFile(this.path, line + "\n");
+  }
+
+  async list(): Promise<KeeperJournalEntry[]> {
+    const { readFile } = await import("fs/promises");
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf8");
+    } catch (e: any) {
+      if (e.code === "ENOENT") return [];
+      throw e;
+    }
+
+    return content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const entry = JSON.parse(line);
+        if (entry.gasUsed !== undefined) entry.gasUsed = BigInt(entry.gasUsed);
+        return entry as KeeperJournalEntry;
+      });
+  }
+}
@@ -0,0 +1,594 @@
+/**
+ * DeFi Dash SDK - Protection Keeper
+ *
+ * Watches the SDK wallet's positions and, when the health factor drops
+ * below a trigger, partially deleverages or tops up collateral from the
+ * wallet. Every action is dry-run first and journaled.
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import type { DefiDashSDK } from "../sdk";
+import { calculateRebalancePlan } from "../strategies/rebalance";
+import { normalizeCoinType } from "../lib/utils";
+import { getPrice } from "../price";
+import {
+  AccountPortfolio,
+  ObligationPortfolio,
+  ProtocolId,
+  StrategyResult,
+  SUI_COIN_TYPE,
+} from "../types";
+import {
+  IKeeperJournal,
+  KeeperAction,
+  KeeperJournalEntry,
+  MemoryKeeperJournal,
+} from "./journal";
+
+/** Default poll interval (1 minute) */
+export const DEFAULT_KEEPER_INTERVAL_MS = 60_000;
+
+/** Default cap on actions per rolling 24 hours */
+export const DEFAULT_KEEPER_MAX_ACTIONS_PER_DAY = 3;
+
+/** Default deleverage cost budget: 1% of position equity */
+export const DEFAULT_KEEPER_MAX_COST_BPS = 100;
+
+/** Default cap for the backoff after failed position fetches (10 minutes) */
+export const DEFAULT_KEEPER_MAX_BACKOFF_MS = 10 * 60_000;
+
+/** SUI kept in the wallet for gas when topping up with SUI (0.1 SUI) */
+const SUI_GAS_RESERVE = 100_000_000n;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type KeeperStrategy = KeeperAction | "auto";
+
+export interface ProtectionKeeperOptions {
+  /** Protocols to protect (defaults to all enabled) */
+  protocols?: ProtocolId[];
+  /** Obligations to protect (defaults to each protocol's default one) */
+  obligationIds?: string[];
+  /** Act when the health factor falls below this */
+  triggerHealthFactor: number;
+  /** Health factor to restore */
+  targetHealthFactor: number;
+  /**
+   * What to do below the trigger (default "deleverage").
+   * "auto" adds collateral when the wallet can cover it, otherwise (or
+   * when the top-up cannot be planned) deleverages.
+   */
+  strategy?: KeeperStrategy;
+  /** Max actions per rolling 24 hours, across all positions (default 3) */
+  maxActionsPerDay?: number;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /**
+   * Max cost of one deleverage in basis points of position equity
+   * (default 100 = 1%). Cost is the equity removed from the position minus
+   * the value returned to the wallet, plus gas.
+   */
+  maxCostBps?: number;
+  /** Max cost of one deleverage in USD, on top of maxCostBps */
+  maxCostUsd?: number;
+  /** Max USD of wallet collateral deposited in one action */
+  maxCollateralUsd?: number;
+  /** Poll interval (default 60s) */
+  intervalMs?: number;
+  /** Cap for the backoff after a protocol's fetches fail (default 10 min) */
+  maxBackoffMs?: number;
+  /** Only simulate; never submit transactions */
+  dryRunOnly?: boolean;
+  /** Where actions are recorded (default in-memory) */
+  journal?: IKeeperJournal;
+}
+
+/**
+ * A position below the trigger
+ */
+interface KeeperTarget {
+  protocol: ProtocolId;
+  obligationId: string;
+  portfolio: AccountPortfolio;
+}
+
+/**
+ * Fetch failures of one protocol
+ */
+interface FetchFailure {
+  consecutiveFailures: number;
+  /** Earliest time the protocol is fetched again (ms) */
+  nextFetchAt: number;
+}
+
+type JournalDraft = Omit<
+  KeeperJournalEntry,
+  | "timestamp"
+  | "protocol"
+  | "address"
+  | "obligationId"
+  | "healthFactor"
+  | "targetHealthFactor"
+>;
+
+/**
+ * Protect positions from liquidation without a human in the loop
+ *
+ * Each tick checks every watched obligation. Below the trigger the keeper:
+ * 1. Checks the daily action limit
+ * 2. Plans the action (deleverage to the target LTV, or the collateral
+ *    needed for the target health factor) and applies the cost and
+ *    collateral limits
+ * 3. Builds the transaction once and dry-runs it, stopping if the dry run
+ *    fails or gas pushes the cost over budget
+ * 4. Executes that same transaction (unless dryRunOnly)
+ *
+ * Every outcome is appended to the journal. Repeated skips for the same
+ * reason are journaled once until the position recovers. A protocol whose
+ * positions cannot be fetched is logged and retried with exponential
+ * backoff; the other protocols keep their interval.
+ *
+ * @example
+ * ```typescript
+ * const keeper = sdk.createKeeper({
+ *   triggerHealthFactor: 1.25,
+ *   targetHealthFactor: 1.6,
+ *   maxActionsPerDay: 2,
+ *   maxCostUsd: 5,
+ *   journal: new FileKeeperJournal("keeper.jsonl"),
+ * });
+ * keeper.start();
+ * ```
+ */
+export class ProtectionKeeper {
+  private intervalMs: number;
+  private maxBackoffMs: number;
+  private maxActionsPerDay: number;
+  private strategy: KeeperStrategy;
+  private journal: IKeeperJournal;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  /** Last skip reason per obligation, to avoid journaling every tick */
+  private lastSkip = new Map<string, string>();
+  private fetchFailures = new Map<ProtocolId, FetchFailure>();
+
+  constructor(
+    private sdk: DefiDashSDK,
+    private options: ProtectionKeeperOptions,
+  ) {
+    const { triggerHealthFactor, targetHealthFactor } = options;
+    if (triggerHealthFactor <= 1) {
+      throw new Error("triggerHealthFactor must be above 1");
+    }
+    if (targetHealthFactor <= triggerHealthFactor) {
+      throw new Error("targetHealthFactor must be above triggerHealthFactor");
+    }
+
+    this.intervalMs = options.intervalMs ?? DEFAULT_KEEPER_INTERVAL_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_KEEPER_MAX_BACKOFF_MS;
+    this.maxActionsPerDay =
+      options.maxActionsPerDay ?? DEFAULT_KEEPER_MAX_ACTIONS_PER_DAY;
+    this.strategy = options.strategy ?? "deleverage";
+    this.journal = options.journal ?? new MemoryKeeperJournal();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  getJournal(): IKeeperJournal {
+    return this.journal;
+  }
+
+  /**
+   * Start checking positions (the first check runs immediately)
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Check every watched position once and act where needed
+   *
+   * @returns Journal entries written by this run
+   */
+  async runOnce(): Promise<KeeperJournalEntry[]> {
+    const entries: KeeperJournalEntry[] = [];
+    for (const target of await this.findTargets()) {
+      const entry = await this.protect(target);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (e) {
+        console.error("ProtectionKeeper run failed", e);
+      }
+      if (this.running) this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  /**
+   * Watched obligations below the trigger
+   *
+   * Protocols that are backing off are not fetched.
+   */
+  private async findTargets(): Promise<KeeperTarget[]> {
+    const now = Date.now();
+    const protocols = (
+      this.options.protocols ?? this.sdk.getProtocolIds()
+    ).filter((p) => (this.fetchFailures.get(p)?.nextFetchAt ?? 0) <= now);
+
+    const results = await Promise.allSettled(
+      protocols.map((p) => this.sdk.getObligations(p, { throwOnError: true })),
+    );
+    const obligations: ObligationPortfolio[] = [];
+    results.forEach((result, i) => {
+      const protocol = protocols[i];
+      if (result.status === "fulfilled") {
+        this.fetchFailures.delete(protocol);
+        obligations.push(...result.value);
+        return;
+      }
+
+      const consecutiveFailures =
+        (this.fetchFailures.get(protocol)?.consecutiveFailures ?? 0) + 1;
+      const retryInMs = Math.min(
+        this.intervalMs * Math.pow(2, consecutiveFailures),
+        this.maxBackoffMs,
+      );
+      this.fetchFailures.set(protocol, {
+        consecutiveFailures,
+        nextFetchAt: now + retryInMs,
+      });
+      console.error(
+        `ProtectionKeeper could not fetch ${protocol} positions (failure ${consecutiveFailures}, retrying in ${retryInMs}ms)`,
+        result.reason,
+      );
+    });
+
+    const watched = obligations.filter((o) =>
+      this.options.obligationIds
+        ? this.options.obligationIds.includes(o.obligationId)
+        : o.isDefault,
+    );
+
+    const targets: KeeperTarget[] = [];
+    for (const { protocol, obligationId, portfolio } of watched) {
+      const key = `${protocol}:${obligationId}`;
+      const { healthFactor, totalDebtUsd } = portfolio;
+      if (
+        totalDebtUsd <= 0 ||
+        healthFactor >= this.options.triggerHealthFactor
+      ) {
+        this.lastSkip.delete(key);
+        continue;
+      }
+      targets.push({ protocol, obligationId, portfolio });
+    }
+    return targets;
+  }
+
+  /**
+   * Run the configured action for one position
+   */
+  private async protect(
+    target: KeeperTarget,
+  ): Promise<KeeperJournalEntry | undefined> {
+    const fallbackAction: KeeperAction =
+      this.strategy === "add-collateral" ? "add-collateral" : "deleverage";
+
+    const actionsToday = await this.countActionsSince(Date.now() - DAY_MS);
+    if (actionsToday >= this.maxActionsPerDay) {
+      return this.record(target, {
+        action: fallbackAction,
+        status: "skipped",
+        reason: `Daily limit reached (${actionsToday}/${this.maxActionsPerDay} actions)`,
+      });
+    }
+
+    let draft: JournalDraft | undefined;
+    try {
+      if (this.strategy === "add-collateral") {
+        draft = await this.addCollateral(target);
+      } else if (this.strategy === "auto") {
+        // A top-up that cannot be planned still leaves deleverage
+        draft = await this.addCollateral(target).catch(
+          (e: any): JournalDraft => ({
+            action: "add-collateral",
+            status: "skipped",
+            reason: e.message || String(e),
+          }),
+        );
+      }
+      if (
+        this.strategy === "deleverage" ||
+        (this.strategy === "auto" && draft?.status === "skipped")
+      ) {
+        draft = await this.deleverage(target);
+      }
+    } catch (e: any) {
+      draft = {
+        action: fallbackAction,
+        status: "skipped",
+        reason: e.message || String(e),
+      };
+    }
+
+    return draft && this.record(target, draft);
+  }
+
+  /**
+   * Partial deleverage down to the LTV that yields the target health factor
+   */
+  private async deleverage(
+    target: KeeperTarget,
+  ): Promise<JournalDraft | undefined> {
+    const { protocol, obligationId, portfolio } = target;
+    const { targetHealthFactor, slippageBps, maxPriceImpactBps } =
+      this.options;
+
+    const position = await this.sdk.getPosition(protocol, obligationId);
+    if (!position) {
+      return {
+        action: "deleverage",
+        status: "skipped",
+        reason: "Position not found",
+      };
+    }
+
+    const plan = calculateRebalancePlan({
+      position,
+      portfolio,
+      band: {
+        minHealthFactor: this.options.triggerHealthFactor,
+        maxHealthFactor: Infinity,
+        targetHealthFactor,
+      },
+    });
+    if (plan.action !== "deleverage") {
+      return undefined;
+    }
+
+    const params = {
+      protocol,
+      obligationId,
+      targetLtvPercent: plan.targetLtvPercent,
+      slippageBps,
+      maxPriceImpactBps,
+    };
+    // Gas comes from the keeper's own dry run below
+    const preview = await this.sdk.previewDeleverage(params, {
+      estimateGas: false,
+    });
+
+    // Cost: equity taken out of the position minus cash returned
+    const equityBeforeUsd =
+      position.collateral.valueUsd - position.debt.valueUsd;
+    const equityAfterUsd =
+      preview.resultingCollateralUsd - preview.resultingDebtUsd;
+    const costBeforeGasUsd =
+      equityBeforeUsd - equityAfterUsd - preview.totalProfitUsd;
+    const budgetUsd = Math.min(
+      (Math.max(equityBeforeUsd, 0) *
+        (this.options.maxCostBps ?? DEFAULT_KEEPER_MAX_COST_BPS)) /
+        10_000,
+      this.options.maxCostUsd ?? Infinity,
+    );
+    const overBudget = (costUsd: number) =>
+      costUsd > budgetUsd
+        ? `Cost $${costUsd.toFixed(2)} is above the $${budgetUsd.toFixed(2)} budget`
+        : undefined;
+
+    const details: Record<string, string | number | boolean> = {
+      targetLtvPercent: plan.targetLtvPercent,
+      repayAmount: preview.flashLoanUsdc.toString(),
+      debtSymbol: preview.debtSymbol,
+      withdrawAmount: preview.withdrawAmount.toString(),
+      collateralSymbol: preview.collateralSymbol,
+      priceImpactBps: preview.priceImpactBps,
+      costUsd: costBeforeGasUsd,
+      budgetUsd,
+    };
+
+    const reason = overBudget(costBeforeGasUsd);
+    if (reason) {
+      return { action: "deleverage", status: "skipped", reason, details };
+    }
+
+    // Gas cannot be checked against the budget without a SUI price
+    const suiPrice = await getPrice(this.sdk.getPriceSource(), SUI_COIN_TYPE);
+    if (!(suiPrice > 0)) {
+      return {
+        action: "deleverage",
+        status: "skipped",
+        reason: "No SUI price to value gas",
+        details,
+      };
+    }
+
+    return this.simulateAndExecute(
+      "deleverage",
+      details,
+      (tx) => this.sdk.buildDeleverageTransaction(tx, params),
+      (gasUsed) => {
+        const gasUsd = (Number(gasUsed) / 1e9) * suiPrice;
+        details.gasUsd = gasUsd;
+        details.costUsd = costBeforeGasUsd + gasUsd;
+        return overBudget(details.costUsd);
+      },
+    );
+  }
+
+  /**
+   * Deposit the wallet collateral needed for the target health factor
+   */
+  private async addCollateral(target: KeeperTarget): Promise<JournalDraft> {
+    const { protocol, obligationId } = target;
+
+    const estimate = await this.sdk.previewAddCollateral({
+      protocol,
+      obligationId,
+      targetHealthFactor: this.options.targetHealthFactor,
+    });
+    const details = {
+      symbol: estimate.symbol,
+      amount: estimate.amount.toString(),
+      valueUsd: estimate.valueUsd,
+    };
+    const skipped = (reason: string): JournalDraft => ({
+      action: "add-collateral",
+      status: "skipped",
+      reason,
+      details,
+    });
+
+    if (estimate.amount <= 0n) {
+      return skipped("No collateral needed");
+    }
+    const { maxCollateralUsd } = this.options;
+    if (maxCollateralUsd !== undefined && estimate.valueUsd > maxCollateralUsd) {
+      return skipped(
+        `Needs $${estimate.valueUsd.toFixed(2)} of ${estimate.symbol}, above the $${maxCollateralUsd} cap`,
+      );
+    }
+
+    const balance = await this.sdk.getSuiClient().getBalance({
+      owner: this.sdk.getUserAddress(),
+      coinType: estimate.coinType,
+    });
+    const isSui =
+      normalizeCoinType(estimate.coinType) === normalizeCoinType(SUI_COIN_TYPE);
+    const available =
+      BigInt(balance.totalBalance) - (isSui ? SUI_GAS_RESERVE : 0n);
+    if (available < estimate.amount) {
+      return skipped(`Wallet holds too little ${estimate.symbol}`);
+    }
+
+    const amount = (
+      Number(estimate.amount) / Math.pow(10, estimate.decimals)
+    ).toFixed(estimate.decimals);
+    return this.simulateAndExecute("add-collateral", details, (tx) =>
+      this.sdk.buildAddCollateralTransaction(tx, {
+        protocol,
+        obligationId,
+        asset: estimate.coinType,
+        amount,
+      }),
+    );
+  }
+
+  /**
+   * Build the transaction once, dry-run it, then execute it unless dryRunOnly
+   *
+   * @param checkGas - Returns a skip reason once the dry-run gas is known
+   */
+  private async simulateAndExecute(
+    action: KeeperAction,
+    details: KeeperJournalEntry["details"],
+    build: (tx: Transaction) => Promise<void>,
+    checkGas?: (gasUsed: bigint) => string | undefined,
+  ): Promise<JournalDraft> {
+    const tx = new Transaction();
+    tx.setSender(this.sdk.getUserAddress());
+    tx.setGasBudget(100_000_000);
+
+    let simulation: StrategyResult;
+    try {
+      await build(tx);
+      simulation = await this.sdk.simulateTransaction(tx);
+    } catch (e: any) {
+      simulation = { success: false, error: e.message || String(e) };
+    }
+    if (!simulation.success) {
+      return {
+        action,
+        status: "dry-run-failed",
+        reason: simulation.error,
+        details,
+      };
+    }
+
+    const reason = checkGas?.(simulation.gasUsed ?? 0n);
+    if (reason) {
+      return { action, status: "skipped", reason, details };
+    }
+    if (this.options.dryRunOnly) {
+      return {
+        action,
+        status: "simulated",
+        gasUsed: simulation.gasUsed,
+        details,
+      };
+    }
+
+    const result = await this.sdk.executeTransaction(tx);
+    return {
+      action,
+      status: result.success ? "executed" : "execution-failed",
+      reason: result.error,
+      txDigest: result.txDigest,
+      gasUsed: result.gasUsed,
+      details,
+    };
+  }
+
+  /**
+   * Journal a decision
+   *
+   * A skip with the same reason as the previous one for this position is
+   * not journaled again.
+   */
+  private async record(
+    target: KeeperTarget,
+    draft: JournalDraft,
+  ): Promise<KeeperJournalEntry | undefined> {
+    const key = `${target.protocol}:${target.obligationId}`;
+    if (draft.status === "skipped") {
+      if (this.lastSkip.get(key) === draft.reason) return undefined;
+      this.lastSkip.set(key, draft.reason ?? "");
+    } else {
+      this.lastSkip.delete(key);
+    }
+
+    const entry: KeeperJournalEntry = {
+      timestamp: Date.now(),
+      protocol: target.protocol,
+      address: this.sdk.getUserAddress(),
+      obligationId: target.obligationId,
+      healthFactor: target.portfolio.healthFactor,
+      targetHealthFactor: this.options.targetHealthFactor,
+      ...draft,
+    };
+    await this.journal.append(entry);
+    return entry;
+  }
+
+  /**
+   * Actions that submitted (or would have submitted) a transaction
+   */
+  private async countActionsSince(since: number): Promise<number> {
+    const entries = await this.journal.list();
+    return entries.filter(
+      (e) =>
+        e.timestamp >= since &&
+        (e.status === "simulated" ||
+          e.status === "executed" ||
+          e.status === "execution-failed"),
+    ).length;
+  }
+}
@@ -7,7 +7,7 @@ import {
   getPools,
   normalizeCoinType,
 } from "@naviprotocol/lending";
-import { getTokenPrice } from "@7kprotocol/sdk-ts";
+import { IPriceSource, defaultPriceSource } from "../price";
 
 // ============================================================================
 // Type Definitions
@@ -121,10 +121,14 @@ export async function fetchNaviPoolData(): Promise<Map<string, NaviPoolInfo>> {
 
 export async function fetchNaviUserData(
   userAddress: string,
-  poolMap?: Map<string, NaviPoolInfo>
+  poolMap?: Map<string, NaviPoolInfo>,
+  priceSource: IPriceSource = defaultPriceSource
 ): Promise<NaviUserPosition[]> {
   const lendingState = await getLendingState(userAddress, { env: "prod" });
   const pools = poolMap ?? (await fetchNaviPoolData());
+  const prices = await priceSource.getPrices(
+    lendingState.map((pos) => normalizeCoinType(pos.pool.coinType))
+  );
 
   // 1차: position 데이터 수집
   const rawPositions: Omit<NaviUserPosition, "liquidationPrice">[] = [];
@@ -139,7 +143,7 @@ export async function fetchNaviUserData(
 
     if (supplyBalance <= 0n && borrowBalance <= 0n) continue;
 
-    const price = await getTokenPrice(coinType);
+    const price = prices[coinType]?.price ?? 0;
     const supplyAmount = Number(supplyBalance) / Math.pow(10, pool.decimals);
     const borrowAmount = Number(borrowBalance) / Math.pow(10, pool.decimals);
 
@@ -184,10 +188,11 @@ export async function fetchNaviUserData(
 
 export async function fetchNaviAccountSummary(
   userAddress: string,
-  poolMap?: Map<string, NaviPoolInfo>
+  poolMap?: Map<string, NaviPoolInfo>,
+  priceSource?: IPriceSource
 ): Promise<NaviAccountSummary> {
   const pools = poolMap ?? (await fetchNaviPoolData());
-  const positions = await fetchNaviUserData(userAddress, pools);
+  const positions = await fetchNaviUserData(userAddress, pools, priceSource);
 
   let totalSupplyValueUsd = 0;
   let totalBorrowValueUsd = 0;
@@ -1,5 +1,6 @@
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
 
 /**
  * Scallop Protocol Addresses
@@ -116,6 +117,20 @@ export class ScallopFlashLoanClient {
     return coinType;
   }
 
+  /**
+   * Get coin name from coin type (reverse of getCoinType)
+   */
+  getCoinName(coinType: string): string {
+    const normalized = normalizeStructTag(coinType);
+    const entry = Object.entries(this.coinTypes).find(
+      ([, type]) => normalizeStructTag(type) === normalized
+    );
+    if (!entry) {
+      throw new Error(`No Scallop flash loan pool for coin type: ${coinType}`);
+    }
+    return entry[0];
+  }
+
   /**
    * Get current core IDs (for debugging)
    */
@@ -0,0 +1,363 @@
+/**
+ * DeFi Dash SDK - Liquidation Stress Test
+ *
+ * Re-prices an AccountPortfolio under price shocks to several assets at
+ * once and reports the resulting health factor, what a liquidator could
+ * take and how far each asset is from triggering liquidation. Works on
+ * saved portfolio JSON, no RPC needed.
+ *
+ * Supply marked isCollateral: false (e.g. Scallop wallet sCoins) does not
+ * back the debt and is left out.
+ */
+
+import {
+  AccountPortfolio,
+  LendingProtocol,
+  MarketAsset,
+  Position,
+} from "../types";
+import { normalizeCoinType } from "./utils";
+
+/**
+ * Share of the debt a liquidator may repay in one call, per protocol.
+ * Portfolios from other protocols need an explicit closeFactor.
+ */
+export const DEFAULT_CLOSE_FACTORS: Record<string, number> = {
+  [LendingProtocol.Suilend]: 0.2,
+};
+
+/** Liquidation bonus assumed when the market data has none (5%) */
+export const DEFAULT_LIQUIDATION_BONUS = 0.05;
+
+/**
+ * Relative price move for one asset
+ */
+export interface PriceShock {
+  /** Coin type or symbol (case-insensitive) */
+  asset: string;
+  /** Price change as a decimal (-0.3 = -30%) */
+  change: number;
+}
+
+export interface StressTestOptions {
+  /**
+   * Market data for per-asset liquidation thresholds, borrow weights and
+   * bonuses. Without it, the portfolio's blended threshold and borrow
+   * weight are applied to every asset.
+   */
+  markets?: MarketAsset[];
+  /**
+   * Share of the debt repayable per liquidation (default: the portfolio
+   * protocol's entry in DEFAULT_CLOSE_FACTORS). Required for other
+   * protocols once the shocked portfolio is liquidatable.
+   */
+  closeFactor?: number;
+  /** Bonus for assets without market data (default 0.05) */
+  defaultLiquidationBonus?: number;
+}
+
+/**
+ * One asset of the portfolio after the shocks
+ */
+export interface StressAssetResult {
+  coinType: string;
+  symbol: string;
+  /** Shock applied to this asset (decimal, 0 when unshocked) */
+  priceChange: number;
+  /** Unit price after the shock (undefined when the amount is 0) */
+  price?: number;
+  collateralUsd: number;
+  debtUsd: number;
+  /** Price of this asset alone at which the health factor reaches 1 */
+  liquidationPrice: number | null;
+  /**
+   * Further move of this asset's price, from the shocked price, that
+   * brings the health factor to 1 (-0.2 = another 20% drop). Null when no
+   * move of this asset alone can liquidate the account.
+   */
+  distanceToLiquidation: number | null;
+}
+
+export interface StressTestResult {
+  protocol: string;
+  address: string;
+  /** Health factor before the shocks (same model as healthFactor) */
+  healthFactorBefore: number;
+  healthFactor: number;
+  totalCollateralUsd: number;
+  totalDebtUsd: number;
+  liquidationThresholdUsd: number;
+  weightedBorrowsUsd: number;
+  isLiquidatable: boolean;
+  /** Debt a liquidator can repay in one call (USD, 0 when healthy) */
+  liquidatableDebtUsd: number;
+  /** Collateral taken for that repayment (USD) */
+  seizedCollateralUsd: number;
+  /** Part of the seized collateral lost to the liquidation bonus (USD) */
+  liquidationBonusUsd: number;
+  assets: StressAssetResult[];
+}
+
+interface AssetRisk {
+  liquidationThreshold: number;
+  borrowWeight: number;
+  liquidationBonus: number;
+}
+
+interface ShockedAsset {
+  coinType: string;
+  symbol: string;
+  priceChange: number;
+  price?: number;
+  collateralUsd: number;
+  debtUsd: number;
+  risk: AssetRisk;
+}
+
+/**
+ * Positions that count toward the health factor
+ */
+function isRiskPosition(position: Position): boolean {
+  return position.side === "borrow" || position.isCollateral !== false;
+}
+
+/**
+ * Find the shock that applies to a position (coin type match wins)
+ */
+function findShock(position: Position, shocks: PriceShock[]): number {
+  const coinType = normalizeCoinType(position.coinType);
+  const byCoinType = shocks.find(
+    (s) => s.asset.includes("::") && normalizeCoinType(s.asset) === coinType,
+  );
+  if (byCoinType) return byCoinType.change;
+
+  const symbol = position.symbol.toUpperCase();
+  const bySymbol = shocks.find((s) => s.asset.toUpperCase() === symbol);
+  return bySymbol?.change ?? 0;
+}
+
+/**
+ * Per-asset risk parameters, falling back to the portfolio's blended ones
+ */
+function getAssetRisk(
+  coinType: string,
+  portfolio: AccountPortfolio,
+  options: StressTestOptions,
+): AssetRisk {
+  const market = options.markets?.find(
+    (m) => normalizeCoinType(m.coinType) === coinType,
+  );
+  const defaultBonus =
+    options.defaultLiquidationBonus ?? DEFAULT_LIQUIDATION_BONUS;
+
+  // Over collateral positions only, like liquidationThresholdUsd
+  const collateralUsd = portfolio.positions
+    .filter((p) => p.side === "supply" && isRiskPosition(p))
+    .reduce((sum, p) => sum + p.valueUsd, 0);
+  const blendedThreshold =
+    collateralUsd > 0 && portfolio.liquidationThresholdUsd !== undefined
+      ? portfolio.liquidationThresholdUsd / collateralUsd
+      : undefined;
+  const blendedBorrowWeight =
+    portfolio.totalDebtUsd > 0 && portfolio.weightedBorrowsUsd
+      ? portfolio.weightedBorrowsUsd / portfolio.totalDebtUsd
+      : 1;
+
+  const liquidationThreshold =
+    market?.liquidationThreshold ?? blendedThreshold;
+  if (liquidationThreshold === undefined) {
+    throw new Error(
+      `No liquidation threshold for ${coinType}; pass markets in the options`,
+    );
+  }
+
+  return {
+    liquidationThreshold,
+    borrowWeight: market?.borrowWeight ?? blendedBorrowWeight,
+    liquidationBonus: market?.liquidationBonus ?? defaultBonus,
+  };
+}
+
+function healthFactor(thresholdUsd: number, weightedBorrowsUsd: number) {
+  return weightedBorrowsUsd > 0 ? thresholdUsd / weightedBorrowsUsd : Infinity;
+}
+
+/**
+ * Group positions by asset and apply the shocks
+ */
+function shockAssets(
+  portfolio: AccountPortfolio,
+  shocks: PriceShock[],
+  options: StressTestOptions,
+): ShockedAsset[] {
+  const assets = new Map<string, ShockedAsset>();
+
+  for (const position of portfolio.positions) {
+    if (!isRiskPosition(position)) continue;
+
+    const coinType = normalizeCoinType(position.coinType);
+    let asset = assets.get(coinType);
+    if (!asset) {
+      const priceChange = findShock(position, shocks);
+      if (priceChange < -1) {
+        throw new Error(
+          `Invalid shock for ${position.symbol}: ${priceChange} (below -100%)`,
+        );
+      }
+      asset = {
+        coinType,
+        symbol: position.symbol,
+        priceChange,
+        collateralUsd: 0,
+        debtUsd: 0,
+        risk: getAssetRisk(coinType, portfolio, options),
+      };
+      assets.set(coinType, asset);
+    }
+
+    const valueUsd = position.valueUsd * (1 + asset.priceChange);
+    if (position.side === "supply") {
+      asset.collateralUsd += valueUsd;
+    } else {
+      asset.debtUsd += valueUsd;
+    }
+    if (asset.price === undefined && position.amount > 0) {
+      asset.price = valueUsd / position.amount;
+    }
+  }
+
+  return [...assets.values()];
+}
+
+/**
+ * Solve for the multiplier m on one asset's price that gives HF = 1
+ *
+ * Threshold - S + m*S = WeightedBorrows - B + m*B, where S and B are the
+ * asset's weighted collateral and debt. Null when no m > 0 exists.
+ */
+function solveLiquidationMultiplier(
+  asset: ShockedAsset,
+  thresholdUsd: number,
+  weightedBorrowsUsd: number,
+): number | null {
+  const s = asset.collateralUsd * asset.risk.liquidationThreshold;
+  const b = asset.debtUsd * asset.risk.borrowWeight;
+  if (s === b) return null;
+
+  const m = (weightedBorrowsUsd - b - (thresholdUsd - s)) / (s - b);
+  return Number.isFinite(m) && m > 0 ? m : null;
+}
+
+/**
+ * Stress-test a portfolio under simultaneous price shocks
+ *
+ * HF = Σ collateral × liquidation threshold / Σ debt × borrow weight.
+ * When the shocked HF is below 1, a liquidator repays closeFactor of the
+ * debt and seizes the largest collateral plus its liquidation bonus.
+ *
+ * @example
+ * ```typescript
+ * const result = stressTestPortfolio(
+ *   portfolio,
+ *   [
+ *     { asset: "SUI", change: -0.3 },
+ *     { asset: "LBTC", change: -0.15 },
+ *   ],
+ *   { markets },
+ * );
+ * console.log(result.healthFactor, result.liquidatableDebtUsd);
+ * ```
+ */
+export function stressTestPortfolio(
+  portfolio: AccountPortfolio,
+  shocks: PriceShock[],
+  options: StressTestOptions = {},
+): StressTestResult {
+  const closeFactor =
+    options.closeFactor ?? DEFAULT_CLOSE_FACTORS[portfolio.protocol];
+  if (closeFactor !== undefined && (closeFactor <= 0 || closeFactor > 1)) {
+    throw new Error(`Invalid close factor: ${closeFactor}`);
+  }
+
+  const totals = (assets: ShockedAsset[]) => ({
+    collateralUsd: assets.reduce((sum, a) => sum + a.collateralUsd, 0),
+    debtUsd: assets.reduce((sum, a) => sum + a.debtUsd, 0),
+    thresholdUsd: assets.reduce(
+      (sum, a) => sum + a.collateralUsd * a.risk.liquidationThreshold,
+      0,
+    ),
+    weightedBorrowsUsd: assets.reduce(
+      (sum, a) => sum + a.debtUsd * a.risk.borrowWeight,
+      0,
+    ),
+  });
+
+  const before = totals(shockAssets(portfolio, [], options));
+  const assets = shockAssets(portfolio, shocks, options);
+  const after = totals(assets);
+
+  const hf = healthFactor(after.thresholdUsd, after.weightedBorrowsUsd);
+  const isLiquidatable = hf < 1;
+
+  let liquidatableDebtUsd = 0;
+  let seizedCollateralUsd = 0;
+  if (isLiquidatable) {
+    if (closeFactor === undefined) {
+      throw new Error(
+        `No default close factor for ${portfolio.protocol}; pass closeFactor`,
+      );
+    }
+    const seized = assets.reduce<ShockedAsset | undefined>(
+      (largest, a) =>
+        a.collateralUsd > (largest?.collateralUsd ?? 0) ? a : largest,
+      undefined,
+    );
+    const bonus = 1 + (seized?.risk.liquidationBonus ?? 0);
+    const available = seized?.collateralUsd ?? 0;
+
+    liquidatableDebtUsd = after.debtUsd * closeFactor;
+    seizedCollateralUsd = liquidatableDebtUsd * bonus;
+    if (seizedCollateralUsd > available) {
+      seizedCollateralUsd = available;
+      liquidatableDebtUsd = available / bonus;
+    }
+  }
+
+  return {
+    protocol: portfolio.protocol,
+    address: portfolio.address,
+    healthFactorBefore: healthFactor(
+      before.thresholdUsd,
+      before.weightedBorrowsUsd,
+    ),
+    healthFactor: hf,
+    totalCollateralUsd: after.collateralUsd,
+    totalDebtUsd: after.debtUsd,
+    liquidationThresholdUsd: after.thresholdUsd,
+    weightedBorrowsUsd: after.weightedBorrowsUsd,
+    isLiquidatable,
+    liquidatableDebtUsd,
+    seizedCollateralUsd,
+    liquidationBonusUsd: seizedCollateralUsd - liquidatableDebtUsd,
+    assets: assets.map((a) => {
+      const multiplier = solveLiquidationMultiplier(
+        a,
+        after.thresholdUsd,
+        after.weightedBorrowsUsd,
+      );
+      return {
+        coinType: a.coinType,
+        symbol: a.symbol,
+        priceChange: a.priceChange,
+        price: a.price,
+        collateralUsd: a.collateralUsd,
+        debtUsd: a.debtUsd,
+        liquidationPrice:
+          multiplier !== null && a.price !== undefined
+            ? a.price * multiplier
+            : null,
+        distanceToLiquidation: multiplier !== null ? multiplier - 1 : null,
+      };
+    }),
+  };
+}
@@ -6,4 +6,7 @@
 
 export * from "./format";
 export * from "./coin";
+export * from "./position";
 export * from "./logger";
+export * from "./units";
+export * from "./refresh";
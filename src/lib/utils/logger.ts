@@ -5,6 +5,7 @@
  */
 
 import { PositionInfo, LeveragePreview, StrategyResult } from "../../types";
+import { DeleveragePreview } from "../../strategies/deleverage";
 
 const DIVIDER = "─".repeat(55);
 
@@ -68,18 +69,22 @@ export function logPosition(
     return;
   }
 
-  const { collateral, debt, netValueUsd } = position;
+  const { collaterals, debts, netValueUsd } = position;
 
   console.log(`\n📋 Current Position:`);
   console.log(DIVIDER);
-  console.log(
-    `   Collateral: ${formatAmount(collateral.amount, collateral.decimals)} ${collateral.symbol}`,
-  );
-  console.log(`   Value:      ${formatUsd(collateral.valueUsd)}`);
-  console.log(
-    `   Debt:       ${formatAmount(debt.amount, debt.decimals)} ${debt.symbol}`,
-  );
-  console.log(`   Value:      ${formatUsd(debt.valueUsd)}`);
+  for (const collateral of collaterals) {
+    console.log(
+      `   Collateral: ${formatAmount(collateral.amount, collateral.decimals)} ${collateral.symbol}`,
+    );
+    console.log(`   Value:      ${formatUsd(collateral.valueUsd)}`);
+  }
+  for (const debt of debts) {
+    console.log(
+      `   Debt:       ${formatAmount(debt.amount, debt.decimals)} ${debt.symbol}`,
+    );
+    console.log(`   Value:      ${formatUsd(debt.valueUsd)}`);
+  }
   console.log(`   Net Value:  ${formatUsd(netValueUsd)}`);
   console.log(DIVIDER);
 }
@@ -106,15 +111,50 @@ export function logLeveragePreview(preview: LeveragePreview): void {
   console.log(DIVIDER);
   console.log(`   Initial Equity:    ${formatUsd(preview.initialEquityUsd)}`);
   console.log(
-    `   Flash Loan:        ${(Number(preview.flashLoanUsdc) / 1e6).toFixed(2)} USDC`,
+    `   Flash Loan:        ${formatAmount(preview.flashLoanUsdc, preview.borrowDecimals)} ${preview.borrowSymbol}`,
   );
   console.log(`   Total Position:    ${formatUsd(preview.totalPositionUsd)}`);
   console.log(`   Total Debt:        ${formatUsd(preview.debtUsd)}`);
   console.log(`   Position LTV:      ${preview.ltvPercent.toFixed(1)}%`);
+  console.log(
+    `   Max Multiplier:    ${preview.maxMultiplier.toFixed(2)}x (open LTV ${preview.openLtvPercent.toFixed(0)}%)`,
+  );
+  console.log(`   Health Factor:     ${preview.healthFactor.toFixed(2)}`);
   console.log(
     `   Liquidation Price: $${preview.liquidationPrice.toLocaleString()}`,
   );
   console.log(`   Price Drop Buffer: ${preview.priceDropBuffer.toFixed(1)}%`);
+  console.log(
+    `   Swap Price Impact: ${(preview.priceImpactBps / 100).toFixed(2)}%`,
+  );
+  console.log(DIVIDER);
+}
+
+export function logDeleveragePreview(preview: DeleveragePreview): void {
+  console.log("\n📉 Deleverage Preview:");
+  console.log(DIVIDER);
+  console.log(
+    `   Flash Loan:        ${formatAmount(preview.flashLoanUsdc, preview.debtDecimals)} ${preview.debtSymbol}`,
+  );
+  console.log(
+    `   Flash Loan Fee:    ${formatAmount(preview.flashLoanFee, preview.debtDecimals)} ${preview.debtSymbol}`,
+  );
+  console.log(
+    `   Swap Amount:       ${formatAmount(preview.swapAmount, preview.collateralDecimals)} ${preview.collateralSymbol}`,
+  );
+  console.log(
+    `   Collateral Back:   ${formatAmount(preview.keepCollateral, preview.collateralDecimals)} ${preview.collateralSymbol}`,
+  );
+  console.log(
+    `   Debt Back:         ${formatAmount(preview.estimatedUsdcProfit, preview.debtDecimals)} ${preview.debtSymbol}`,
+  );
+  console.log(`   Total Returned:    ${formatUsd(preview.totalProfitUsd)}`);
+  console.log(
+    `   Swap Price Impact: ${(preview.priceImpactBps / 100).toFixed(2)}%`,
+  );
+  if (preview.estimatedGas !== null) {
+    console.log(`   Estimated Gas:     ${formatGas(preview.estimatedGas)}`);
+  }
   console.log(DIVIDER);
 }
 
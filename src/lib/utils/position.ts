@@ -0,0 +1,47 @@
+/**
+ * DeFi Dash SDK - Position Utilities
+ */
+
+import { AssetPosition, PositionInfo, USDC_COIN_TYPE } from "../../types";
+import { normalizeCoinType } from "./coin";
+
+/**
+ * Assemble PositionInfo from every deposit and borrow of an obligation
+ *
+ * Assets are sorted by USD value; the largest of each side becomes the
+ * primary collateral/debt. Returns null when there is no collateral.
+ */
+export function buildPositionInfo(
+  collaterals: AssetPosition[],
+  debts: AssetPosition[],
+): PositionInfo | null {
+  const byValue = (a: AssetPosition, b: AssetPosition) =>
+    b.valueUsd - a.valueUsd;
+  const sortedCollaterals = collaterals
+    .filter((c) => c.amount > 0n)
+    .sort(byValue);
+  const sortedDebts = debts.filter((d) => d.amount > 0n).sort(byValue);
+
+  if (sortedCollaterals.length === 0) return null;
+
+  const totalCollateralUsd = sortedCollaterals.reduce(
+    (sum, c) => sum + c.valueUsd,
+    0,
+  );
+  const totalDebtUsd = sortedDebts.reduce((sum, d) => sum + d.valueUsd, 0);
+
+  return {
+    collateral: sortedCollaterals[0],
+    debt: sortedDebts[0] ?? {
+      amount: 0n,
+      amountKind: "underlying",
+      symbol: "USDC",
+      coinType: normalizeCoinType(USDC_COIN_TYPE),
+      decimals: 6,
+      valueUsd: 0,
+    },
+    collaterals: sortedCollaterals,
+    debts: sortedDebts,
+    netValueUsd: totalCollateralUsd - totalDebtUsd,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * DeFi Dash SDK - Interval Refresh
+ *
+ * Keeps state loaded once (e.g. a lending market) from going stale
+ * without re-fetching it on every call.
+ */
+
+/**
+ * Runs an async refresh at most once per interval; concurrent callers
+ * share the one in flight and a failed refresh is retried on the next call
+ *
+ * @example
+ * ```typescript
+ * const market = new IntervalRefresher(() => reloadMarket(), 5_000);
+ * await market.run(); // reloads only if the last load is 5s old
+ * ```
+ */
+export class IntervalRefresher {
+  private refreshedAt = -Infinity;
+  private inFlight?: Promise<void>;
+
+  constructor(
+    private refresh: () => Promise<void>,
+    private intervalMs: number,
+  ) {}
+
+  /**
+   * Refresh unless the last one finished less than intervalMs ago
+   */
+  run(): Promise<void> {
+    if (Date.now() - this.refreshedAt < this.intervalMs) {
+      return Promise.resolve();
+    }
+    if (!this.inFlight) {
+      this.inFlight = this.refresh()
+        .then(() => this.markFresh())
+        .finally(() => {
+          this.inFlight = undefined;
+        });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Record a load done elsewhere (e.g. the initial one)
+   */
+  markFresh(): void {
+    this.refreshedAt = Date.now();
+  }
+}
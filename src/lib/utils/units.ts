@@ -0,0 +1,85 @@
+/**
+ * DeFi Dash SDK - Amount and Rate Units
+ *
+ * Every amount the SDK returns is an integer `raw` value plus the
+ * `decimals` it is scaled by, tagged as underlying tokens or protocol
+ * shares. Every rate is a decimal APY (0.05 = 5%); adapters convert their
+ * native quotes with toApy().
+ */
+
+import BigNumber from "bignumber.js";
+import { RateType } from "../../types";
+
+/**
+ * Days per year used when compounding an APR into an APY
+ */
+export const COMPOUNDING_PERIODS_PER_YEAR = 365;
+
+/**
+ * Convert a rate quoted as bps, APR or APY to a decimal APY
+ *
+ * bps and APR are simple annual rates and are compounded daily;
+ * apr/apy values are decimals (0.05 = 5%), bps are basis points.
+ *
+ * @example
+ * toApy(500, "bps") // ≈ 0.0513
+ * toApy(0.05, "apr") // ≈ 0.0513
+ * toApy(0.05, "apy") // 0.05
+ */
+export function toApy(
+  value: number,
+  type: RateType,
+  periodsPerYear = COMPOUNDING_PERIODS_PER_YEAR,
+): number {
+  if (!Number.isFinite(value)) return 0;
+  switch (type) {
+    case "apy":
+      return value;
+    case "apr":
+      return Math.pow(1 + value / periodsPerYear, periodsPerYear) - 1;
+    case "bps":
+      return toApy(value / 10000, "apr", periodsPerYear);
+  }
+}
+
+/**
+ * Move a raw amount between decimal scales, rounding down
+ *
+ * @example
+ * rescaleRaw(1_500_000_000n, 9, 6) // 1_500_000n
+ */
+export function rescaleRaw(raw: bigint, from: number, to: number): bigint {
+  if (from === to) return raw;
+  return from > to
+    ? raw / 10n ** BigInt(from - to)
+    : raw * 10n ** BigInt(to - from);
+}
+
+/**
+ * Human-readable amount (raw / 10^decimals) as a number
+ */
+export function toHumanAmount(
+  raw: bigint | string | number,
+  decimals: number,
+): number {
+  return Number(raw) / Math.pow(10, decimals);
+}
+
+/**
+ * Raw integer amount from a human-readable one (rounds down by default)
+ *
+ * @example
+ * toRawAmount("1.5", 6) // 1_500_000n
+ */
+export function toRawAmount(
+  amount: BigNumber.Value,
+  decimals: number,
+  roundingMode: BigNumber.RoundingMode = BigNumber.ROUND_DOWN,
+): bigint {
+  return BigInt(
+    new BigNumber(amount)
+      .shiftedBy(decimals)
+      .integerValue(roundingMode)
+      .toFixed(0),
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * DeFi Dash SDK - Position Monitor Exports
+ */
+
+export {
+  HealthLevel,
+  HealthFactorEvent,
+  LiquidationProximityEvent,
+  ApyFlipEvent,
+  DebtAccrualEvent,
+  MonitorErrorEvent,
+  MonitorEvent,
+  MonitorEventType,
+  MonitorSink,
+} from "./interface";
+export {
+  PositionMonitor,
+  PositionMonitorOptions,
+  MonitorThresholds,
+  DEFAULT_MONITOR_THRESHOLDS,
+  DEFAULT_MONITOR_INTERVAL_MS,
+  DEFAULT_MONITOR_MAX_BACKOFF_MS,
+} from "./monitor";
+export {
+  ConsoleSink,
+  WebhookSink,
+  WebhookSinkOptions,
+  FileSink,
+  formatMonitorEvent,
+} from "./sinks";
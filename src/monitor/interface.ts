@@ -0,0 +1,102 @@
+/**
+ * DeFi Dash SDK - Position Monitor Events
+ *
+ * Typed events emitted by PositionMonitor and the sink interface that
+ * delivers them
+ */
+
+import { ProtocolId } from "../types";
+
+export type HealthLevel = "ok" | "warning" | "critical";
+
+interface MonitorEventBase {
+  protocol: ProtocolId;
+  address: string;
+  /** Obligation/account the event is about (absent on fetch errors) */
+  obligationId?: string;
+  /** When the event was detected (ms) */
+  timestamp: number;
+}
+
+/**
+ * Health factor crossed into a different level (including recovery)
+ */
+export interface HealthFactorEvent extends MonitorEventBase {
+  type: "health-factor";
+  level: HealthLevel;
+  previousLevel: HealthLevel;
+  healthFactor: number;
+  /** Threshold that was crossed */
+  threshold: number;
+}
+
+/**
+ * An asset's price came within the alert distance of the price at which
+ * it alone would bring the health factor to 1 (a drop for collateral, a
+ * rise for debt)
+ */
+export interface LiquidationProximityEvent extends MonitorEventBase {
+  type: "liquidation-proximity";
+  coinType: string;
+  symbol: string;
+  price: number;
+  liquidationPrice: number;
+  /** Relative price move to the liquidation price (0.08 = 8%) */
+  distance: number;
+}
+
+/**
+ * Net APY changed sign (earning ↔ paying)
+ */
+export interface ApyFlipEvent extends MonitorEventBase {
+  type: "apy-flip";
+  previousNetApy: number;
+  netApy: number;
+}
+
+/**
+ * A debt grew since the last debt event (interest or a new borrow)
+ */
+export interface DebtAccrualEvent extends MonitorEventBase {
+  type: "debt-accrual";
+  coinType: string;
+  symbol: string;
+  /** Human-readable amounts */
+  previousAmount: number;
+  amount: number;
+  increaseUsd: number;
+}
+
+/**
+ * A protocol/address pair could not be fetched; polling of that pair
+ * backs off
+ */
+export interface MonitorErrorEvent extends MonitorEventBase {
+  type: "error";
+  message: string;
+  consecutiveFailures: number;
+  /** Delay before the next poll */
+  retryInMs: number;
+}
+
+export type MonitorEvent =
+  | HealthFactorEvent
+  | LiquidationProximityEvent
+  | ApyFlipEvent
+  | DebtAccrualEvent
+  | MonitorErrorEvent;
+
+export type MonitorEventType = MonitorEvent["type"];
+
+/**
+ * Destination for monitor events (console, webhook, file, ...)
+ */
+export interface MonitorSink {
+  /** Sink name identifier */
+  readonly name: string;
+
+  /**
+   * Deliver one event; errors are logged and do not stop the monitor
+   */
+  handle(event: MonitorEvent): Promise<void> | void;
+}
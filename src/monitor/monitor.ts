@@ -0,0 +1,436 @@
+/**
+ * DeFi Dash SDK - Position Monitor
+ *
+ * Polls every obligation of a set of wallets and emits typed events when
+ * health, liquidation distance, net APY or debt change
+ */
+
+import { ILendingProtocol } from "../protocols/interface";
+import { AccountPortfolio, MarketAsset, ProtocolId } from "../types";
+import { normalizeCoinType } from "../lib/utils";
+import { DEFAULT_CLOSE_FACTORS, stressTestPortfolio } from "../lib/stress";
+import {
+  HealthLevel,
+  MonitorEvent,
+  MonitorEventType,
+  MonitorSink,
+} from "./interface";
+
+/** Default poll interval (1 minute) */
+export const DEFAULT_MONITOR_INTERVAL_MS = 60_000;
+
+/** Longest delay between polls while the RPC keeps failing (10 minutes) */
+export const DEFAULT_MONITOR_MAX_BACKOFF_MS = 600_000;
+
+export interface MonitorThresholds {
+  /** Warn below this health factor (default 1.5) */
+  warningHealthFactor: number;
+  /** Critical below this health factor (default 1.2) */
+  criticalHealthFactor: number;
+  /** Alert when an asset's price is within this fraction of its liquidation price (default 0.1) */
+  liquidationDistance: number;
+  /** Relative debt growth that triggers a debt event (default 0.001) */
+  debtIncrease: number;
+}
+
+export const DEFAULT_MONITOR_THRESHOLDS: MonitorThresholds = {
+  warningHealthFactor: 1.5,
+  criticalHealthFactor: 1.2,
+  liquidationDistance: 0.1,
+  debtIncrease: 0.001,
+};
+
+export interface PositionMonitorOptions {
+  /** Wallets to watch */
+  addresses: string[];
+  /** Protocols to poll for every address */
+  protocols: ProtocolId[];
+  /** Resolves an initialized adapter, e.g. `(id) => registry.get(id, client)` */
+  getProtocol: (id: ProtocolId) => Promise<ILendingProtocol>;
+  /** Poll interval (default 60s) */
+  intervalMs?: number;
+  /** Cap for a pair's exponential backoff after failed polls (default 10 min) */
+  maxBackoffMs?: number;
+  thresholds?: Partial<MonitorThresholds>;
+  sinks?: MonitorSink[];
+}
+
+type Listener<T extends MonitorEventType> = (
+  event: Extract<MonitorEvent, { type: T }>,
+) => void;
+
+/**
+ * What the monitor remembers about one obligation
+ */
+interface WatchState {
+  level: HealthLevel;
+  netApy?: number;
+  /** Assets currently inside the liquidation alert distance */
+  nearLiquidation: Set<string>;
+  /** Debt amount at the last debt event, per coin type */
+  debtBaseline: Map<string, number>;
+  initialized: boolean;
+}
+
+/**
+ * Failure tracking for one protocol/address pair
+ */
+interface PairState {
+  consecutiveFailures: number;
+  /** Earliest time the pair is polled again (ms) */
+  nextPollAt: number;
+}
+
+interface Target {
+  protocol: ProtocolId;
+  address: string;
+}
+
+/**
+ * Poll portfolios and emit events on threshold crossings
+ *
+ * Every obligation/account of each protocol/address pair is watched.
+ * Events fire on transitions (entering or leaving a level, a new
+ * liquidation alert), not on every poll. A failed fetch emits an "error"
+ * event and doubles the delay before that pair is polled again, up to
+ * maxBackoffMs; other pairs keep their interval.
+ *
+ * Liquidation distances come from stressTestPortfolio over the whole
+ * portfolio with the protocol's market parameters: for each asset, the
+ * price at which it alone brings the health factor to 1.
+ *
+ * @example
+ * ```typescript
+ * const monitor = sdk.createPositionMonitor({
+ *   intervalMs: 30_000,
+ *   sinks: [new ConsoleSink(), new WebhookSink({ url })],
+ * });
+ * monitor.on("health-factor", (e) => {
+ *   if (e.level === "critical") page(e);
+ * });
+ * monitor.start();
+ * ```
+ */
+export class PositionMonitor {
+  private intervalMs: number;
+  private maxBackoffMs: number;
+  private thresholds: MonitorThresholds;
+  private sinks: MonitorSink[];
+  private listeners = new Map<MonitorEventType, Set<Listener<any>>>();
+  private states = new Map<string, WatchState>();
+  private pairs = new Map<string, PairState>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(private options: PositionMonitorOptions) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_MONITOR_INTERVAL_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MONITOR_MAX_BACKOFF_MS;
+    this.thresholds = { ...DEFAULT_MONITOR_THRESHOLDS, ...options.thresholds };
+    this.sinks = options.sinks ?? [];
+
+    if (
+      this.thresholds.criticalHealthFactor >
+      this.thresholds.warningHealthFactor
+    ) {
+      throw new Error(
+        "criticalHealthFactor must not be above warningHealthFactor",
+      );
+    }
+  }
+
+  /**
+   * Listen for one event type
+   * @returns Function that removes the listener
+   */
+  on<T extends MonitorEventType>(type: T, listener: Listener<T>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => set!.delete(listener);
+  }
+
+  addSink(sink: MonitorSink): void {
+    this.sinks.push(sink);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start polling (the first poll runs immediately)
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Poll every protocol/address pair that is not backing off
+   *
+   * @returns Events emitted by this poll
+   */
+  async poll(): Promise<MonitorEvent[]> {
+    const { addresses, protocols } = this.options;
+    const now = Date.now();
+    const targets: Target[] = protocols
+      .flatMap((protocol) =>
+        addresses.map((address) => ({ protocol, address })),
+      )
+      .filter((t) => (this.pairs.get(pairKey(t))?.nextPollAt ?? 0) <= now);
+
+    // Market parameters are fetched once per protocol and poll
+    const markets = new Map<ProtocolId, Promise<MarketAsset[]>>();
+    const results = await Promise.allSettled(
+      targets.map((target) => this.fetchPair(target, markets)),
+    );
+
+    const events: MonitorEvent[] = [];
+    results.forEach((result, i) => {
+      const target = targets[i];
+      const key = pairKey(target);
+      if (result.status === "fulfilled") {
+        this.pairs.delete(key);
+        for (const { obligationId, portfolio, markets } of result.value) {
+          events.push(
+            ...this.evaluate(target, obligationId, portfolio, markets),
+          );
+        }
+        return;
+      }
+
+      const consecutiveFailures =
+        (this.pairs.get(key)?.consecutiveFailures ?? 0) + 1;
+      const retryInMs = Math.min(
+        this.intervalMs * Math.pow(2, consecutiveFailures),
+        this.maxBackoffMs,
+      );
+      this.pairs.set(key, {
+        consecutiveFailures,
+        nextPollAt: now + retryInMs,
+      });
+      events.push({
+        type: "error",
+        protocol: target.protocol,
+        address: target.address,
+        timestamp: now,
+        message: result.reason?.message || String(result.reason),
+        consecutiveFailures,
+        retryInMs,
+      });
+    });
+
+    for (const event of events) {
+      await this.emit(event);
+    }
+    return events;
+  }
+
+  /**
+   * Portfolios of every obligation a pair owns
+   */
+  private async fetchPair(
+    { protocol, address }: Target,
+    markets: Map<ProtocolId, Promise<MarketAsset[]>>,
+  ): Promise<
+    {
+      obligationId: string;
+      portfolio: AccountPortfolio;
+      markets: MarketAsset[];
+    }[]
+  > {
+    const adapter = await this.options.getProtocol(protocol);
+    if (!markets.has(protocol)) markets.set(protocol, adapter.getMarkets());
+
+    const obligations = await adapter.getObligations(address);
+    const [protocolMarkets, portfolios] = await Promise.all([
+      markets.get(protocol)!,
+      Promise.all(
+        obligations.map((o) => adapter.getAccountPortfolio(address, o.id)),
+      ),
+    ]);
+    return obligations.map((o, i) => ({
+      obligationId: o.id,
+      portfolio: portfolios[i],
+      markets: protocolMarkets,
+    }));
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (e) {
+        console.error("PositionMonitor poll failed", e);
+      }
+      if (this.running) this.schedule(this.intervalMs);
+    }, delayMs);
+  }
+
+  private healthLevel(healthFactor: number): HealthLevel {
+    if (healthFactor < this.thresholds.criticalHealthFactor) return "critical";
+    if (healthFactor < this.thresholds.warningHealthFactor) return "warning";
+    return "ok";
+  }
+
+  /**
+   * Compare a fresh portfolio with the remembered state
+   */
+  private evaluate(
+    { protocol, address }: Target,
+    obligationId: string,
+    portfolio: AccountPortfolio,
+    markets: MarketAsset[],
+  ): MonitorEvent[] {
+    const key = `${protocol}:${address}:${obligationId}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = {
+        level: "ok",
+        nearLiquidation: new Set(),
+        debtBaseline: new Map(),
+        initialized: false,
+      };
+      this.states.set(key, state);
+    }
+
+    const base = { protocol, address, obligationId, timestamp: Date.now() };
+    const events: MonitorEvent[] = [];
+
+    // Health factor level
+    const level = this.healthLevel(portfolio.healthFactor);
+    if (level !== state.level) {
+      events.push({
+        ...base,
+        type: "health-factor",
+        level,
+        previousLevel: state.level,
+        healthFactor: portfolio.healthFactor,
+        // Entering or leaving critical crosses the critical threshold,
+        // unless the factor jumped all the way back to ok
+        threshold:
+          level === "critical" ||
+          (level === "warning" && state.level === "critical")
+            ? this.thresholds.criticalHealthFactor
+            : this.thresholds.warningHealthFactor,
+      });
+      state.level = level;
+    }
+
+    // Liquidation price proximity, per asset over the whole portfolio.
+    // Only the distances are read, so any close factor will do.
+    const near = new Set<string>();
+    const stress = stressTestPortfolio(portfolio, [], {
+      markets,
+      closeFactor: DEFAULT_CLOSE_FACTORS[protocol] ?? 1,
+    });
+    for (const asset of stress.assets) {
+      if (
+        asset.price === undefined ||
+        asset.liquidationPrice === null ||
+        asset.distanceToLiquidation === null
+      ) {
+        continue;
+      }
+      const distance = Math.abs(asset.distanceToLiquidation);
+      if (distance > this.thresholds.liquidationDistance) continue;
+
+      near.add(asset.coinType);
+      if (state.nearLiquidation.has(asset.coinType)) continue;
+      events.push({
+        ...base,
+        type: "liquidation-proximity",
+        coinType: asset.coinType,
+        symbol: asset.symbol,
+        price: asset.price,
+        liquidationPrice: asset.liquidationPrice,
+        distance,
+      });
+    }
+    state.nearLiquidation = near;
+
+    // Net APY sign flip
+    const netApy = portfolio.netApy;
+    if (
+      netApy !== undefined &&
+      state.netApy !== undefined &&
+      Math.sign(netApy) !== Math.sign(state.netApy) &&
+      netApy !== 0 &&
+      state.netApy !== 0
+    ) {
+      events.push({
+        ...base,
+        type: "apy-flip",
+        previousNetApy: state.netApy,
+        netApy,
+      });
+    }
+    if (netApy !== undefined) state.netApy = netApy;
+
+    // Debt accrual (the first poll only records baselines)
+    const debts = new Map<string, number>();
+    for (const p of portfolio.positions) {
+      if (p.side !== "borrow") continue;
+      const coinType = normalizeCoinType(p.coinType);
+      debts.set(coinType, p.amount);
+
+      const previous = state.debtBaseline.get(coinType) ?? 0;
+      const grew = p.amount > previous * (1 + this.thresholds.debtIncrease);
+      if (state.initialized && grew) {
+        events.push({
+          ...base,
+          type: "debt-accrual",
+          coinType,
+          symbol: p.symbol,
+          previousAmount: previous,
+          amount: p.amount,
+          increaseUsd:
+            p.amount > 0 ? ((p.amount - previous) / p.amount) * p.valueUsd : 0,
+        });
+      }
+      if (!state.initialized || grew || p.amount < previous) {
+        state.debtBaseline.set(coinType, p.amount);
+      }
+    }
+    for (const coinType of state.debtBaseline.keys()) {
+      if (!debts.has(coinType)) state.debtBaseline.delete(coinType);
+    }
+    state.initialized = true;
+
+    return events;
+  }
+
+  private async emit(event: MonitorEvent): Promise<void> {
+    for (const listener of this.listeners.get(event.type) ?? []) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(`PositionMonitor ${event.type} listener failed`, e);
+      }
+    }
+
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.handle(event);
+        } catch (e) {
+          console.error(`PositionMonitor sink ${sink.name} failed`, e);
+        }
+      }),
+    );
+  }
+}
+
+function pairKey({ protocol, address }: Target): string {
+  return `${protocol}:${address}`;
+}
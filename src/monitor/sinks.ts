@@ -0,0 +1,106 @@
+/**
+ * DeFi Dash SDK - Monitor Sinks
+ *
+ * Built-in destinations for PositionMonitor events
+ */
+
+import { MonitorEvent, MonitorSink } from "./interface";
+
+/**
+ * One-line, human-readable description of an event
+ */
+export function formatMonitorEvent(event: MonitorEvent): string {
+  const where = `[${event.protocol}] ${event.address.slice(0, 10)}…`;
+
+  switch (event.type) {
+    case "health-factor":
+      return (
+        `${where} health factor ${event.healthFactor.toFixed(3)} ` +
+        `is ${event.level} (threshold ${event.threshold}, was ${event.previousLevel})`
+      );
+    case "liquidation-proximity":
+      return (
+        `${where} ${event.symbol} at $${event.price.toPrecision(6)} is ` +
+        `${(event.distance * 100).toFixed(1)}% above its liquidation price ` +
+        `$${event.liquidationPrice.toPrecision(6)}`
+      );
+    case "apy-flip":
+      return (
+        `${where} net APY flipped ${(event.previousNetApy * 100).toFixed(2)}% → ` +
+        `${(event.netApy * 100).toFixed(2)}%`
+      );
+    case "debt-accrual":
+      return (
+        `${where} ${event.symbol} debt ${event.previousAmount} → ${event.amount} ` +
+        `(+$${event.increaseUsd.toFixed(2)})`
+      );
+    case "error":
+      return (
+        `${where} poll failed (${event.consecutiveFailures}x): ${event.message}; ` +
+        `retrying in ${Math.round(event.retryInMs / 1000)}s`
+      );
+  }
+}
+
+/**
+ * Log events to the console (errors and critical levels to stderr)
+ */
+export class ConsoleSink implements MonitorSink {
+  readonly name = "console";
+
+  handle(event: MonitorEvent): void {
+    const message = formatMonitorEvent(event);
+    const isAlarm =
+      event.type === "error" ||
+      (event.type === "health-factor" && event.level === "critical");
+    if (isAlarm) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+}
+
+export interface WebhookSinkOptions {
+  url: string;
+  /** Extra request headers (e.g. authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * POST each event as JSON: `{ text, event }`
+ *
+ * `text` is the formatted message, so Slack/Discord-style incoming
+ * webhooks can display it directly.
+ */
+export class WebhookSink implements MonitorSink {
+  readonly name = "webhook";
+
+  constructor(private options: WebhookSinkOptions) {}
+
+  async handle(event: MonitorEvent): Promise<void> {
+    const res = await fetch(this.options.url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...this.options.headers },
+      body: JSON.stringify({ text: formatMonitorEvent(event), event }),
+    });
+    if (!res.ok) {
+      throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+    }
+  }
+}
+
+/**
+ * Append each event to a file as one JSON line (Node.js only)
+ */
+export class FileSink implements MonitorSink {
+  readonly name = "file";
+
+  constructor(private path: string) {}
+
+  async handle(event: MonitorEvent): Promise<void> {
+    // Loaded on use so browser bundles do not need fs
+    const { appendFile } = await import("fs/promises");
+    await appendFile(this.path, JSON.stringify(event) + "\n");
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * DeFi Dash SDK - Cached Price Source
+ *
+ * Wraps a price source with a TTL cache, batches concurrent lookups into
+ * one request and drops prices older than a maximum age
+ */
+
+import { IPriceSource, PriceQuote } from "./interface";
+import { normalizeCoinType } from "../lib/utils";
+
+/** Default time a fetched price is reused (30s) */
+export const DEFAULT_PRICE_TTL_MS = 30_000;
+
+export interface CachedPriceSourceOptions {
+  /** How long a fetched price is reused (default 30s) */
+  ttlMs?: number;
+  /** Reject prices published longer ago than this (default: no check) */
+  maxAgeMs?: number;
+  /** Asked for coins the source does not price or only has stale prices for */
+  fallback?: IPriceSource;
+}
+
+/**
+ * Reported when the only price available for a coin is older than maxAgeMs
+ */
+export class StalePriceError extends Error {
+  constructor(
+    readonly coinType: string,
+    readonly ageMs: number,
+    readonly maxAgeMs: number,
+    readonly source: string,
+  ) {
+    super(
+      `Stale ${source} price for ${coinType}: ` +
+        `${Math.round(ageMs / 1000)}s old (max ${Math.round(maxAgeMs / 1000)}s)`,
+    );
+    this.name = "StalePriceError";
+  }
+}
+
+/**
+ * Fresh quotes plus the coins whose only price was stale
+ */
+export interface PriceLookupResult {
+  quotes: Record<string, PriceQuote>;
+  stale: Record<string, StalePriceError>;
+}
+
+type LoadResult = PriceQuote | StalePriceError | null;
+
+interface PendingLookup {
+  coinType: string;
+  resolve: (result: LoadResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Price source with caching, request batching and a staleness check
+ *
+ * Stale coins are left out of getPrices() like unpriced ones, so one old
+ * feed never fails the rest of the batch; getPricesWithStale() says which.
+ *
+ * @example
+ * ```typescript
+ * const prices = new CachedPriceSource(new SevenKPriceSource(), {
+ *   ttlMs: 10_000,
+ *   maxAgeMs: 60_000,
+ *   fallback: new NaviFeedPriceSource(),
+ * });
+ * ```
+ */
+export class CachedPriceSource implements IPriceSource {
+  readonly name: string;
+  private ttlMs: number;
+  private maxAgeMs?: number;
+  private fallback?: IPriceSource;
+  private cache = new Map<
+    string,
+    { quote: PriceQuote | null; fetchedAt: number }
+  >();
+  private pending = new Map<string, Promise<LoadResult>>();
+  private batch: PendingLookup[] = [];
+
+  constructor(
+    private source: IPriceSource,
+    options: CachedPriceSourceOptions = {},
+  ) {
+    this.name = source.name;
+    this.ttlMs = options.ttlMs ?? DEFAULT_PRICE_TTL_MS;
+    this.maxAgeMs = options.maxAgeMs;
+    this.fallback = options.fallback;
+  }
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    return (await this.getPricesWithStale(coinTypes)).quotes;
+  }
+
+  /**
+   * Like getPrices, but also reports each coin dropped as stale
+   */
+  async getPricesWithStale(coinTypes: string[]): Promise<PriceLookupResult> {
+    const normalized = [...new Set(coinTypes.map(normalizeCoinType))];
+    const results = await Promise.all(normalized.map((ct) => this.load(ct)));
+
+    const lookup: PriceLookupResult = { quotes: {}, stale: {} };
+    results.forEach((result, i) => {
+      if (result instanceof StalePriceError) {
+        lookup.stale[normalized[i]] = result;
+      } else if (result) {
+        lookup.quotes[normalized[i]] = result;
+      }
+    });
+    return lookup;
+  }
+
+  /**
+   * Drop cached prices (all, or only the given coins)
+   */
+  invalidate(coinTypes?: string[]): void {
+    if (!coinTypes) {
+      this.cache.clear();
+      return;
+    }
+    for (const coinType of coinTypes) {
+      this.cache.delete(normalizeCoinType(coinType));
+    }
+  }
+
+  private load(coinType: string): Promise<LoadResult> {
+    const cached = this.cache.get(coinType);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return Promise.resolve(cached.quote);
+    }
+
+    const pending = this.pending.get(coinType);
+    if (pending) return pending;
+
+    // Lookups issued in the same tick share one request
+    const lookup = new Promise<LoadResult>((resolve, reject) => {
+      this.batch.push({ coinType, resolve, reject });
+    });
+    this.pending.set(coinType, lookup);
+    if (this.batch.length === 1) {
+      Promise.resolve().then(() => this.flush());
+    }
+    return lookup;
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.batch;
+    this.batch = [];
+
+    try {
+      const { quotes, errors } = await this.fetch(
+        batch.map((b) => b.coinType),
+      );
+      const fetchedAt = Date.now();
+      for (const { coinType, resolve, reject } of batch) {
+        this.pending.delete(coinType);
+        // Stale prices are not cached, so the next lookup tries again
+        const stale = errors.get(coinType);
+        if (stale) {
+          resolve(stale);
+          continue;
+        }
+        const quote = quotes[coinType] ?? null;
+        this.cache.set(coinType, { quote, fetchedAt });
+        resolve(quote);
+      }
+    } catch (error: any) {
+      for (const { coinType, reject } of batch) {
+        this.pending.delete(coinType);
+        reject(error);
+      }
+    }
+  }
+
+  private async fetch(coinTypes: string[]): Promise<{
+    quotes: Record<string, PriceQuote>;
+    errors: Map<string, StalePriceError>;
+  }> {
+    const quotes: Record<string, PriceQuote> = {};
+    const errors = new Map<string, StalePriceError>();
+
+    const accept = (fetched: Record<string, PriceQuote>, coinType: string) => {
+      const quote = fetched[coinType];
+      if (!quote) return false;
+      const stale = this.checkStaleness(quote);
+      if (stale) {
+        errors.set(coinType, stale);
+        return false;
+      }
+      quotes[coinType] = quote;
+      errors.delete(coinType);
+      return true;
+    };
+
+    const primary = await this.source.getPrices(coinTypes);
+    const missing = coinTypes.filter((ct) => !accept(primary, ct));
+
+    if (missing.length > 0 && this.fallback) {
+      const fallback = await this.fallback.getPrices(missing);
+      missing.forEach((ct) => accept(fallback, ct));
+    }
+
+    return { quotes, errors };
+  }
+
+  private checkStaleness(quote: PriceQuote): StalePriceError | undefined {
+    if (this.maxAgeMs === undefined || quote.publishTimeMs === undefined) {
+      return undefined;
+    }
+    const ageMs = Date.now() - quote.publishTimeMs;
+    if (ageMs <= this.maxAgeMs) return undefined;
+    return new StalePriceError(
+      quote.coinType,
+      ageMs,
+      this.maxAgeMs,
+      quote.source,
+    );
+  }
+}
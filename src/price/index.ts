@@ -0,0 +1,43 @@
+/**
+ * DeFi Dash SDK - Price Source Exports
+ */
+
+import { IPriceSource } from "./interface";
+import { CachedPriceSource } from "./cache";
+import { SevenKPriceSource } from "./seven-k";
+import { normalizeCoinType } from "../lib/utils";
+
+export { IPriceSource, PriceQuote } from "./interface";
+export { SevenKPriceSource } from "./seven-k";
+export {
+  PythPriceSource,
+  PythPriceSourceOptions,
+  DEFAULT_HERMES_ENDPOINT,
+} from "./pyth";
+export { SuilendReservePriceSource } from "./suilend";
+export { NaviFeedPriceSource } from "./navi";
+export {
+  CachedPriceSource,
+  CachedPriceSourceOptions,
+  StalePriceError,
+  PriceLookupResult,
+  DEFAULT_PRICE_TTL_MS,
+} from "./cache";
+
+/**
+ * Shared 7k source with a 30s cache, used when no source is passed in
+ */
+export const defaultPriceSource: IPriceSource = new CachedPriceSource(
+  new SevenKPriceSource(),
+);
+
+/**
+ * USD price of one coin (0 when the source cannot price it)
+ */
+export async function getPrice(
+  source: IPriceSource,
+  coinType: string,
+): Promise<number> {
+  const quotes = await source.getPrices([coinType]);
+  return quotes[normalizeCoinType(coinType)]?.price ?? 0;
+}
@@ -0,0 +1,34 @@
+/**
+ * DeFi Dash SDK - Price Source Interface
+ *
+ * Abstract interface for USD price feeds (7k, Pyth, protocol oracles)
+ */
+
+/**
+ * USD price of one whole token
+ */
+export interface PriceQuote {
+  /** Normalized coin type */
+  coinType: string;
+  /** USD per whole token */
+  price: number;
+  /** When the price was published (ms), if the source reports it */
+  publishTimeMs?: number;
+  /** Name of the source that produced the price */
+  source: string;
+}
+
+/**
+ * Common interface for all price sources
+ */
+export interface IPriceSource {
+  /** Source name identifier */
+  readonly name: string;
+
+  /**
+   * Fetch prices for many coins in one request
+   * @param coinTypes - Full coin types (any format)
+   * @returns Quotes keyed by normalized coin type; unknown coins are omitted
+   */
+  getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>>;
+}
@@ -0,0 +1,39 @@
+/**
+ * DeFi Dash SDK - Navi Oracle Price Source
+ *
+ * Prices from Navi's oracle feeds, as reported on each lending pool
+ */
+
+import { getPools } from "@naviprotocol/lending";
+import { IPriceSource, PriceQuote } from "./interface";
+import { normalizeCoinType } from "../lib/utils";
+
+export class NaviFeedPriceSource implements IPriceSource {
+  readonly name = "navi";
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    const wanted = new Set(coinTypes.map(normalizeCoinType));
+    if (wanted.size === 0) return {};
+
+    const poolsResult = await getPools({ env: "prod" });
+    const pools = Array.isArray(poolsResult)
+      ? poolsResult
+      : Object.values(poolsResult);
+
+    const quotes: Record<string, PriceQuote> = {};
+    for (const pool of pools as any[]) {
+      const coinType = normalizeCoinType(
+        pool.coinType ?? pool.suiCoinType ?? "",
+      );
+      if (!wanted.has(coinType)) continue;
+
+      // Navi flags feeds it would reject on-chain
+      if (pool.oracle?.valid === false) continue;
+      const price = parseFloat(pool.oracle?.price ?? "");
+      if (!(price > 0)) continue;
+
+      quotes[coinType] = { coinType, price, source: this.name };
+    }
+    return quotes;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * DeFi Dash SDK - Pyth Price Source
+ *
+ * Latest Pyth prices from a Hermes endpoint, one request per batch
+ */
+
+import { IPriceSource, PriceQuote } from "./interface";
+import { normalizeCoinType } from "../lib/utils";
+
+export const DEFAULT_HERMES_ENDPOINT = "https://hermes.pyth.network";
+
+export interface PythPriceSourceOptions {
+  /** Pyth price feed id (hex) per coin type */
+  feeds: Record<string, string>;
+  /** Hermes base URL */
+  endpoint?: string;
+}
+
+export class PythPriceSource implements IPriceSource {
+  readonly name = "pyth";
+  private feeds: Record<string, string> = {};
+  private endpoint: string;
+
+  constructor(options: PythPriceSourceOptions) {
+    for (const [coinType, feedId] of Object.entries(options.feeds)) {
+      this.feeds[normalizeCoinType(coinType)] = stripHexPrefix(feedId);
+    }
+    this.endpoint = (options.endpoint ?? DEFAULT_HERMES_ENDPOINT).replace(
+      /\/$/,
+      "",
+    );
+  }
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    const coinTypesByFeed = new Map<string, string>();
+    for (const coinType of coinTypes.map(normalizeCoinType)) {
+      const feedId = this.feeds[coinType];
+      if (feedId) coinTypesByFeed.set(feedId, coinType);
+    }
+    if (coinTypesByFeed.size === 0) return {};
+
+    const query = [...coinTypesByFeed.keys()]
+      .map((id) => `ids[]=${id}`)
+      .join("&");
+    const res = await fetch(
+      `${this.endpoint}/v2/updates/price/latest?${query}&parsed=true`,
+    );
+    if (!res.ok) {
+      throw new Error(`Pyth Hermes request failed: ${res.status}`);
+    }
+    const body = (await res.json()) as {
+      parsed?: {
+        id: string;
+        price: { price: string; expo: number; publish_time: number };
+      }[];
+    };
+
+    const quotes: Record<string, PriceQuote> = {};
+    for (const feed of body.parsed ?? []) {
+      const coinType = coinTypesByFeed.get(stripHexPrefix(feed.id));
+      if (!coinType) continue;
+      quotes[coinType] = {
+        coinType,
+        price: Number(feed.price.price) * Math.pow(10, feed.price.expo),
+        publishTimeMs: feed.price.publish_time * 1000,
+        source: this.name,
+      };
+    }
+    return quotes;
+  }
+}
+
+function stripHexPrefix(id: string): string {
+  return id.toLowerCase().replace(/^0x/, "");
+}
@@ -0,0 +1,29 @@
+/**
+ * DeFi Dash SDK - 7k Price Source
+ *
+ * Aggregated market prices from the 7k price API
+ */
+
+import { getTokenPrices } from "@7kprotocol/sdk-ts";
+import { IPriceSource, PriceQuote } from "./interface";
+import { normalizeCoinType } from "../lib/utils";
+
+export class SevenKPriceSource implements IPriceSource {
+  readonly name = "7k";
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    const normalized = [...new Set(coinTypes.map(normalizeCoinType))];
+    if (normalized.length === 0) return {};
+
+    const prices = await getTokenPrices(normalized);
+
+    const quotes: Record<string, PriceQuote> = {};
+    for (const [id, price] of Object.entries(prices)) {
+      // 7k returns 0 for coins it cannot price
+      if (!(price > 0)) continue;
+      const coinType = normalizeCoinType(id);
+      quotes[coinType] = { coinType, price, source: this.name };
+    }
+    return quotes;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * DeFi Dash SDK - Suilend Reserve Price Source
+ *
+ * Prices stored on Suilend reserves: the oracle values Suilend itself uses
+ * for borrow limits and liquidations
+ */
+
+import { Reserve } from "@suilend/sdk/_generated/suilend/reserve/structs";
+import { IPriceSource, PriceQuote } from "./interface";
+import { normalizeCoinType } from "../lib/utils";
+
+export class SuilendReservePriceSource implements IPriceSource {
+  readonly name = "suilend";
+
+  /**
+   * @param getReserves - Current reserves (e.g. the lending market's)
+   */
+  constructor(private getReserves: () => Reserve<string>[]) {}
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    const wanted = new Set(coinTypes.map(normalizeCoinType));
+    const quotes: Record<string, PriceQuote> = {};
+
+    for (const reserve of this.getReserves()) {
+      const coinType = normalizeCoinType(reserve.coinType.name);
+      if (!wanted.has(coinType)) continue;
+      quotes[coinType] = {
+        coinType,
+        // Decimal, WAD-scaled
+        price: Number(BigInt(reserve.price.value)) / 1e18,
+        publishTimeMs: Number(reserve.priceLastUpdateTimestampS) * 1000,
+        source: this.name,
+      };
+    }
+    return quotes;
+  }
+
+  /**
+   * Pyth feed id per coin type, for a PythPriceSource that tracks the
+   * same feeds with fresher prices
+   */
+  getPythFeeds(): Record<string, string> {
+    const feeds: Record<string, string> = {};
+    for (const reserve of this.getReserves()) {
+      feeds[normalizeCoinType(reserve.coinType.name)] = Buffer.from(
+        reserve.priceIdentifier.bytes,
+      ).toString("hex");
+    }
+    return feeds;
+  }
+}
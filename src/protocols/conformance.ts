@@ -0,0 +1,279 @@
+/**
+ * DeFi Dash SDK - Adapter Conformance Checks
+ *
+ * Validates that an adapter reports amounts and rates in the SDK's units
+ * (see lib/utils/units): raw integers with their decimals, an explicit
+ * underlying/share tag, fractions for LTVs and decimal APYs for rates.
+ */
+
+import { ILendingProtocol } from "./interface";
+import {
+  AccountPortfolio,
+  AssetPosition,
+  MarketAsset,
+  Position,
+  PositionInfo,
+} from "../types";
+import { normalizeCoinType, toHumanAmount } from "../lib/utils";
+
+/**
+ * A value reported in the wrong unit or shape
+ */
+export interface ConformanceIssue {
+  /** Where the value came from, e.g. "markets[3].supplyApy" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Rates above this are almost certainly percentages, not decimals
+ */
+const MAX_DECIMAL_RATE = 10;
+
+const AMOUNT_KINDS = ["underlying", "share"];
+
+class IssueCollector {
+  readonly issues: ConformanceIssue[] = [];
+
+  check(ok: boolean, path: string, message: string): void {
+    if (!ok) this.issues.push({ path, message });
+  }
+
+  decimals(value: number, path: string): void {
+    this.check(
+      Number.isInteger(value) && value >= 0 && value <= 36,
+      path,
+      `decimals must be an integer in [0, 36], got ${value}`,
+    );
+  }
+
+  rate(value: number | undefined, path: string): void {
+    if (value === undefined) return;
+    this.check(
+      Number.isFinite(value) && Math.abs(value) <= MAX_DECIMAL_RATE,
+      path,
+      `rate must be a decimal APY (0.05 = 5%), got ${value}`,
+    );
+  }
+
+  fraction(value: number | undefined, path: string): void {
+    if (value === undefined) return;
+    this.check(
+      Number.isFinite(value) && value >= 0 && value <= 1,
+      path,
+      `must be a fraction in [0, 1], got ${value}`,
+    );
+  }
+
+  usd(value: number | undefined, path: string): void {
+    if (value === undefined) return;
+    this.check(
+      Number.isFinite(value) && value >= 0,
+      path,
+      `USD value must be finite and non-negative, got ${value}`,
+    );
+  }
+
+  coinType(value: string, path: string): void {
+    this.check(
+      value === normalizeCoinType(value),
+      path,
+      `coin type must be normalized, got ${value}`,
+    );
+  }
+
+  amountKind(value: string, path: string): void {
+    this.check(
+      AMOUNT_KINDS.includes(value),
+      path,
+      `amountKind must be "underlying" or "share", got ${value}`,
+    );
+  }
+}
+
+/**
+ * Check market data from getMarkets()
+ */
+export function checkMarketAssets(
+  markets: MarketAsset[],
+): ConformanceIssue[] {
+  const c = new IssueCollector();
+
+  markets.forEach((m, i) => {
+    const path = `markets[${i}]`;
+    c.check(
+      !!m.symbol && m.symbol !== "UNKNOWN",
+      `${path}.symbol`,
+      `symbol must be resolved, got ${m.symbol}`,
+    );
+    c.coinType(m.coinType, `${path}.coinType`);
+    c.decimals(m.decimals, `${path}.decimals`);
+    c.usd(m.price, `${path}.price`);
+
+    for (const key of [
+      "supplyApy",
+      "borrowApy",
+      "supplyBaseApy",
+      "supplyRewardApy",
+      "borrowBaseApy",
+      "borrowRewardApy",
+    ] as const) {
+      c.rate(m[key], `${path}.${key}`);
+    }
+
+    c.fraction(m.maxLtv, `${path}.maxLtv`);
+    c.fraction(m.liquidationThreshold, `${path}.liquidationThreshold`);
+    c.fraction(m.utilization, `${path}.utilization`);
+    c.fraction(m.liquidationBonus, `${path}.liquidationBonus`);
+    c.check(
+      m.maxLtv <= m.liquidationThreshold,
+      `${path}.maxLtv`,
+      `maxLtv ${m.maxLtv} exceeds liquidationThreshold ` +
+        `${m.liquidationThreshold}`,
+    );
+    if (m.borrowWeight !== undefined) {
+      c.check(
+        m.borrowWeight >= 1,
+        `${path}.borrowWeight`,
+        `borrowWeight must be >= 1, got ${m.borrowWeight}`,
+      );
+    }
+    c.check(
+      m.totalSupply >= 0 && m.totalBorrow >= 0 && m.availableLiquidity >= 0,
+      path,
+      "supply, borrow and liquidity must be non-negative token amounts",
+    );
+  });
+
+  return c.issues;
+}
+
+/**
+ * Check a PositionInfo from getPosition()
+ */
+export function checkPositionInfo(position: PositionInfo): ConformanceIssue[] {
+  const c = new IssueCollector();
+
+  const checkAsset = (a: AssetPosition, path: string, side: string) => {
+    c.check(
+      typeof a.amount === "bigint" && a.amount >= 0n,
+      `${path}.amount`,
+      `amount must be a non-negative raw bigint, got ${a.amount}`,
+    );
+    c.amountKind(a.amountKind, `${path}.amountKind`);
+    c.check(
+      side === "supply" || a.amountKind === "underlying",
+      `${path}.amountKind`,
+      "debt must be reported in the underlying token",
+    );
+    c.coinType(a.coinType, `${path}.coinType`);
+    c.decimals(a.decimals, `${path}.decimals`);
+    c.usd(a.valueUsd, `${path}.valueUsd`);
+
+    // LTVs on AssetPosition are percentages
+    for (const key of ["openLtvPct", "closeLtvPct"] as const) {
+      const value = a[key];
+      if (value === undefined) continue;
+      c.check(
+        value >= 0 && value <= 100,
+        `${path}.${key}`,
+        `must be a percentage in [0, 100], got ${value}`,
+      );
+    }
+    if (a.borrowWeight !== undefined) {
+      c.check(
+        a.borrowWeight >= 1,
+        `${path}.borrowWeight`,
+        `borrowWeight must be >= 1, got ${a.borrowWeight}`,
+      );
+    }
+  };
+
+  position.collaterals.forEach((a, i) =>
+    checkAsset(a, `collaterals[${i}]`, "supply"),
+  );
+  position.debts.forEach((a, i) => checkAsset(a, `debts[${i}]`, "borrow"));
+
+  return c.issues;
+}
+
+/**
+ * Check a portfolio from getAccountPortfolio()
+ */
+export function checkAccountPortfolio(
+  portfolio: AccountPortfolio,
+): ConformanceIssue[] {
+  const c = new IssueCollector();
+
+  c.check(
+    portfolio.healthFactor >= 0,
+    "healthFactor",
+    `healthFactor must be non-negative, got ${portfolio.healthFactor}`,
+  );
+  c.usd(portfolio.totalCollateralUsd, "totalCollateralUsd");
+  c.usd(portfolio.totalDebtUsd, "totalDebtUsd");
+  c.rate(portfolio.netApy, "netApy");
+
+  portfolio.positions.forEach((p: Position, i) => {
+    const path = `positions[${i}]`;
+    c.coinType(p.coinType, `${path}.coinType`);
+    c.decimals(p.decimals, `${path}.decimals`);
+    c.amountKind(p.amountKind, `${path}.amountKind`);
+    c.check(
+      /^\d+$/.test(p.amountRaw),
+      `${path}.amountRaw`,
+      `amountRaw must be a non-negative integer string, got ${p.amountRaw}`,
+    );
+    if (/^\d+$/.test(p.amountRaw) && p.amount > 0) {
+      const expected = toHumanAmount(p.amountRaw, p.decimals);
+      c.check(
+        Math.abs(expected - p.amount) <=
+          Math.max(p.amount * 1e-6, Math.pow(10, -p.decimals)),
+        `${path}.amount`,
+        `amount ${p.amount} does not match amountRaw/10^decimals ` +
+          `(${expected})`,
+      );
+    }
+    c.usd(p.valueUsd, `${path}.valueUsd`);
+    c.rate(p.apy, `${path}.apy`);
+    c.rate(p.rewardsApy, `${path}.rewardsApy`);
+  });
+
+  return c.issues;
+}
+
+/**
+ * Run every check against a live adapter
+ *
+ * Markets are always checked; the position and portfolio only when a
+ * user address is given.
+ *
+ * @example
+ * ```typescript
+ * const issues = await checkAdapterConformance(adapter, address);
+ * if (issues.length) console.table(issues);
+ * ```
+ */
+export async function checkAdapterConformance(
+  adapter: ILendingProtocol,
+  userAddress?: string,
+  obligationId?: string,
+): Promise<ConformanceIssue[]> {
+  const issues = checkMarketAssets(await adapter.getMarkets());
+
+  if (userAddress) {
+    const position = await adapter.getPosition(userAddress, obligationId);
+    if (position) issues.push(...checkPositionInfo(position));
+
+    const portfolio = await adapter.getAccountPortfolio(
+      userAddress,
+      obligationId,
+    );
+    issues.push(...checkAccountPortfolio(portfolio));
+  }
+
+  return issues.map((issue) => ({
+    ...issue,
+    path: `${adapter.name}.${issue.path}`,
+  }));
+}
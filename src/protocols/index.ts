@@ -2,6 +2,22 @@
  * DeFi Dash SDK - Protocol Exports
  */
 
-export { ILendingProtocol, ReserveInfo } from "./interface";
+export {
+  ILendingProtocol,
+  ReserveInfo,
+  ObligationInfo,
+  PendingObligation,
+  ObligationRef,
+  isPendingObligation,
+} from "./interface";
 export { SuilendAdapter } from "./suilend";
 export { NaviAdapter } from "./navi";
+export { ScallopAdapter } from "./scallop";
+export { ProtocolRegistry, LendingProtocolFactory } from "./registry";
+export {
+  checkAdapterConformance,
+  checkMarketAssets,
+  checkPositionInfo,
+  checkAccountPortfolio,
+  ConformanceIssue,
+} from "./conformance";
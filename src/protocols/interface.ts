@@ -7,6 +7,7 @@
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
 import { PositionInfo, MarketAsset, AccountPortfolio } from "../types";
+import { IPriceSource } from "../price/interface";
 
 /**
  * Common interface for all lending protocol adapters
@@ -31,15 +32,59 @@ export interface ILendingProtocol {
   /**
    * Get current lending position for a user
    * @param userAddress - Sui address of the user
+   * @param obligationId - Obligation/account to read (default if omitted)
    * @returns Position info or null if no position exists
    */
-  getPosition(userAddress: string): Promise<PositionInfo | null>;
+  getPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<PositionInfo | null>;
 
   /**
    * Check if user has an existing obligation/position
    * @param userAddress - Sui address of the user
+   * @param obligationId - Obligation/account to check (default if omitted)
+   */
+  hasPosition(userAddress: string, obligationId?: string): Promise<boolean>;
+
+  /**
+   * List every obligation/account the user owns on this protocol
+   * @param userAddress - Sui address of the user
+   */
+  getObligations(userAddress: string): Promise<ObligationInfo[]>;
+
+  /**
+   * Create a fresh obligation/account and transfer its cap to the user
+   * @param tx - Transaction to add the creation command to
+   * @param userAddress - User's address (receives the cap)
    */
-  hasPosition(userAddress: string): Promise<boolean>;
+  createObligation(tx: Transaction, userAddress: string): Promise<void>;
+
+  /**
+   * Open a fresh obligation/account that later calls in the same PTB can use
+   *
+   * Pass the result as obligationId to deposit/borrow/repay/refreshOracles,
+   * then call closeObligation once the PTB is done with it.
+   * @param tx - Transaction to add the creation command to
+   * @param userAddress - User's address
+   */
+  openObligation(
+    tx: Transaction,
+    userAddress: string,
+  ): Promise<PendingObligation>;
+
+  /**
+   * Finish an obligation opened with openObligation (transfer its cap to the
+   * user)
+   * @param tx - Transaction the obligation was opened in
+   * @param obligation - Handle returned by openObligation
+   * @param userAddress - User's address (receives the cap)
+   */
+  closeObligation(
+    tx: Transaction,
+    obligation: PendingObligation,
+    userAddress: string,
+  ): Promise<void>;
 
   /**
    * Deposit collateral into the lending protocol
@@ -47,20 +92,23 @@ export interface ILendingProtocol {
    * @param coin - Coin object to deposit
    * @param coinType - Full coin type string
    * @param userAddress - User's address (for obligation lookup)
+   * @param obligationId - Obligation/account to act on (default if omitted)
    */
   deposit(
     tx: Transaction,
     coin: any,
     coinType: string,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void>;
 
   /**
    * Withdraw collateral from the lending protocol
    * @param tx - Transaction to add withdraw command to
    * @param coinType - Full coin type string
-   * @param amount - Amount to withdraw (raw units as string)
+   * @param amount - Underlying amount to withdraw (raw units as string)
    * @param userAddress - User's address
+   * @param obligationId - Obligation/account to act on (default if omitted)
    * @returns Withdrawn coin object
    */
   withdraw(
@@ -68,6 +116,7 @@ export interface ILendingProtocol {
     coinType: string,
     amount: string,
     userAddress: string,
+    obligationId?: string,
   ): Promise<any>;
 
   /**
@@ -77,6 +126,7 @@ export interface ILendingProtocol {
    * @param amount - Amount to borrow (raw units as string)
    * @param userAddress - User's address
    * @param skipOracle - Skip oracle refresh (if already done)
+   * @param obligationId - Obligation/account to act on (default if omitted)
    * @returns Borrowed coin object
    */
   borrow(
@@ -85,6 +135,7 @@ export interface ILendingProtocol {
     amount: string,
     userAddress: string,
     skipOracle?: boolean,
+    obligationId?: ObligationRef,
   ): Promise<any>;
 
   /**
@@ -93,12 +144,14 @@ export interface ILendingProtocol {
    * @param coinType - Full coin type string
    * @param coin - Coin object to use for repayment
    * @param userAddress - User's address
+   * @param obligationId - Obligation/account to act on (default if omitted)
    */
   repay(
     tx: Transaction,
     coinType: string,
     coin: any,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void>;
 
   /**
@@ -107,11 +160,13 @@ export interface ILendingProtocol {
    * @param tx - Transaction to add refresh commands to
    * @param coinTypes - Coin types to refresh oracles for
    * @param userAddress - User's address (for obligation lookup)
+   * @param obligationId - Obligation/account to act on (default if omitted)
    */
   refreshOracles(
     tx: Transaction,
     coinTypes: string[],
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void>;
 
   /**
@@ -129,22 +184,83 @@ export interface ILendingProtocol {
   /**
    * Fetch aggregated account portfolio
    * @param address - User address
+   * @param obligationId - Obligation/account to read (default if omitted)
    */
-  getAccountPortfolio(address: string): Promise<AccountPortfolio>;
+  getAccountPortfolio(
+    address: string,
+    obligationId?: string,
+  ): Promise<AccountPortfolio>;
 
   /**
    * Calculate max borrowable amount for an asset
    * @param address - User address
    * @param coinType - Coin type using full address
+   * @param obligationId - Obligation/account to read (default if omitted)
    */
-  getMaxBorrowableAmount(address: string, coinType: string): Promise<string>;
+  getMaxBorrowableAmount(
+    address: string,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string>;
 
   /**
    * Calculate max withdrawable amount for an asset
    * @param address - User address
    * @param coinType - Coin type using full address
+   * @param obligationId - Obligation/account to read (default if omitted)
    */
-  getMaxWithdrawableAmount(address: string, coinType: string): Promise<string>;
+  getMaxWithdrawableAmount(
+    address: string,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string>;
+
+  /**
+   * Prices from the protocol's own oracle (what its health checks use)
+   */
+  getOraclePriceSource?(): IPriceSource;
+
+  /**
+   * Price source for the USD values getPosition() and getAccountPortfolio()
+   * report; undefined restores the protocol's own oracle prices. Health
+   * factors, borrow limits and liquidation thresholds always use the oracle.
+   */
+  setPriceSource?(source: IPriceSource | undefined): void;
+}
+
+/**
+ * Obligation/account opened earlier in the same PTB (see openObligation)
+ */
+export interface PendingObligation {
+  /** Adapter that opened it */
+  readonly protocol: string;
+  /** PTB results the adapter needs (cap, account cap, ...) */
+  readonly handles: Record<string, any>;
+}
+
+/**
+ * Existing obligation/account id, or one opened in the same PTB
+ */
+export type ObligationRef = string | PendingObligation;
+
+export function isPendingObligation(
+  obligation: ObligationRef | undefined,
+): obligation is PendingObligation {
+  return typeof obligation === "object" && obligation !== null;
+}
+
+/**
+ * Obligation (Suilend) or account (Navi) owned by a user
+ */
+export interface ObligationInfo {
+  /** Identifier accepted as obligationId by adapter methods */
+  id: string;
+
+  /** Owner cap object (Suilend ObligationOwnerCap / Navi AccountCap) */
+  capId?: string;
+
+  /** True for the obligation used when no obligationId is given */
+  isDefault: boolean;
 }
 
 /**
@@ -169,6 +285,12 @@ export interface ReserveInfo {
   /** Close LTV (liquidation threshold) percentage */
   closeLtvPct?: number;
 
+  /** Borrow weight multiplier applied to debt (1 = face value) */
+  borrowWeight?: number;
+
+  /** Protocol oracle price in USD */
+  price?: number;
+
   /** Current deposit APY */
   depositApy?: number;
 
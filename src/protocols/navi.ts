@@ -6,6 +6,7 @@
 
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
 import {
   depositCoinPTB,
   withdrawCoinPTB,
@@ -16,25 +17,46 @@ import {
   updateOraclePricesPTB,
   getPriceFeeds,
   getHealthFactor,
+  createAccountCapPTB,
   normalizeCoinType as naviNormalize,
 } from "@naviprotocol/lending";
-import { ILendingProtocol, ReserveInfo } from "./interface";
+import {
+  ILendingProtocol,
+  ReserveInfo,
+  ObligationInfo,
+  ObligationRef,
+  PendingObligation,
+  isPendingObligation,
+} from "./interface";
 import {
   PositionInfo,
   AssetPosition,
-  USDC_COIN_TYPE,
   MarketAsset,
   AccountPortfolio,
   LendingProtocol,
   Position,
 } from "../types";
-import { normalizeCoinType } from "../lib/utils";
+import {
+  normalizeCoinType,
+  buildPositionInfo,
+  rescaleRaw,
+  toApy,
+  toHumanAmount,
+} from "../lib/utils";
 import { getReserveByCoinType } from "../lib/suilend/const";
-import { getTokenPrice } from "@7kprotocol/sdk-ts";
+import { IPriceSource, NaviFeedPriceSource, PriceQuote } from "../price";
 
-// Navi SDK returns balances with 9 decimal precision internally
+// Navi lending state balances use 9 decimals for every asset; they are
+// rescaled to the token's own decimals before leaving the adapter
 const NAVI_BALANCE_DECIMALS = 9;
 
+/**
+ * Navi quotes APYs in percent (3.161 = 3.161%); convert to a decimal APY
+ */
+function parseNaviApy(raw: any): number {
+  return toApy(parseFloat(raw ?? "0") / 100, "apy");
+}
+
 /**
  * Navi lending protocol adapter
  */
@@ -45,15 +67,13 @@ export class NaviAdapter implements ILendingProtocol {
   private pools: any[] = [];
   private priceFeeds: any[] = [];
   private initialized = false;
+  private oracle = new NaviFeedPriceSource();
+  private priceSource?: IPriceSource;
 
   async initialize(suiClient: SuiClient): Promise<void> {
     this.suiClient = suiClient;
 
-    // Fetch pools
-    const poolsResult = await getPools({ env: "prod" });
-    this.pools = Array.isArray(poolsResult)
-      ? poolsResult
-      : Object.values(poolsResult);
+    await this.loadPools();
 
     // Fetch price feeds
     this.priceFeeds = await getPriceFeeds({ env: "prod" });
@@ -61,12 +81,40 @@ export class NaviAdapter implements ILendingProtocol {
     this.initialized = true;
   }
 
+  getOraclePriceSource(): IPriceSource {
+    return this.oracle;
+  }
+
+  setPriceSource(source: IPriceSource | undefined): void {
+    this.priceSource = source;
+  }
+
   private ensureInitialized() {
     if (!this.initialized) {
       throw new Error("NaviAdapter not initialized. Call initialize() first.");
     }
   }
 
+  /**
+   * Fetch pool state (rates, totals, oracle prices)
+   * @param fresh - Bypass the Navi SDK's response cache
+   */
+  private async loadPools(fresh = false): Promise<void> {
+    const poolsResult = await getPools({ env: "prod", disableCache: fresh });
+    this.pools = Array.isArray(poolsResult)
+      ? poolsResult
+      : Object.values(poolsResult);
+  }
+
+  /**
+   * Borrow LTV of a pool: Navi's own LTV, or the liquidation threshold minus
+   * a 5% safety margin when the pool does not report one
+   */
+  private getPoolLtv(pool: any): number {
+    if (typeof pool?.ltvValue === "number") return pool.ltvValue;
+    return parseFloat(pool?.liquidationFactor?.threshold ?? "0.8") - 0.05;
+  }
+
   private getPool(coinType: string) {
     const normalized = normalizeCoinType(coinType);
     return this.pools.find((p) => {
@@ -75,6 +123,17 @@ export class NaviAdapter implements ILendingProtocol {
     });
   }
 
+  /**
+   * Token decimals of a pool (the API's token info, then known reserves)
+   */
+  private getPoolDecimals(pool: any): number {
+    if (typeof pool?.token?.decimals === "number") return pool.token.decimals;
+    const coinType = normalizeCoinType(
+      pool?.coinType ?? pool?.suiCoinType ?? "",
+    );
+    return getReserveByCoinType(coinType)?.decimals ?? NAVI_BALANCE_DECIMALS;
+  }
+
   private getPriceFeed(coinType: string) {
     const normalized = normalizeCoinType(coinType);
     return this.priceFeeds.find(
@@ -82,10 +141,65 @@ export class NaviAdapter implements ILendingProtocol {
     );
   }
 
-  async getPosition(userAddress: string): Promise<PositionInfo | null> {
+  /**
+   * Options selecting a Navi account: the wallet's default account when
+   * obligationId is omitted, otherwise the given (or just opened) AccountCap
+   */
+  private accountOptions(
+    userAddress: string,
+    obligationId?: ObligationRef,
+  ): { accountCap?: any } {
+    if (isPendingObligation(obligationId)) {
+      return { accountCap: obligationId.handles.accountCap };
+    }
+    if (!obligationId || this.isDefaultAccount(userAddress, obligationId)) {
+      return {};
+    }
+    return { accountCap: obligationId };
+  }
+
+  private isDefaultAccount(userAddress: string, obligationId: string): boolean {
+    return (
+      normalizeSuiAddress(obligationId) === normalizeSuiAddress(userAddress)
+    );
+  }
+
+  /**
+   * Address Navi keys an account's balances by: the wallet for the default
+   * account, otherwise the owner field of the AccountCap
+   */
+  private async getAccountAddress(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<string> {
+    if (!obligationId || this.isDefaultAccount(userAddress, obligationId)) {
+      return userAddress;
+    }
+
+    const object = await this.suiClient.getObject({
+      id: obligationId,
+      options: { showContent: true, showOwner: true },
+    });
+    const owner = (object.data?.owner as any)?.AddressOwner;
+    const fields = (object.data?.content as any)?.fields;
+    if (
+      !fields?.owner ||
+      !owner ||
+      normalizeSuiAddress(owner) !== normalizeSuiAddress(userAddress)
+    ) {
+      throw new Error(`Account ${obligationId} not owned by ${userAddress}`);
+    }
+    return fields.owner;
+  }
+
+  async getPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<PositionInfo | null> {
     this.ensureInitialized();
 
-    const lendingState = await getLendingState(userAddress, { env: "prod" });
+    const account = await this.getAccountAddress(userAddress, obligationId);
+    const lendingState = await getLendingState(account, { env: "prod" });
     if (lendingState.length === 0) return null;
 
     const activePositions = lendingState.filter(
@@ -94,72 +208,157 @@ export class NaviAdapter implements ILendingProtocol {
 
     if (activePositions.length === 0) return null;
 
-    // Find supply position
-    let collateral: AssetPosition | null = null;
-    let debt: AssetPosition | null = null;
+    const collaterals: AssetPosition[] = [];
+    const debts: AssetPosition[] = [];
+    const prices = await this.getValuationPrices(activePositions);
 
     for (const pos of activePositions) {
       const poolCoinType = normalizeCoinType(pos.pool.coinType);
       const reserve = getReserveByCoinType(poolCoinType);
-      const decimals = reserve?.decimals || 9;
-      const symbol = reserve?.symbol || poolCoinType.split("::").pop() || "???";
+      const decimals = this.getPoolDecimals(pos.pool);
+      const symbol =
+        pos.pool.token?.symbol ||
+        reserve?.symbol ||
+        poolCoinType.split("::").pop() ||
+        "???";
+      const price = this.getPoolPrice(pos.pool, prices);
 
       if (BigInt(pos.supplyBalance) > 0) {
-        const amount = BigInt(pos.supplyBalance);
-        const price = await getTokenPrice(poolCoinType);
-        collateral = {
+        const amount = rescaleRaw(
+          BigInt(pos.supplyBalance),
+          NAVI_BALANCE_DECIMALS,
+          decimals,
+        );
+        const threshold = parseFloat(pos.pool.liquidationFactor?.threshold);
+        collaterals.push({
           amount,
+          amountKind: "underlying",
           symbol,
           coinType: poolCoinType,
-          decimals: NAVI_BALANCE_DECIMALS, // Navi uses 9 decimals internally
-          valueUsd:
-            (Number(amount) / Math.pow(10, NAVI_BALANCE_DECIMALS)) * price,
-        };
+          decimals,
+          valueUsd: toHumanAmount(amount, decimals) * price,
+          openLtvPct: this.getPoolLtv(pos.pool) * 100,
+          closeLtvPct: Number.isFinite(threshold) ? threshold * 100 : undefined,
+        });
       }
 
       if (BigInt(pos.borrowBalance) > 0) {
-        const rawAmount = BigInt(pos.borrowBalance);
-        // Convert from Navi's 9 decimal precision to native decimals
-        const amount =
-          rawAmount / BigInt(10 ** (NAVI_BALANCE_DECIMALS - decimals));
-        const price = await getTokenPrice(poolCoinType);
-        debt = {
+        const amount = rescaleRaw(
+          BigInt(pos.borrowBalance),
+          NAVI_BALANCE_DECIMALS,
+          decimals,
+        );
+        debts.push({
           amount,
+          amountKind: "underlying",
           symbol,
           coinType: poolCoinType,
           decimals,
-          valueUsd: (Number(amount) / Math.pow(10, decimals)) * price,
-        };
+          valueUsd: toHumanAmount(amount, decimals) * price,
+          borrowWeight: 1, // Navi has no borrow weights
+        });
       }
     }
 
-    if (!collateral) return null;
+    return buildPositionInfo(collaterals, debts);
+  }
 
-    const netValueUsd = collateral.valueUsd - (debt?.valueUsd || 0);
+  /**
+   * Quotes from the configured price source (empty without one)
+   *
+   * getPosition and getAccountPortfolio report USD values with these,
+   * falling back to the pool's oracle price, so their numbers agree.
+   * Health factors and limits always use the oracle price.
+   */
+  private async getValuationPrices(
+    lendingState: any[],
+  ): Promise<Record<string, PriceQuote>> {
+    if (!this.priceSource || lendingState.length === 0) return {};
+    return this.priceSource.getPrices(
+      lendingState.map((s) => s.pool?.coinType ?? s.coinType ?? ""),
+    );
+  }
 
-    return {
-      collateral,
-      debt: debt || {
-        amount: 0n,
-        symbol: "USDC",
-        coinType: normalizeCoinType(USDC_COIN_TYPE),
-        decimals: 6,
-        valueUsd: 0,
-      },
-      netValueUsd,
-    };
+  private getPoolPrice(
+    pool: any,
+    prices: Record<string, PriceQuote>,
+  ): number {
+    const coinType = normalizeCoinType(pool?.coinType ?? "");
+    return (
+      prices[coinType]?.price ??
+      parseFloat(pool?.oracle?.price ?? pool?.price ?? "0")
+    );
   }
 
-  async hasPosition(userAddress: string): Promise<boolean> {
-    const position = await this.getPosition(userAddress);
+  async hasPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<boolean> {
+    const position = await this.getPosition(userAddress, obligationId);
     return position !== null;
   }
 
+  async getObligations(userAddress: string): Promise<ObligationInfo[]> {
+    this.ensureInitialized();
+
+    // The wallet itself is the default account
+    const obligations: ObligationInfo[] = [
+      { id: userAddress, isDefault: true },
+    ];
+
+    let cursor: string | null | undefined = undefined;
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner: userAddress,
+        options: { showType: true },
+        cursor,
+      });
+      for (const item of page.data) {
+        if (item.data?.type?.endsWith("::account::AccountCap")) {
+          obligations.push({
+            id: item.data.objectId,
+            capId: item.data.objectId,
+            isDefault: false,
+          });
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return obligations;
+  }
+
+  async createObligation(tx: Transaction, userAddress: string): Promise<void> {
+    await this.closeObligation(
+      tx,
+      await this.openObligation(tx, userAddress),
+      userAddress,
+    );
+  }
+
+  async openObligation(
+    tx: Transaction,
+    _userAddress: string,
+  ): Promise<PendingObligation> {
+    this.ensureInitialized();
+    const accountCap = await createAccountCapPTB(tx as any, { env: "prod" });
+    return { protocol: this.name, handles: { accountCap } };
+  }
+
+  async closeObligation(
+    tx: Transaction,
+    obligation: PendingObligation,
+    userAddress: string,
+  ): Promise<void> {
+    tx.transferObjects([obligation.handles.accountCap], userAddress);
+  }
+
   async deposit(
     tx: Transaction,
     coin: any,
     coinType: string,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
@@ -171,6 +370,7 @@ export class NaviAdapter implements ILendingProtocol {
     // Navi's depositCoinPTB expects the coin directly
     await depositCoinPTB(tx as any, pool, coin, {
       env: "prod",
+      ...this.accountOptions(userAddress, obligationId),
     });
   }
 
@@ -179,6 +379,7 @@ export class NaviAdapter implements ILendingProtocol {
     coinType: string,
     amount: string,
     userAddress: string,
+    obligationId?: string,
   ): Promise<any> {
     this.ensureInitialized();
 
@@ -191,7 +392,7 @@ export class NaviAdapter implements ILendingProtocol {
       tx as any,
       pool,
       Number(amount),
-      { env: "prod" },
+      { env: "prod", ...this.accountOptions(userAddress, obligationId) },
     );
 
     return withdrawnCoin;
@@ -203,6 +404,7 @@ export class NaviAdapter implements ILendingProtocol {
     amount: string,
     userAddress: string,
     skipOracle = false,
+    obligationId?: ObligationRef,
   ): Promise<any> {
     this.ensureInitialized();
 
@@ -213,6 +415,7 @@ export class NaviAdapter implements ILendingProtocol {
 
     const borrowedCoin = await borrowCoinPTB(tx as any, pool, Number(amount), {
       env: "prod",
+      ...this.accountOptions(userAddress, obligationId),
     });
 
     return borrowedCoin;
@@ -223,6 +426,7 @@ export class NaviAdapter implements ILendingProtocol {
     coinType: string,
     coin: any,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
@@ -233,6 +437,7 @@ export class NaviAdapter implements ILendingProtocol {
 
     await repayCoinPTB(tx as any, pool, coin, {
       env: "prod",
+      ...this.accountOptions(userAddress, obligationId),
     });
   }
 
@@ -240,6 +445,7 @@ export class NaviAdapter implements ILendingProtocol {
     tx: Transaction,
     coinTypes: string[],
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
@@ -265,10 +471,17 @@ export class NaviAdapter implements ILendingProtocol {
       normalizeCoinType(pool.coinType ?? pool.suiCoinType ?? ""),
     );
 
+    const threshold = parseFloat(pool.liquidationFactor?.threshold ?? "");
+    const price = parseFloat(pool.oracle?.price ?? "");
+
     return {
       coinType: pool.coinType,
       symbol: reserve?.symbol || pool.coinType.split("::").pop() || "???",
-      decimals: reserve?.decimals || 9,
+      decimals: this.getPoolDecimals(pool),
+      openLtvPct: this.getPoolLtv(pool) * 100,
+      closeLtvPct: Number.isFinite(threshold) ? threshold * 100 : undefined,
+      borrowWeight: 1, // Navi has no borrow weights
+      price: Number.isFinite(price) && price > 0 ? price : undefined,
     };
   }
 
@@ -283,49 +496,45 @@ export class NaviAdapter implements ILendingProtocol {
         pool.coinType ?? pool.suiCoinType ?? "",
       );
       const reserve = getReserveByCoinType(coinType);
-      const decimals = reserve?.decimals || 9;
+      const decimals = this.getPoolDecimals(pool);
       const price = parseFloat(pool.oracle?.price ?? pool.price ?? "0");
 
-      // Helper to parse APY (handle bps vs ratio)
-      // Return APY as decimal (e.g., 0.03 for 3%) to match Suilend format
-      // Navi returns APY in percentage (e.g., 3.161 for 3.161%)
-      // Convert to decimal to match Suilend format
-      const getApy = (raw: any) => {
-        const val = parseFloat(raw ?? "0");
-        return val / 100;
-      };
-
-      const supplyApy = getApy(
+      const supplyApy = parseNaviApy(
         pool.supplyApy ?? pool.supplyIncentiveApyInfo?.apy,
       );
-      const borrowApy = getApy(
+      const borrowApy = parseNaviApy(
         pool.borrowApy ?? pool.borrowIncentiveApyInfo?.apy,
       );
+      const { available } = this.getPoolLiquidity(pool);
 
       return {
-        symbol: reserve?.symbol || coinType.split("::").pop() || "UNKNOWN",
+        symbol:
+          pool.token?.symbol ||
+          reserve?.symbol ||
+          coinType.split("::").pop() ||
+          "UNKNOWN",
         coinType,
         decimals,
         price,
         supplyApy,
         borrowApy,
-        maxLtv: parseFloat(pool.liquidationFactor?.threshold ?? "0.8") - 0.05, // Safety margin
+        maxLtv: this.getPoolLtv(pool),
         liquidationThreshold: parseFloat(
           pool.liquidationFactor?.threshold ?? "0.8",
         ),
-        totalSupply:
-          parseFloat(pool.totalSupply ?? pool.totalSupplyAmount ?? "0") /
-          Math.pow(10, decimals),
-        totalBorrow:
-          parseFloat(pool.totalBorrow ?? pool.borrowedAmount ?? "0") /
-          Math.pow(10, decimals),
-        availableLiquidity:
-          parseFloat(
-            pool.leftSupply ??
-              pool.availableBorrow ??
-              pool.leftBorrowAmount ??
-              "0",
-          ) / Math.pow(10, decimals),
+        liquidationBonus: pool.liquidationFactor
+          ? parseFloat(pool.liquidationFactor.bonus)
+          : undefined,
+        // Pool totals are in Navi's 9-decimal balance scale
+        totalSupply: toHumanAmount(
+          pool.totalSupplyAmount ?? 0,
+          NAVI_BALANCE_DECIMALS,
+        ),
+        totalBorrow: toHumanAmount(
+          pool.borrowedAmount ?? 0,
+          NAVI_BALANCE_DECIMALS,
+        ),
+        availableLiquidity: available,
       };
     });
   }
@@ -333,44 +542,49 @@ export class NaviAdapter implements ILendingProtocol {
   /**
    * Get aggregated portfolio
    */
-  async getAccountPortfolio(address: string): Promise<AccountPortfolio> {
+  async getAccountPortfolio(
+    address: string,
+    obligationId?: string,
+  ): Promise<AccountPortfolio> {
     this.ensureInitialized();
 
+    const account = await this.getAccountAddress(address, obligationId);
     const [lendingState, healthFactor] = await Promise.all([
-      getLendingState(address, { env: "prod" }),
-      getHealthFactor(address, { env: "prod" }),
+      getLendingState(account, { env: "prod" }),
+      getHealthFactor(account, { env: "prod" }),
     ]);
+    const prices = await this.getValuationPrices(lendingState as any[]);
 
     const positions: Position[] = [];
     let totalCollateralUsd = 0;
     let totalDebtUsd = 0;
     let borrowLimitUsd = 0;
     let liquidationThresholdUsd = 0;
+    let oracleDebtUsd = 0;
 
     for (const state of lendingState as any[]) {
       const coinType = normalizeCoinType(
         state.coinType ?? state.pool?.coinType ?? "",
       );
       const reserve = getReserveByCoinType(coinType);
-      const symbol = reserve?.symbol || "UNKNOWN";
-      const price = parseFloat(
-        state.pool?.oracle?.price ?? state.pool?.price ?? "0",
+      const symbol = state.pool?.token?.symbol || reserve?.symbol || "UNKNOWN";
+      const decimals = this.getPoolDecimals(state.pool);
+      const price = this.getPoolPrice(state.pool, prices);
+      const oraclePrice = this.getPoolPrice(state.pool, {});
+
+      const supplyRaw = rescaleRaw(
+        BigInt(state.supplyBalance ?? 0),
+        NAVI_BALANCE_DECIMALS,
+        decimals,
+      );
+      const borrowRaw = rescaleRaw(
+        BigInt(state.borrowBalance ?? 0),
+        NAVI_BALANCE_DECIMALS,
+        decimals,
       );
-
-      const supplyRaw = BigInt(state.supplyBalance ?? 0);
-      const borrowRaw = BigInt(state.borrowBalance ?? 0);
-
-      // Return APY as decimal (e.g., 0.03 for 3%) to match Suilend format
-      // Navi returns APY in percentage (e.g., 3.161 for 3.161%)
-      // Convert to decimal to match Suilend format
-      const getApy = (raw: any) => {
-        const val = parseFloat(raw ?? "0");
-        return val / 100;
-      };
 
       if (supplyRaw > 0) {
-        // Navi internal balances are 9 decimals
-        const amount = Number(supplyRaw) / Math.pow(10, NAVI_BALANCE_DECIMALS);
+        const amount = toHumanAmount(supplyRaw, decimals);
         const valueUsd = amount * price;
         totalCollateralUsd += valueUsd;
 
@@ -378,12 +592,12 @@ export class NaviAdapter implements ILendingProtocol {
         const liqThreshold = parseFloat(
           state.pool?.liquidationFactor?.threshold ?? "0.8",
         );
-        const ltv = liqThreshold - 0.05; // Safety margin, same as getMarkets
 
-        borrowLimitUsd += valueUsd * ltv;
-        liquidationThresholdUsd += valueUsd * liqThreshold;
+        const oracleValueUsd = amount * oraclePrice;
+        borrowLimitUsd += oracleValueUsd * this.getPoolLtv(state.pool);
+        liquidationThresholdUsd += oracleValueUsd * liqThreshold;
 
-        const supplyApy = getApy(
+        const supplyApy = parseNaviApy(
           state.pool?.supplyApy ?? state.pool?.supplyIncentiveApyInfo?.apy,
         );
 
@@ -393,17 +607,21 @@ export class NaviAdapter implements ILendingProtocol {
           coinType,
           side: "supply",
           amount,
+          amountRaw: supplyRaw.toString(),
+          decimals,
+          amountKind: "underlying",
           valueUsd,
           apy: supplyApy,
         });
       }
 
       if (borrowRaw > 0) {
-        const amount = Number(borrowRaw) / Math.pow(10, NAVI_BALANCE_DECIMALS);
+        const amount = toHumanAmount(borrowRaw, decimals);
         const valueUsd = amount * price;
         totalDebtUsd += valueUsd;
+        oracleDebtUsd += amount * oraclePrice;
 
-        const borrowApy = getApy(
+        const borrowApy = parseNaviApy(
           state.pool?.borrowApy ?? state.pool?.borrowIncentiveApyInfo?.apy,
         );
 
@@ -413,6 +631,9 @@ export class NaviAdapter implements ILendingProtocol {
           coinType,
           side: "borrow",
           amount,
+          amountRaw: borrowRaw.toString(),
+          decimals,
+          amountKind: "underlying",
           valueUsd,
           apy: borrowApy,
         });
@@ -447,7 +668,7 @@ export class NaviAdapter implements ILendingProtocol {
       totalCollateralUsd,
       totalDepositedUsd: totalCollateralUsd,
       totalDebtUsd,
-      weightedBorrowsUsd: totalDebtUsd, // Navi uses 1:1 weight for borrows
+      weightedBorrowsUsd: oracleDebtUsd, // Navi uses 1:1 weight for borrows
       borrowLimitUsd,
       liquidationThresholdUsd,
       positions,
@@ -464,23 +685,136 @@ export class NaviAdapter implements ILendingProtocol {
     return this.pools;
   }
 
+  /**
+   * Borrow limit (LTV-weighted collateral) and debt of an account in USD,
+   * valued at Navi oracle prices
+   */
+  private async getAccountLimits(
+    address: string,
+    obligationId?: string,
+  ): Promise<{
+    lendingState: any[];
+    borrowLimitUsd: number;
+    debtUsd: number;
+  }> {
+    const account = await this.getAccountAddress(address, obligationId);
+    const lendingState = (await getLendingState(account, {
+      env: "prod",
+    })) as any[];
+
+    let borrowLimitUsd = 0;
+    let debtUsd = 0;
+    for (const state of lendingState) {
+      const price = parseFloat(state.pool?.oracle?.price ?? "0");
+      const scale = Math.pow(10, NAVI_BALANCE_DECIMALS);
+      borrowLimitUsd +=
+        (Number(state.supplyBalance) / scale) *
+        price *
+        this.getPoolLtv(state.pool);
+      debtUsd += (Number(state.borrowBalance) / scale) * price;
+    }
+
+    return { lendingState, borrowLimitUsd, debtUsd };
+  }
+
+  /**
+   * Pool cash and remaining borrow cap (token units)
+   */
+  private getPoolLiquidity(pool: any): {
+    available: number;
+    borrowCapLeft: number;
+  } {
+    const scale = Math.pow(10, NAVI_BALANCE_DECIMALS);
+    const supplied = Number(pool.totalSupplyAmount ?? 0) / scale;
+    const borrowed = Number(pool.borrowedAmount ?? 0) / scale;
+    // validBorrowAmount is the pool's borrow ceiling (uncapped if absent)
+    const borrowCap =
+      pool.validBorrowAmount === undefined
+        ? Infinity
+        : Number(pool.validBorrowAmount) / scale;
+
+    return {
+      available: Math.max(0, supplied - borrowed),
+      borrowCapLeft: Math.max(0, borrowCap - borrowed),
+    };
+  }
+
+  /**
+   * Max additional borrow: unused borrow limit at the oracle price,
+   * capped by pool cash and the borrow cap (read fresh, not from initialize)
+   */
   async getMaxBorrowableAmount(
     address: string,
     coinType: string,
+    obligationId?: string,
   ): Promise<string> {
-    // TODO: Implement for Navi
-    throw new Error(
-      "Methods getMaxBorrowableAmount not implemented for Navi yet",
+    this.ensureInitialized();
+
+    await this.loadPools(true);
+    const pool = this.getPool(coinType);
+    if (!pool) return "0";
+
+    const price = parseFloat(pool.oracle?.price ?? "0");
+    if (!(price > 0)) return "0";
+
+    const { borrowLimitUsd, debtUsd } = await this.getAccountLimits(
+      address,
+      obligationId,
+    );
+    const availableBorrowUsd = Math.max(0, borrowLimitUsd - debtUsd);
+
+    const { available, borrowCapLeft } = this.getPoolLiquidity(pool);
+    const maxBorrowAmount = Math.min(
+      availableBorrowUsd / price,
+      available,
+      borrowCapLeft,
     );
+    return formatMaxAmount(maxBorrowAmount);
   }
 
+  /**
+   * Max withdrawal that keeps debt within the borrow limit, capped by the
+   * supplied balance and pool cash
+   */
   async getMaxWithdrawableAmount(
     address: string,
     coinType: string,
+    obligationId?: string,
   ): Promise<string> {
-    // TODO: Implement for Navi
-    throw new Error(
-      "Methods getMaxWithdrawableAmount not implemented for Navi yet",
+    this.ensureInitialized();
+
+    const normalized = normalizeCoinType(coinType);
+    const { lendingState, borrowLimitUsd, debtUsd } =
+      await this.getAccountLimits(address, obligationId);
+
+    const state = lendingState.find(
+      (s) => normalizeCoinType(s.pool?.coinType ?? "") === normalized,
     );
+    if (!state || BigInt(state.supplyBalance) === 0n) return "0";
+
+    const supplied =
+      Number(state.supplyBalance) / Math.pow(10, NAVI_BALANCE_DECIMALS);
+    const price = parseFloat(state.pool.oracle?.price ?? "0");
+    const ltv = this.getPoolLtv(state.pool);
+
+    // Without debt, or for an asset that adds no borrow power, all of it
+    let maxWithdrawAmount = supplied;
+    if (debtUsd > 0 && ltv > 0) {
+      if (!(price > 0)) return "0";
+      const excessUsd = Math.max(0, borrowLimitUsd - debtUsd);
+      maxWithdrawAmount = Math.min(supplied, excessUsd / (price * ltv));
+    }
+
+    const { available } = this.getPoolLiquidity(state.pool);
+    return formatMaxAmount(Math.min(maxWithdrawAmount, available));
   }
 }
+
+/**
+ * Format a token amount like the Suilend adapter, rounding down so the
+ * result never exceeds the limit
+ */
+function formatMaxAmount(amount: number): string {
+  const floored = Math.floor(Math.max(0, amount) * 1e6) / 1e6;
+  return floored.toFixed(6).replace(/\.?0+$/, "");
+}
@@ -0,0 +1,111 @@
+/**
+ * DeFi Dash SDK - Lending Protocol Registry
+ *
+ * Maps protocol ids to adapter factories. Adapters are created and
+ * initialized on first use, so one protocol's API being down does not
+ * block the others.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "./interface";
+import { SuilendAdapter } from "./suilend";
+import { NaviAdapter } from "./navi";
+import { ScallopAdapter } from "./scallop";
+import { LendingProtocol, ProtocolId } from "../types";
+
+/**
+ * Creates an uninitialized adapter; the registry calls initialize()
+ */
+export type LendingProtocolFactory = () => ILendingProtocol;
+
+/**
+ * Registry of lending protocol adapters with lazy initialization
+ *
+ * @example
+ * ```typescript
+ * const registry = ProtocolRegistry.withDefaults();
+ * registry.register("my-lender", () => new MyLenderAdapter());
+ * const adapter = await registry.get("my-lender", suiClient);
+ * ```
+ */
+export class ProtocolRegistry {
+  private factories = new Map<string, LendingProtocolFactory>();
+  private adapters = new Map<string, Promise<ILendingProtocol>>();
+
+  /**
+   * Registry with the built-in adapters (Suilend, Navi, Scallop)
+   */
+  static withDefaults(): ProtocolRegistry {
+    return new ProtocolRegistry()
+      .register(LendingProtocol.Suilend, () => new SuilendAdapter())
+      .register(LendingProtocol.Navi, () => new NaviAdapter())
+      .register(LendingProtocol.Scallop, () => new ScallopAdapter());
+  }
+
+  /**
+   * Register (or replace) an adapter factory under an id
+   */
+  register(id: ProtocolId, factory: LendingProtocolFactory): this {
+    this.factories.set(id, factory);
+    this.adapters.delete(id);
+    return this;
+  }
+
+  /**
+   * Remove an adapter so it is never loaded
+   */
+  unregister(id: ProtocolId): this {
+    this.factories.delete(id);
+    this.adapters.delete(id);
+    return this;
+  }
+
+  has(id: ProtocolId): boolean {
+    return this.factories.has(id);
+  }
+
+  /**
+   * Registered protocol ids, in registration order
+   */
+  ids(): ProtocolId[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Get an adapter, initializing it on first use
+   *
+   * A failed initialization is not cached; the next call retries.
+   */
+  async get(id: ProtocolId, suiClient: SuiClient): Promise<ILendingProtocol> {
+    const cached = this.adapters.get(id);
+    if (cached) return cached;
+
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Protocol ${id} not supported`);
+    }
+
+    const loading = (async () => {
+      const adapter = factory();
+      await adapter.initialize(suiClient);
+      return adapter;
+    })();
+    this.adapters.set(id, loading);
+
+    try {
+      return await loading;
+    } catch (error: any) {
+      if (this.adapters.get(id) === loading) this.adapters.delete(id);
+      throw new Error(
+        `Failed to initialize ${id}: ${error?.message || String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Drop initialized adapters (e.g. after switching SuiClient)
+   */
+  reset(): void {
+    this.adapters.clear();
+  }
+}
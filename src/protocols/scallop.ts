@@ -0,0 +1,687 @@
+/**
+ * DeFi Dash SDK - Scallop Protocol Adapter
+ *
+ * Implements ILendingProtocol for Scallop
+ *
+ * Collateral lives in a Scallop obligation (unlike lending pool supply, it
+ * earns no interest). Supply held as sCoins in the wallet is reported in the
+ * default obligation's portfolio.
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import {
+  Scallop,
+  ScallopBuilder,
+  ScallopQuery,
+  ScallopTxBlock,
+  MarketPool,
+  MarketCollateral,
+  Obligation,
+  ObligationAccount,
+  Lending,
+} from "@scallop-io/sui-scallop-sdk";
+import {
+  ILendingProtocol,
+  ReserveInfo,
+  ObligationInfo,
+  ObligationRef,
+  PendingObligation,
+  isPendingObligation,
+} from "./interface";
+import {
+  PositionInfo,
+  AssetPosition,
+  MarketAsset,
+  AccountPortfolio,
+  LendingProtocol,
+  Position,
+} from "../types";
+import {
+  normalizeCoinType,
+  buildPositionInfo,
+  toApy,
+  toHumanAmount,
+} from "../lib/utils";
+import { IPriceSource } from "../price";
+
+/**
+ * Scallop lending protocol adapter
+ */
+export class ScallopAdapter implements ILendingProtocol {
+  readonly name = "scallop";
+  readonly consumesRepaymentCoin = true; // Excess is returned to the sender
+  private suiClient!: SuiClient;
+  private builder!: ScallopBuilder;
+  private query!: ScallopQuery;
+  private pools: MarketPool[] = [];
+  private collaterals: MarketCollateral[] = [];
+  private initialized = false;
+  private priceSource?: IPriceSource;
+
+  async initialize(suiClient: SuiClient): Promise<void> {
+    this.suiClient = suiClient;
+
+    const scallop = new Scallop({
+      networkType: "mainnet",
+      suiClients: [suiClient],
+    });
+    this.builder = await scallop.createScallopBuilder();
+    this.query = this.builder.query;
+
+    // Fetch market pools and collateral configs
+    const market = await this.query.getMarketPools();
+    this.pools = Object.values(market.pools).filter(
+      (p): p is MarketPool => !!p,
+    );
+    this.collaterals = Object.values(market.collaterals).filter(
+      (c): c is MarketCollateral => !!c,
+    );
+
+    this.initialized = true;
+  }
+
+  setPriceSource(source: IPriceSource | undefined): void {
+    this.priceSource = source;
+  }
+
+  private ensureInitialized() {
+    if (!this.initialized) {
+      throw new Error(
+        "ScallopAdapter not initialized. Call initialize() first.",
+      );
+    }
+  }
+
+  private getPool(coinType: string): MarketPool | undefined {
+    const normalized = normalizeCoinType(coinType);
+    return this.pools.find((p) => normalizeCoinType(p.coinType) === normalized);
+  }
+
+  private getCollateral(coinType: string): MarketCollateral | undefined {
+    const normalized = normalizeCoinType(coinType);
+    return this.collaterals.find(
+      (c) => normalizeCoinType(c.coinType) === normalized,
+    );
+  }
+
+  /**
+   * Scallop coin name (e.g. "sui", "wusdc") used by the builder
+   */
+  private getCoinName(coinType: string): string {
+    const market = this.getPool(coinType) ?? this.getCollateral(coinType);
+    if (!market) {
+      throw new Error(`Scallop market not found for ${coinType}`);
+    }
+    return market.coinName;
+  }
+
+  /**
+   * Wrap the caller's transaction so Scallop commands land in it
+   * (createTxBlock(tx) would build on a copy)
+   */
+  private wrap(tx: Transaction, userAddress: string): ScallopTxBlock {
+    tx.setSenderIfNotSet(userAddress);
+    const scallopTx = this.builder.createTxBlock();
+    scallopTx.txBlock = tx;
+    return scallopTx;
+  }
+
+  /**
+   * Get obligation info (the first obligation when obligationId is omitted)
+   */
+  async getObligation(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<Obligation | null> {
+    this.ensureInitialized();
+    const obligations = await this.query.getObligations(userAddress);
+    if (obligationId === undefined) {
+      return obligations.length > 0 ? obligations[0] : null;
+    }
+
+    const obligation = obligations.find(
+      (o) => normalizeSuiObjectId(o.id) === normalizeSuiObjectId(obligationId),
+    );
+    if (!obligation) {
+      throw new Error(`Obligation ${obligationId} not owned by ${userAddress}`);
+    }
+    return obligation;
+  }
+
+  /**
+   * Obligation that collateral can be taken from or borrowed against
+   */
+  private async getUnlockedObligation(
+    userAddress: string,
+    obligationId: string | undefined,
+    action: string,
+  ): Promise<Obligation> {
+    const obligation = await this.getObligation(userAddress, obligationId);
+    if (!obligation) {
+      throw new Error(`No obligation found for ${action}`);
+    }
+    if (obligation.locked) {
+      throw new Error(
+        `Obligation ${obligation.id} is staked in borrow incentives; unstake it before ${action}`,
+      );
+    }
+    return obligation;
+  }
+
+  private async getObligationAccount(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<ObligationAccount | undefined> {
+    const obligation = await this.getObligation(userAddress, obligationId);
+    if (!obligation) return undefined;
+    return this.query.getObligationAccount(obligation.id, userAddress);
+  }
+
+  async getPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<PositionInfo | null> {
+    this.ensureInitialized();
+
+    const account = await this.getObligationAccount(userAddress, obligationId);
+    if (!account) return null;
+
+    const collaterals: AssetPosition[] = [];
+    const debts: AssetPosition[] = [];
+
+    for (const c of Object.values(account.collaterals)) {
+      if (!c || c.depositedAmount <= 0) continue;
+      const config = this.getCollateral(c.coinType);
+      collaterals.push({
+        amount: BigInt(Math.floor(c.depositedAmount)),
+        amountKind: "underlying",
+        symbol: c.symbol,
+        coinType: normalizeCoinType(c.coinType),
+        decimals: c.coinDecimal,
+        valueUsd: c.depositedValue,
+        openLtvPct: config ? config.collateralFactor * 100 : undefined,
+        closeLtvPct: config ? config.liquidationFactor * 100 : undefined,
+      });
+    }
+
+    for (const d of Object.values(account.debts)) {
+      if (!d || d.borrowedAmount <= 0) continue;
+      debts.push({
+        amount: BigInt(Math.ceil(d.borrowedAmount)),
+        amountKind: "underlying",
+        symbol: d.symbol,
+        coinType: normalizeCoinType(d.coinType),
+        decimals: d.coinDecimal,
+        valueUsd: d.borrowedValue,
+        borrowWeight: this.getPool(d.coinType)?.borrowWeight,
+      });
+    }
+
+    if (collaterals.length === 0 && debts.length === 0) return null;
+
+    const prices = await this.getValuationPrices([...collaterals, ...debts]);
+    for (const asset of [...collaterals, ...debts]) {
+      const price = prices[asset.coinType];
+      if (price !== undefined) {
+        asset.valueUsd = toHumanAmount(asset.amount, asset.decimals) * price;
+      }
+    }
+
+    return buildPositionInfo(collaterals, debts);
+  }
+
+  /**
+   * Prices from the configured price source, keyed by normalized coin type
+   *
+   * Scallop values at its own oracle; getPosition and getAccountPortfolio
+   * both report USD values with these so their numbers agree, while
+   * limits and the health factor stay on the oracle. Empty without a
+   * source, and coins it cannot price keep the oracle value.
+   */
+  private async getValuationPrices(
+    assets: { coinType: string }[],
+  ): Promise<Record<string, number>> {
+    if (!this.priceSource || assets.length === 0) return {};
+
+    const quotes = await this.priceSource.getPrices(
+      assets.map((a) => a.coinType),
+    );
+    const prices: Record<string, number> = {};
+    for (const [coinType, quote] of Object.entries(quotes)) {
+      prices[coinType] = quote.price;
+    }
+    return prices;
+  }
+
+  async hasPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<boolean> {
+    const position = await this.getPosition(userAddress, obligationId);
+    return position !== null;
+  }
+
+  async getObligations(userAddress: string): Promise<ObligationInfo[]> {
+    this.ensureInitialized();
+    const obligations = await this.query.getObligations(userAddress);
+    return obligations.map((o, i) => ({
+      id: o.id,
+      capId: o.keyId,
+      isDefault: i === 0,
+    }));
+  }
+
+  async createObligation(tx: Transaction, userAddress: string): Promise<void> {
+    await this.closeObligation(
+      tx,
+      await this.openObligation(tx, userAddress),
+      userAddress,
+    );
+  }
+
+  async openObligation(
+    tx: Transaction,
+    userAddress: string,
+  ): Promise<PendingObligation> {
+    this.ensureInitialized();
+    const scallopTx = this.wrap(tx, userAddress);
+    const [obligation, obligationKey, hotPotato] = scallopTx.openObligation();
+    return {
+      protocol: this.name,
+      handles: { obligation, obligationKey, hotPotato },
+    };
+  }
+
+  async closeObligation(
+    tx: Transaction,
+    obligation: PendingObligation,
+    userAddress: string,
+  ): Promise<void> {
+    const { obligation: opened, obligationKey, hotPotato } =
+      obligation.handles;
+    const scallopTx = this.wrap(tx, userAddress);
+    scallopTx.returnObligation(opened, hotPotato);
+    tx.transferObjects([obligationKey], userAddress);
+  }
+
+  async deposit(
+    tx: Transaction,
+    coin: any,
+    coinType: string,
+    userAddress: string,
+    obligationId?: ObligationRef,
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    const coinName = this.getCoinName(coinType);
+    const scallopTx = this.wrap(tx, userAddress);
+    if (isPendingObligation(obligationId)) {
+      scallopTx.addCollateral(obligationId.handles.obligation, coin, coinName);
+      return;
+    }
+
+    const existing = await this.getObligation(userAddress, obligationId);
+
+    if (existing) {
+      scallopTx.addCollateral(existing.id, coin, coinName);
+      return;
+    }
+
+    // Create new obligation
+    const [obligation, obligationKey, hotPotato] = scallopTx.openObligation();
+    scallopTx.addCollateral(obligation, coin, coinName);
+    scallopTx.returnObligation(obligation, hotPotato);
+    tx.transferObjects([obligationKey], userAddress);
+  }
+
+  async withdraw(
+    tx: Transaction,
+    coinType: string,
+    amount: string,
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<any> {
+    this.ensureInitialized();
+
+    const obligation = await this.getUnlockedObligation(
+      userAddress,
+      obligationId,
+      "withdrawal",
+    );
+
+    const scallopTx = this.wrap(tx, userAddress);
+    return scallopTx.takeCollateral(
+      obligation.id,
+      obligation.keyId,
+      Number(amount),
+      this.getCoinName(coinType),
+    );
+  }
+
+  async borrow(
+    tx: Transaction,
+    coinType: string,
+    amount: string,
+    userAddress: string,
+    skipOracle = false,
+    obligationId?: ObligationRef,
+  ): Promise<any> {
+    this.ensureInitialized();
+
+    // A fresh obligation is unlocked and has no on-chain id yet
+    const obligation = isPendingObligation(obligationId)
+      ? {
+          id: obligationId.handles.obligation,
+          keyId: obligationId.handles.obligationKey,
+        }
+      : await this.getUnlockedObligation(userAddress, obligationId, "borrowing");
+
+    if (!skipOracle) {
+      await this.refreshOracles(tx, [coinType], userAddress, obligationId);
+    }
+
+    const scallopTx = this.wrap(tx, userAddress);
+    return scallopTx.borrow(
+      obligation.id,
+      obligation.keyId,
+      Number(amount),
+      this.getCoinName(coinType),
+    );
+  }
+
+  async repay(
+    tx: Transaction,
+    coinType: string,
+    coin: any,
+    userAddress: string,
+    obligationId?: ObligationRef,
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    const scallopTx = this.wrap(tx, userAddress);
+    if (isPendingObligation(obligationId)) {
+      scallopTx.repay(
+        obligationId.handles.obligation,
+        coin,
+        this.getCoinName(coinType),
+      );
+      return;
+    }
+
+    const obligation = await this.getObligation(userAddress, obligationId);
+    if (!obligation) {
+      throw new Error("No obligation found for repayment");
+    }
+
+    scallopTx.repay(obligation.id, coin, this.getCoinName(coinType));
+  }
+
+  async refreshOracles(
+    tx: Transaction,
+    coinTypes: string[],
+    userAddress: string,
+    obligationId?: ObligationRef,
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    // Scallop checks every asset in the obligation, not just the ones touched
+    const coinNames = new Set(coinTypes.map((ct) => this.getCoinName(ct)));
+    const account = isPendingObligation(obligationId)
+      ? undefined
+      : await this.getObligationAccount(userAddress, obligationId);
+    if (account) {
+      for (const c of Object.values(account.collaterals)) {
+        if (c && c.depositedAmount > 0) coinNames.add(c.coinName);
+      }
+      for (const d of Object.values(account.debts)) {
+        if (d && d.borrowedAmount > 0) coinNames.add(d.coinName);
+      }
+    }
+
+    const scallopTx = this.wrap(tx, userAddress);
+    await scallopTx.updateAssetPricesQuick([...coinNames]);
+  }
+
+  async getReserveInfo(coinType: string): Promise<ReserveInfo | undefined> {
+    this.ensureInitialized();
+
+    const pool = this.getPool(coinType);
+    const collateral = this.getCollateral(coinType);
+    const market = pool ?? collateral;
+    if (!market) return undefined;
+
+    return {
+      coinType: normalizeCoinType(market.coinType),
+      symbol: market.symbol,
+      decimals: market.coinDecimal,
+      openLtvPct: collateral ? collateral.collateralFactor * 100 : undefined,
+      closeLtvPct: collateral ? collateral.liquidationFactor * 100 : undefined,
+      borrowWeight: pool?.borrowWeight,
+      price: market.coinPrice > 0 ? market.coinPrice : undefined,
+      depositApy: pool?.supplyApy,
+      borrowApy: pool?.borrowApy,
+    };
+  }
+
+  /**
+   * Get all market data
+   */
+  async getMarkets(): Promise<MarketAsset[]> {
+    this.ensureInitialized();
+
+    return this.pools.map((pool) => {
+      const collateral = this.getCollateral(pool.coinType);
+
+      return {
+        symbol: pool.symbol,
+        coinType: normalizeCoinType(pool.coinType),
+        decimals: pool.coinDecimal,
+        price: pool.coinPrice,
+        supplyApy: pool.supplyApy,
+        borrowApy: pool.borrowApy,
+        // Pool rates are interest only; spool rewards are not included
+        supplyBaseApy: pool.supplyApy,
+        borrowBaseApy: pool.borrowApy,
+        utilization: pool.utilizationRate,
+        // Borrow-only pools cannot be used as collateral
+        maxLtv: collateral?.collateralFactor ?? 0,
+        liquidationThreshold: collateral?.liquidationFactor ?? 0,
+        borrowWeight: pool.borrowWeight,
+        liquidationBonus: collateral?.liquidationPenalty,
+        totalSupply: pool.supplyCoin,
+        totalBorrow: pool.borrowCoin,
+        availableLiquidity: Math.max(0, pool.supplyCoin - pool.borrowCoin),
+      };
+    });
+  }
+
+  /**
+   * Get aggregated portfolio
+   *
+   * The default obligation also lists the wallet's sCoin supply; it counts
+   * towards net value but not towards borrowing power.
+   */
+  async getAccountPortfolio(
+    address: string,
+    obligationId?: string,
+  ): Promise<AccountPortfolio> {
+    this.ensureInitialized();
+
+    const obligation = await this.getObligation(address, obligationId);
+    const isDefault =
+      obligationId === undefined ||
+      (!!obligation &&
+        (await this.getObligations(address))[0]?.id === obligation.id);
+
+    const [account, lendings] = await Promise.all([
+      obligation
+        ? this.query.getObligationAccount(obligation.id, address)
+        : undefined,
+      isDefault
+        ? this.query.getLendings(undefined, address)
+        : ({} as Record<string, Lending | undefined>),
+    ]);
+
+    const positions: Position[] = [];
+    let totalCollateralUsd = 0;
+    let totalDebtUsd = 0;
+    let weightedBorrowsUsd = 0;
+    let borrowLimitUsd = 0;
+    let liquidationThresholdUsd = 0;
+    let lendingUsd = 0;
+
+    const collaterals = Object.values(account?.collaterals ?? {});
+    const debts = Object.values(account?.debts ?? {});
+    const prices = await this.getValuationPrices(
+      [...collaterals, ...debts, ...Object.values(lendings)]
+        .filter((a) => !!a)
+        .map((a) => ({ coinType: normalizeCoinType(a!.coinType) })),
+    );
+    // Oracle value unless the price source quotes the coin
+    const value = (coinType: string, amount: number, oracleValue: number) => {
+      const price = prices[normalizeCoinType(coinType)];
+      return price === undefined ? oracleValue : amount * price;
+    };
+
+    for (const c of collaterals) {
+      if (!c || c.depositedAmount <= 0) continue;
+      const config = this.getCollateral(c.coinType);
+      const valueUsd = value(c.coinType, c.depositedCoin, c.depositedValue);
+      totalCollateralUsd += valueUsd;
+      // Limits stay at the oracle value Scallop checks against
+      borrowLimitUsd += c.depositedValue * (config?.collateralFactor ?? 0);
+      liquidationThresholdUsd +=
+        c.depositedValue * (config?.liquidationFactor ?? 0);
+
+      positions.push({
+        protocol: LendingProtocol.Scallop,
+        symbol: c.symbol,
+        coinType: normalizeCoinType(c.coinType),
+        side: "supply",
+        amount: c.depositedCoin,
+        amountRaw: Math.floor(c.depositedAmount).toString(),
+        decimals: c.coinDecimal,
+        amountKind: "underlying",
+        valueUsd,
+        apy: 0, // Obligation collateral is not lent out
+      });
+    }
+
+    for (const d of debts) {
+      if (!d || d.borrowedAmount <= 0) continue;
+      const valueUsd = value(d.coinType, d.borrowedCoin, d.borrowedValue);
+      totalDebtUsd += valueUsd;
+      weightedBorrowsUsd += d.borrowedValueWithWeight;
+
+      positions.push({
+        protocol: LendingProtocol.Scallop,
+        symbol: d.symbol,
+        coinType: normalizeCoinType(d.coinType),
+        side: "borrow",
+        amount: d.borrowedCoin,
+        amountRaw: Math.ceil(d.borrowedAmount).toString(),
+        decimals: d.coinDecimal,
+        amountKind: "underlying",
+        valueUsd,
+        apy: this.getPool(d.coinType)?.borrowApy ?? 0,
+      });
+    }
+
+    for (const l of Object.values(lendings)) {
+      if (!l || l.suppliedAmount <= 0) continue;
+      const valueUsd = value(l.coinType, l.suppliedCoin, l.suppliedValue);
+      lendingUsd += valueUsd;
+
+      positions.push({
+        protocol: LendingProtocol.Scallop,
+        symbol: l.symbol,
+        coinType: normalizeCoinType(l.coinType),
+        side: "supply",
+        amount: l.suppliedCoin,
+        amountRaw: Math.floor(l.suppliedAmount).toString(),
+        decimals: l.coinDecimal,
+        amountKind: "underlying", // sCoins valued as underlying
+        isCollateral: false, // Lent out, not in the obligation
+        valueUsd,
+        apy: l.supplyApy,
+        rewardsApy: l.rewardApr > 0 ? toApy(l.rewardApr, "apr") : undefined,
+      });
+    }
+
+    const totalDepositedUsd = totalCollateralUsd + lendingUsd;
+    const netValueUsd = totalDepositedUsd - totalDebtUsd;
+
+    // Net APY on equity = (supply earnings - borrow costs) / net value
+    let annualNetEarningsUsd = 0;
+    for (const pos of positions) {
+      const sign = pos.side === "supply" ? 1 : -1;
+      annualNetEarningsUsd += sign * pos.valueUsd * pos.apy;
+    }
+    const netApy = netValueUsd > 0 ? annualNetEarningsUsd / netValueUsd : 0;
+
+    return {
+      protocol: LendingProtocol.Scallop,
+      address,
+      healthFactor:
+        weightedBorrowsUsd > 0
+          ? liquidationThresholdUsd / weightedBorrowsUsd
+          : Infinity,
+      netValueUsd,
+      totalCollateralUsd,
+      totalDepositedUsd,
+      totalDebtUsd,
+      weightedBorrowsUsd,
+      borrowLimitUsd,
+      liquidationThresholdUsd,
+      positions,
+      netApy,
+      totalAnnualNetEarningsUsd: annualNetEarningsUsd,
+    };
+  }
+
+  async getMaxBorrowableAmount(
+    address: string,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string> {
+    this.ensureInitialized();
+
+    const account = await this.getObligationAccount(address, obligationId);
+    if (!account) return "0";
+
+    const pool = this.getPool(coinType);
+    if (!pool || pool.coinPrice === 0) return "0";
+
+    // Values are in USD; debt counts at its borrow weight
+    const availableBorrowValue = Math.max(
+      0,
+      account.totalBorrowCapacityValue - account.totalBorrowedValueWithWeight,
+    );
+    const maxBorrowAmount =
+      availableBorrowValue / (pool.coinPrice * pool.borrowWeight);
+    return maxBorrowAmount.toFixed(6).replace(/\.?0+$/, "");
+  }
+
+  async getMaxWithdrawableAmount(
+    address: string,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string> {
+    this.ensureInitialized();
+
+    const account = await this.getObligationAccount(address, obligationId);
+    if (!account) return "0";
+
+    const normalized = normalizeCoinType(coinType);
+    const collateral = Object.values(account.collaterals).find(
+      (c) => c && normalizeCoinType(c.coinType) === normalized,
+    );
+    if (!collateral) return "0";
+
+    return collateral.availableWithdrawCoin
+      .toFixed(6)
+      .replace(/\.?0+$/, "");
+  }
+}
@@ -11,34 +11,67 @@ import {
   LENDING_MARKET_ID,
   LENDING_MARKET_TYPE,
 } from "@suilend/sdk";
+import {
+  obligationId as obligationIdOf,
+  repay as repayIntoObligation,
+} from "@suilend/sdk/_generated/suilend/lending-market/functions";
+import { LendingMarket } from "@suilend/sdk/_generated/suilend/lending-market/structs";
+import { phantom } from "@suilend/sdk/_generated/_framework/reified";
 import { parseReserve } from "@suilend/sdk/parsers/reserve";
 import { parseObligation } from "@suilend/sdk/parsers/obligation";
-import { refreshReservePrice } from "@suilend/sdk/utils/simulate";
+import {
+  calculateBorrowAprPercent,
+  calculateDepositAprPercent,
+  calculateUtilizationPercent,
+  compoundReserveInterest,
+  cTokenRatio,
+  refreshReservePrice,
+} from "@suilend/sdk/utils/simulate";
 import { CoinMetadata } from "@mysten/sui/client";
-import { normalizeStructTag } from "@mysten/sui/utils";
-import { ILendingProtocol, ReserveInfo } from "./interface";
+import {
+  normalizeStructTag,
+  normalizeSuiObjectId,
+  SUI_CLOCK_OBJECT_ID,
+} from "@mysten/sui/utils";
+import {
+  ILendingProtocol,
+  ReserveInfo,
+  ObligationInfo,
+  ObligationRef,
+  PendingObligation,
+  isPendingObligation,
+} from "./interface";
 import {
   PositionInfo,
   AssetPosition,
-  USDC_COIN_TYPE,
   MarketAsset,
   AccountPortfolio,
   LendingProtocol,
   Position,
 } from "../types";
-import { normalizeCoinType, formatUnits } from "../lib/utils";
+import {
+  normalizeCoinType,
+  formatUnits,
+  buildPositionInfo,
+  toApy,
+  toRawAmount,
+  IntervalRefresher,
+} from "../lib/utils";
 import { getReserveByCoinType, SUILEND_RESERVES } from "../lib/suilend/const";
-import { getTokenPrice } from "@7kprotocol/sdk-ts";
 import {
   calculatePortfolioMetrics,
   calculateRewardsEarned,
   calculateLiquidationPrice,
   calculateRewardApy,
 } from "../lib/suilend/calculators";
+import { IPriceSource, SuilendReservePriceSource } from "../price";
 import BigNumber from "bignumber.js";
 
-// Suilend uses WAD (10^18) for internal precision
-const WAD = 10n ** 18n;
+/**
+ * How long the lending market (reserves, prices, rates) is reused before
+ * the next read re-fetches it (5s)
+ */
+const LENDING_MARKET_TTL_MS = 5_000;
 
 /**
  * Suilend lending protocol adapter
@@ -49,6 +82,18 @@ export class SuilendAdapter implements ILendingProtocol {
   private client!: SuilendClient;
   private suiClient!: SuiClient;
   private initialized = false;
+  private oracle = new SuilendReservePriceSource(
+    () => this.client.lendingMarket.reserves,
+  );
+  private priceSource?: IPriceSource;
+  // Monitors poll the same adapter; reload the market between polls
+  private marketRefresh = new IntervalRefresher(async () => {
+    this.client.lendingMarket = await LendingMarket.fetch(
+      this.suiClient,
+      phantom(LENDING_MARKET_TYPE),
+      LENDING_MARKET_ID,
+    );
+  }, LENDING_MARKET_TTL_MS);
 
   async initialize(suiClient: SuiClient): Promise<void> {
     this.suiClient = suiClient;
@@ -57,9 +102,18 @@ export class SuilendAdapter implements ILendingProtocol {
       LENDING_MARKET_TYPE,
       suiClient,
     );
+    this.marketRefresh.markFresh();
     this.initialized = true;
   }
 
+  getOraclePriceSource(): IPriceSource {
+    return this.oracle;
+  }
+
+  setPriceSource(source: IPriceSource | undefined): void {
+    this.priceSource = source;
+  }
+
   private ensureInitialized() {
     if (!this.initialized) {
       throw new Error(
@@ -68,94 +122,172 @@ export class SuilendAdapter implements ILendingProtocol {
     }
   }
 
-  async getPosition(userAddress: string): Promise<PositionInfo | null> {
+  async getPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<PositionInfo | null> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    if (caps.length === 0) return null;
+    const cap = await this.getObligationCap(userAddress, obligationId);
+    if (!cap) return null;
 
     const obligation = await SuilendClient.getObligation(
-      caps[0].obligationId,
+      cap.obligationId,
       [LENDING_MARKET_TYPE],
       this.suiClient,
     );
 
     if (!obligation) return null;
-
-    const deposits = obligation.deposits || [];
-    const borrows = obligation.borrows || [];
-
-    if (deposits.length === 0 && borrows.length === 0) return null;
-
-    // Parse first deposit as collateral
-    let collateral: AssetPosition | null = null;
-    if (deposits.length > 0) {
-      const deposit = deposits[0] as any;
-      const coinType = normalizeCoinType(deposit.coinType.name);
-      const reserve = getReserveByCoinType(coinType);
-      const amount = BigInt(deposit.depositedCtokenAmount);
-      const price = await getTokenPrice(coinType);
-      const decimals = reserve?.decimals || 9;
-
-      collateral = {
-        amount,
-        symbol: reserve?.symbol || "???",
-        coinType,
-        decimals,
-        valueUsd: (Number(amount) / Math.pow(10, decimals)) * price,
-      };
-    }
-
-    // Parse first borrow as debt
-    let debt: AssetPosition | null = null;
-    if (borrows.length > 0) {
-      const borrow = borrows[0] as any;
-      const coinType = normalizeCoinType(borrow.coinType.name);
-      const reserve = getReserveByCoinType(coinType);
-      const rawAmount = BigInt(borrow.borrowedAmount.value);
-      const amount = rawAmount / WAD;
-      const price = await getTokenPrice(coinType);
-      const decimals = reserve?.decimals || 6;
-
-      debt = {
-        amount,
-        symbol: reserve?.symbol || "USDC",
-        coinType,
-        decimals,
-        valueUsd: (Number(amount) / Math.pow(10, decimals)) * price,
-      };
+    if (obligation.deposits.length === 0 && obligation.borrows.length === 0) {
+      return null;
     }
 
-    if (!collateral) return null;
+    // Same parsing and prices as getAccountPortfolio: cTokens are converted
+    // to underlying and borrows include interest accrued to now
+    const { parsedReserveMap } = await this.getParsedReserveMap();
+    const parsedObligation = parseObligation(obligation, parsedReserveMap);
+    const value = await this.getValuation(parsedObligation);
+
+    const collaterals: AssetPosition[] = parsedObligation.deposits.map((d) => ({
+      amount: toRawAmount(d.depositedAmount, d.reserve.mintDecimals),
+      amountKind: "underlying",
+      symbol: d.reserve.token.symbol,
+      coinType: normalizeCoinType(d.coinType),
+      decimals: d.reserve.mintDecimals,
+      valueUsd: value(d.coinType, d.depositedAmount, d.depositedAmountUsd),
+      openLtvPct: d.reserve.config.openLtvPct,
+      closeLtvPct: d.reserve.config.closeLtvPct,
+    }));
+
+    const debts: AssetPosition[] = parsedObligation.borrows.map((b) => ({
+      // Round debt up so a full repay covers it
+      amount: toRawAmount(
+        b.borrowedAmount,
+        b.reserve.mintDecimals,
+        BigNumber.ROUND_UP,
+      ),
+      amountKind: "underlying",
+      symbol: b.reserve.token.symbol,
+      coinType: normalizeCoinType(b.coinType),
+      decimals: b.reserve.mintDecimals,
+      valueUsd: value(b.coinType, b.borrowedAmount, b.borrowedAmountUsd),
+      borrowWeight: b.reserve.config.borrowWeightBps.div(10000).toNumber(),
+    }));
+
+    const position = buildPositionInfo(collaterals, debts);
+    if (!position) return null;
 
-    const netValueUsd = collateral.valueUsd - (debt?.valueUsd || 0);
+    const metrics = calculatePortfolioMetrics(
+      parsedObligation,
+      parsedReserveMap,
+    );
+    const primary = parsedObligation.deposits.find(
+      (d) => normalizeCoinType(d.coinType) === position.collateral.coinType,
+    );
+    const liquidationPrice = primary
+      ? calculateLiquidationPrice(
+          primary.coinType,
+          primary.depositedAmount,
+          primary.reserve.config.closeLtvPct / 100,
+          parsedObligation,
+        )
+      : null;
+    const totalDepositedUsd = metrics.totalSupply.toNumber();
 
     return {
-      collateral,
-      debt: debt || {
-        amount: 0n,
-        symbol: "USDC",
-        coinType: USDC_COIN_TYPE,
-        decimals: 6,
-        valueUsd: 0,
-      },
-      netValueUsd,
+      ...position,
+      healthFactor: metrics.healthFactor.toNumber(),
+      ltvPercent:
+        totalDepositedUsd > 0
+          ? (metrics.totalBorrow.toNumber() / totalDepositedUsd) * 100
+          : 0,
+      liquidationPrice: liquidationPrice?.toNumber(),
+      totalDepositedUsd,
+      weightedBorrowsUsd: parsedObligation.weightedBorrowsUsd.toNumber(),
+      borrowLimitUsd: metrics.borrowLimit.toNumber(),
+      liquidationThresholdUsd: metrics.liquidationThreshold.toNumber(),
+    };
+  }
+
+  /**
+   * USD valuation with the configured price source, if any
+   *
+   * Only the reported USD values change: reserve prices (including the
+   * min/max prices behind borrow limits) stay on Suilend's oracle, so
+   * health factors and limits match what the protocol enforces. Coins the
+   * source cannot price keep the oracle value.
+   */
+  private async getValuation(parsedObligation: {
+    deposits: { coinType: string }[];
+    borrows: { coinType: string }[];
+  }): Promise<
+    (coinType: string, amount: BigNumber, oracleValueUsd: BigNumber) => number
+  > {
+    const coinTypes = [
+      ...parsedObligation.deposits.map((d) => d.coinType),
+      ...parsedObligation.borrows.map((b) => b.coinType),
+    ];
+    const quotes =
+      this.priceSource && coinTypes.length > 0
+        ? await this.priceSource.getPrices(coinTypes)
+        : {};
+
+    return (coinType, amount, oracleValueUsd) => {
+      const quote = quotes[normalizeCoinType(coinType)];
+      return quote
+        ? amount.times(quote.price).toNumber()
+        : oracleValueUsd.toNumber();
     };
   }
 
-  async hasPosition(userAddress: string): Promise<boolean> {
+  async hasPosition(
+    userAddress: string,
+    obligationId?: string,
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const cap = await this.getObligationCap(userAddress, obligationId);
+    return cap !== null;
+  }
+
+  async getObligations(userAddress: string): Promise<ObligationInfo[]> {
     this.ensureInitialized();
     const caps = await SuilendClient.getObligationOwnerCaps(
       userAddress,
       [LENDING_MARKET_TYPE],
       this.suiClient,
     );
-    return caps.length > 0;
+    return caps.map((cap, i) => ({
+      id: cap.obligationId,
+      capId: cap.id,
+      isDefault: i === 0,
+    }));
+  }
+
+  async createObligation(tx: Transaction, userAddress: string): Promise<void> {
+    await this.closeObligation(
+      tx,
+      await this.openObligation(tx, userAddress),
+      userAddress,
+    );
+  }
+
+  async openObligation(
+    tx: Transaction,
+    _userAddress: string,
+  ): Promise<PendingObligation> {
+    this.ensureInitialized();
+    return {
+      protocol: this.name,
+      handles: { cap: this.client.createObligation(tx) },
+    };
+  }
+
+  async closeObligation(
+    tx: Transaction,
+    obligation: PendingObligation,
+    userAddress: string,
+  ): Promise<void> {
+    tx.transferObjects([obligation.handles.cap], userAddress);
   }
 
   async deposit(
@@ -163,20 +295,22 @@ export class SuilendAdapter implements ILendingProtocol {
     coin: any,
     coinType: string,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
+    if (isPendingObligation(obligationId)) {
+      this.client.deposit(coin, coinType, obligationId.handles.cap, tx);
+      return;
+    }
+
+    const cap = await this.getObligationCap(userAddress, obligationId);
 
     let obligationOwnerCap: any;
     let isNew = false;
 
-    if (caps.length > 0) {
-      obligationOwnerCap = caps[0].id;
+    if (cap) {
+      obligationOwnerCap = cap.id;
     } else {
       // Create new obligation
       obligationOwnerCap = this.client.createObligation(tx);
@@ -195,25 +329,26 @@ export class SuilendAdapter implements ILendingProtocol {
     coinType: string,
     amount: string,
     userAddress: string,
+    obligationId?: string,
   ): Promise<any> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    if (caps.length === 0) {
+    const cap = await this.getObligationCap(userAddress, obligationId);
+    if (!cap) {
       throw new Error("No obligation found for withdrawal");
     }
 
-    const cap = caps[0];
+    const ctokenAmount = await this.toCtokenAmount(
+      cap.obligationId,
+      coinType,
+      BigInt(amount),
+    );
+
     const result = await this.client.withdraw(
       cap.id,
       cap.obligationId,
       coinType,
-      amount,
+      ctokenAmount.toString(),
       tx,
       false, // Skip refresh, assume already done
     );
@@ -221,26 +356,76 @@ export class SuilendAdapter implements ILendingProtocol {
     return result[0];
   }
 
+  /**
+   * cTokens to redeem for an underlying amount, rounded up and capped at
+   * the obligation's deposit (so withdrawing the full position takes all)
+   */
+  private async toCtokenAmount(
+    obligationId: string,
+    coinType: string,
+    underlying: bigint,
+  ): Promise<bigint> {
+    const normalized = normalizeCoinType(coinType);
+    const obligation = await SuilendClient.getObligation(
+      obligationId,
+      [LENDING_MARKET_TYPE],
+      this.suiClient,
+    );
+    const deposit = obligation?.deposits.find(
+      (d) => normalizeCoinType(d.coinType.name) === normalized,
+    );
+    if (!deposit) {
+      throw new Error(`No ${normalized} deposit in obligation ${obligationId}`);
+    }
+
+    const reserve = this.client.lendingMarket.reserves.find(
+      (r) => normalizeCoinType(r.coinType.name) === normalized,
+    );
+    if (!reserve) throw new Error(`Reserve not found for ${normalized}`);
+
+    const nowS = Math.floor(Date.now() / 1000);
+    const ratio = cTokenRatio(compoundReserveInterest(reserve, nowS));
+    const ctokens = BigInt(
+      new BigNumber(underlying.toString())
+        .div(ratio)
+        .integerValue(BigNumber.ROUND_UP)
+        .toFixed(0),
+    );
+    const deposited = BigInt(deposit.depositedCtokenAmount.toString());
+    return ctokens < deposited ? ctokens : deposited;
+  }
+
   async borrow(
     tx: Transaction,
     coinType: string,
     amount: string,
     userAddress: string,
     skipOracle = false,
+    obligationId?: ObligationRef,
   ): Promise<any> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
+    // A fresh obligation has no on-chain id yet; borrow through its cap
+    if (isPendingObligation(obligationId)) {
+      if (!skipOracle) {
+        await this.client.refreshAll(tx, undefined, [coinType]);
+      }
+      const result = await this.client.borrow(
+        obligationId.handles.cap,
+        "",
+        coinType,
+        amount,
+        tx,
+        false,
+      );
+      return result[0];
+    }
 
-    if (caps.length === 0) {
+    const cap = await this.getObligationCap(userAddress, obligationId);
+    if (!cap) {
       throw new Error("No obligation found for borrowing");
     }
 
-    const cap = caps[0];
     const result = await this.client.borrow(
       cap.id,
       cap.obligationId,
@@ -258,38 +443,44 @@ export class SuilendAdapter implements ILendingProtocol {
     coinType: string,
     coin: any,
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
+    if (isPendingObligation(obligationId)) {
+      const typeArg = this.client.lendingMarket.$typeArgs[0];
+      repayIntoObligation(tx, [typeArg, coinType], {
+        lendingMarket: tx.object(this.client.lendingMarket.id),
+        reserveArrayIndex: this.client.findReserveArrayIndex(coinType),
+        obligationId: obligationIdOf(tx, typeArg, obligationId.handles.cap),
+        clock: tx.object(SUI_CLOCK_OBJECT_ID),
+        maxRepayCoins: coin,
+      });
+      return;
+    }
 
-    if (caps.length === 0) {
+    const cap = await this.getObligationCap(userAddress, obligationId);
+    if (!cap) {
       throw new Error("No obligation found for repayment");
     }
 
-    this.client.repay(caps[0].obligationId, coinType, coin, tx);
+    this.client.repay(cap.obligationId, coinType, coin, tx);
   }
 
   async refreshOracles(
     tx: Transaction,
     coinTypes: string[],
     userAddress: string,
+    obligationId?: ObligationRef,
   ): Promise<void> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      userAddress,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    if (caps.length > 0) {
+    const cap = isPendingObligation(obligationId)
+      ? null
+      : await this.getObligationCap(userAddress, obligationId);
+    if (cap) {
       const obligation = await SuilendClient.getObligation(
-        caps[0].obligationId,
+        cap.obligationId,
         [LENDING_MARKET_TYPE],
         this.suiClient,
       );
@@ -302,89 +493,101 @@ export class SuilendAdapter implements ILendingProtocol {
 
   async getMarkets(): Promise<MarketAsset[]> {
     this.ensureInitialized();
+    const { coinMetadataMap, parsedReserveMap } =
+      await this.getParsedReserveMap();
     const reserves = this.client.lendingMarket.reserves as any[];
 
-    return Promise.all(
-      reserves.map(async (reserve) => {
-        const coinType = normalizeCoinType(reserve.coinType.name);
-        const localReserve = getReserveByCoinType(coinType);
-
-        // Suilend price is Decimal { value: string }
-        const price = Number(BigInt((reserve.price as any).value)) / 1e18;
-
-        // APY not directly in reserve object, default to 0 for now
-        const supplyApyPct = 0;
-        const borrowApyPct = 0;
-
-        const decimals = localReserve?.decimals || 9;
-
-        // Available is u64, Borrowed is Decimal
-        const availableLiquidity =
-          Number(reserve.availableAmount) / Math.pow(10, decimals);
-        const totalBorrow =
-          Number(BigInt((reserve.borrowedAmount as any).value)) / 1e18; // WAD
-        const totalSupply = availableLiquidity + totalBorrow;
-
-        return {
-          symbol: localReserve?.symbol || "UNKNOWN",
-          coinType,
-          decimals,
-          price,
-          supplyApy: supplyApyPct,
-          borrowApy: borrowApyPct,
-          maxLtv: Number(reserve.config.openLtvPct) / 100,
-          liquidationThreshold: Number(reserve.config.closeLtvPct) / 100,
-          totalSupply,
-          totalBorrow,
-          availableLiquidity,
-        };
-      }),
-    );
+    return reserves.map((reserve) => {
+      const coinType = normalizeCoinType(reserve.coinType.name);
+      const metadata = coinMetadataMap[normalizeStructTag(coinType)];
+      const parsed = parsedReserveMap[normalizeStructTag(coinType)];
+      const config = reserve.config.element;
+      const decimals = metadata.decimals;
+
+      // Suilend price is Decimal { value: string }
+      const price = Number(BigInt((reserve.price as any).value)) / 1e18;
+
+      // Available is u64, Borrowed is Decimal (WAD) of raw units
+      const availableLiquidity =
+        Number(reserve.availableAmount) / Math.pow(10, decimals);
+      const totalBorrow =
+        Number(BigInt((reserve.borrowedAmount as any).value)) /
+        1e18 /
+        Math.pow(10, decimals);
+      const totalSupply = availableLiquidity + totalBorrow;
+
+      // Interest: piecewise-linear rate curve at current utilization
+      const utilization = calculateUtilizationPercent(reserve)
+        .div(100)
+        .toNumber();
+      const supplyBaseApy = toApy(
+        calculateDepositAprPercent(reserve).div(100).toNumber(),
+        "apr",
+      );
+      const borrowBaseApy = toApy(
+        calculateBorrowAprPercent(reserve).div(100).toNumber(),
+        "apr",
+      );
+
+      // Liquidity-mining rewards spread over the reserve's USD size
+      const supplyRewardApy =
+        calculateRewardApy(
+          parsed.depositsPoolRewardManager,
+          new BigNumber(parsed.depositedAmountUsd),
+          parsedReserveMap,
+        ).totalRewardApy / 100;
+      const borrowRewardApy =
+        calculateRewardApy(
+          parsed.borrowsPoolRewardManager,
+          new BigNumber(parsed.borrowedAmountUsd),
+          parsedReserveMap,
+        ).totalRewardApy / 100;
+
+      return {
+        symbol: metadata.symbol,
+        coinType,
+        decimals,
+        price,
+        supplyApy: supplyBaseApy + supplyRewardApy,
+        borrowApy: borrowBaseApy - borrowRewardApy,
+        supplyBaseApy,
+        supplyRewardApy,
+        borrowBaseApy,
+        borrowRewardApy,
+        utilization,
+        maxLtv: Number(config.openLtvPct) / 100,
+        liquidationThreshold: Number(config.closeLtvPct) / 100,
+        borrowWeight: Number(config.borrowWeightBps) / 10000,
+        liquidationBonus:
+          (Number(config.liquidationBonusBps) +
+            Number(config.protocolLiquidationFeeBps)) /
+          10000,
+        totalSupply,
+        totalBorrow,
+        availableLiquidity,
+      };
+    });
   }
 
   private coinMetadataCache: Record<string, CoinMetadata> = {};
 
-  async getAccountPortfolio(address: string): Promise<AccountPortfolio> {
-    this.ensureInitialized();
-
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      address,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    const emptyPortfolio: AccountPortfolio = {
-      protocol: LendingProtocol.Suilend,
-      address,
-      healthFactor: Infinity,
-      netValueUsd: 0,
-      totalCollateralUsd: 0,
-      totalDepositedUsd: 0,
-      totalDebtUsd: 0,
-      weightedBorrowsUsd: 0,
-      borrowLimitUsd: 0,
-      liquidationThresholdUsd: 0,
-      positions: [],
-      netApy: 0,
-      totalAnnualNetEarningsUsd: 0,
-    };
-
-    if (caps.length === 0) {
-      return emptyPortfolio;
-    }
-
-    const obligation = await SuilendClient.getObligation(
-      caps[0].obligationId,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
+  /**
+   * Coin metadata and parsed reserves for every reserve and reward coin
+   *
+   * Metadata is read on-chain once and cached; coins without on-chain
+   * metadata fall back to SUILEND_RESERVES, then to the type name.
+   */
+  private async getParsedReserveMap(): Promise<{
+    coinMetadataMap: Record<string, CoinMetadata>;
+    parsedReserveMap: Record<string, any>;
+  }> {
+    // Current reserves, with interest accrued to now
+    await this.marketRefresh.run();
+    const nowS = Math.floor(Date.now() / 1000);
+    const refreshedReserves = this.client.lendingMarket.reserves.map((r) =>
+      compoundReserveInterest(r, nowS),
     );
 
-    if (!obligation) return emptyPortfolio;
-
-    // Use reserves directly (already fetched by initialize)
-    const refreshedReserves = this.client.lendingMarket.reserves;
-
-    // Build Metadata Map (reusing logic specific to this adapter's cache)
     const allCoinTypes = new Set<string>();
     refreshedReserves.forEach((r) => {
       allCoinTypes.add(r.coinType.name);
@@ -422,10 +625,11 @@ export class SuilendAdapter implements ILendingProtocol {
     uniqueCoinTypes.forEach((ct) => {
       const normalized = normalizeStructTag(ct);
       if (!coinMetadataMap[normalized]) {
+        const known = getReserveByCoinType(normalizeCoinType(ct));
         coinMetadataMap[normalized] = {
-          decimals: 9,
+          decimals: known?.decimals ?? 9,
           name: ct,
-          symbol: ct.split("::").pop() ?? "UNK",
+          symbol: known?.symbol ?? ct.split("::").pop() ?? "UNK",
           description: "",
           iconUrl: "",
           id: "",
@@ -439,12 +643,49 @@ export class SuilendAdapter implements ILendingProtocol {
       parsedReserveMap[normalizeStructTag(parsed.coinType)] = parsed;
     });
 
-    console.log(
-      "SDK Available Reserves:",
-      Object.values(parsedReserveMap).map((r: any) => r.token.symbol),
+    return { coinMetadataMap, parsedReserveMap };
+  }
+
+  async getAccountPortfolio(
+    address: string,
+    obligationId?: string,
+  ): Promise<AccountPortfolio> {
+    this.ensureInitialized();
+
+    const cap = await this.getObligationCap(address, obligationId);
+
+    const emptyPortfolio: AccountPortfolio = {
+      protocol: LendingProtocol.Suilend,
+      address,
+      healthFactor: Infinity,
+      netValueUsd: 0,
+      totalCollateralUsd: 0,
+      totalDepositedUsd: 0,
+      totalDebtUsd: 0,
+      weightedBorrowsUsd: 0,
+      borrowLimitUsd: 0,
+      liquidationThresholdUsd: 0,
+      positions: [],
+      netApy: 0,
+      totalAnnualNetEarningsUsd: 0,
+    };
+
+    if (!cap) {
+      return emptyPortfolio;
+    }
+
+    const obligation = await SuilendClient.getObligation(
+      cap.obligationId,
+      [LENDING_MARKET_TYPE],
+      this.suiClient,
     );
 
+    if (!obligation) return emptyPortfolio;
+
+    const { parsedReserveMap } = await this.getParsedReserveMap();
+
     const parsedObligation = parseObligation(obligation, parsedReserveMap);
+    const value = await this.getValuation(parsedObligation);
 
     // --- USE CALCULATORS ---
     const metrics = calculatePortfolioMetrics(
@@ -471,7 +712,10 @@ export class SuilendAdapter implements ILendingProtocol {
         totalDepositedUsd,
         parsedReserveMap,
       );
-      const interestApy = d.reserve.depositAprPercent.div(100).toNumber();
+      const interestApy = toApy(
+        d.reserve.depositAprPercent.div(100).toNumber(),
+        "apr",
+      );
 
       // Liquidation Price
       const amountBig = new BigNumber(d.depositedAmount);
@@ -491,7 +735,9 @@ export class SuilendAdapter implements ILendingProtocol {
         amountRaw: d.depositedAmount
           .times(Math.pow(10, d.reserve.mintDecimals))
           .toFixed(0),
-        valueUsd: d.depositedAmountUsd.toNumber(),
+        decimals: d.reserve.mintDecimals,
+        amountKind: "underlying",
+        valueUsd: value(d.coinType, d.depositedAmount, d.depositedAmountUsd),
         apy: interestApy + rewardApyStats.totalRewardApy / 100,
         rewardsApy: rewardApyStats.totalRewardApy / 100,
         rewards: earnings,
@@ -518,52 +764,93 @@ export class SuilendAdapter implements ILendingProtocol {
         amountRaw: b.borrowedAmount
           .times(Math.pow(10, b.reserve.mintDecimals))
           .toFixed(0),
-        valueUsd: b.borrowedAmountUsd.toNumber(),
-        apy: b.reserve.borrowAprPercent.div(100).toNumber(),
+        decimals: b.reserve.mintDecimals,
+        amountKind: "underlying",
+        valueUsd: value(b.coinType, b.borrowedAmount, b.borrowedAmountUsd),
+        apy: toApy(b.reserve.borrowAprPercent.div(100).toNumber(), "apr"),
         rewards: earnings,
       });
     });
 
+    // USD totals follow the reported values; risk figures stay on the oracle
+    const sumUsd = (side: Position["side"]) =>
+      positions
+        .filter((p) => p.side === side)
+        .reduce((sum, p) => sum + p.valueUsd, 0);
+    const totalCollateralUsd = sumUsd("supply");
+    const totalDebtUsd = sumUsd("borrow");
+
     return {
       protocol: LendingProtocol.Suilend,
       address,
       healthFactor: metrics.healthFactor.toNumber(),
-      netValueUsd: metrics.netValue.toNumber(),
-      totalCollateralUsd: metrics.totalSupply.toNumber(),
-      totalDepositedUsd: metrics.totalSupply.toNumber(),
-      totalDebtUsd: metrics.totalBorrow.toNumber(),
+      netValueUsd: totalCollateralUsd - totalDebtUsd,
+      totalCollateralUsd,
+      totalDepositedUsd: totalCollateralUsd,
+      totalDebtUsd,
       weightedBorrowsUsd: parsedObligation.weightedBorrowsUsd.toNumber(),
       borrowLimitUsd: metrics.borrowLimit.toNumber(),
       liquidationThresholdUsd: metrics.liquidationThreshold.toNumber(),
       positions,
-      netApy: metrics.netApy.toNumber(),
+      netApy: metrics.netApy.div(100).toNumber(), // percent -> decimal
       totalAnnualNetEarningsUsd: metrics.totalAnnualNetEarnings.toNumber(),
     };
   }
 
   async getReserveInfo(coinType: string): Promise<ReserveInfo | undefined> {
-    const reserve = getReserveByCoinType(normalizeCoinType(coinType));
+    const normalized = normalizeCoinType(coinType);
+    const reserve = getReserveByCoinType(normalized);
     if (!reserve) return undefined;
 
+    // Risk parameters come from the on-chain reserve when loaded
+    if (this.initialized) await this.marketRefresh.run();
+    const onChain = this.initialized
+      ? (this.client.lendingMarket.reserves as any[]).find(
+          (r) => normalizeCoinType(r.coinType.name) === normalized,
+        )
+      : undefined;
+
     return {
       coinType: reserve.coinType,
       symbol: reserve.symbol,
       decimals: reserve.decimals,
       id: reserve.id,
+      openLtvPct: onChain
+        ? Number(onChain.config.element.openLtvPct)
+        : undefined,
+      closeLtvPct: onChain
+        ? Number(onChain.config.element.closeLtvPct)
+        : undefined,
+      borrowWeight: onChain
+        ? Number(onChain.config.element.borrowWeightBps) / 10000
+        : undefined,
+      price: onChain
+        ? Number(BigInt((onChain.price as any).value)) / 1e18
+        : undefined,
     };
   }
 
   /**
-   * Get obligation owner cap info
+   * Get obligation owner cap info (the first cap when obligationId is omitted)
    */
-  async getObligationCap(userAddress: string) {
+  async getObligationCap(userAddress: string, obligationId?: string) {
     this.ensureInitialized();
     const caps = await SuilendClient.getObligationOwnerCaps(
       userAddress,
       [LENDING_MARKET_TYPE],
       this.suiClient,
     );
-    return caps.length > 0 ? caps[0] : null;
+    if (obligationId === undefined) return caps.length > 0 ? caps[0] : null;
+
+    const cap = caps.find(
+      (c) =>
+        normalizeSuiObjectId(c.obligationId) ===
+        normalizeSuiObjectId(obligationId),
+    );
+    if (!cap) {
+      throw new Error(`Obligation ${obligationId} not owned by ${userAddress}`);
+    }
+    return cap;
   }
 
   /**
@@ -577,26 +864,23 @@ export class SuilendAdapter implements ILendingProtocol {
   async getMaxBorrowableAmount(
     address: string,
     coinType: string,
+    obligationId?: string,
   ): Promise<string> {
     this.ensureInitialized();
 
     // Check if user has obligation
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      address,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    if (caps.length === 0) return "0";
+    const cap = await this.getObligationCap(address, obligationId);
+    if (!cap) return "0";
 
     const obligation = await SuilendClient.getObligation(
-      caps[0].obligationId,
+      cap.obligationId,
       [LENDING_MARKET_TYPE],
       this.suiClient,
     );
 
     if (!obligation) return "0";
 
+    await this.marketRefresh.run();
     const oblAny = obligation as any;
     // Values are in USD (WAD)
     const totalCollateralValue =
@@ -613,7 +897,9 @@ export class SuilendAdapter implements ILendingProtocol {
       (r) => normalizeCoinType(r.coinType.name) === normalizeCoinType(coinType),
     );
 
-    const price = reserve ? Number(reserve.price) / 1e18 : 0;
+    const price = reserve
+      ? Number(BigInt((reserve.price as any).value)) / 1e18
+      : 0;
 
     if (price === 0) return "0";
 
@@ -624,25 +910,22 @@ export class SuilendAdapter implements ILendingProtocol {
   async getMaxWithdrawableAmount(
     address: string,
     coinType: string,
+    obligationId?: string,
   ): Promise<string> {
     this.ensureInitialized();
 
-    const caps = await SuilendClient.getObligationOwnerCaps(
-      address,
-      [LENDING_MARKET_TYPE],
-      this.suiClient,
-    );
-
-    if (caps.length === 0) return "0";
+    const cap = await this.getObligationCap(address, obligationId);
+    if (!cap) return "0";
 
     const obligation = await SuilendClient.getObligation(
-      caps[0].obligationId,
+      cap.obligationId,
       [LENDING_MARKET_TYPE],
       this.suiClient,
     );
 
     if (!obligation) return "0";
 
+    await this.marketRefresh.run();
     // Find deposit
     const deposit = (obligation.deposits || []).find(
       (d: any) =>
@@ -676,7 +959,7 @@ export class SuilendAdapter implements ILendingProtocol {
     const reserve = (this.client.lendingMarket.reserves as any[]).find(
       (r) => normalizeCoinType(r.coinType.name) === normalizeCoinType(coinType),
     );
-    const rate = reserve ? Number(reserve.cTokenExchangeRate) / 1e18 : 1;
+    const rate = reserve ? cTokenRatio(reserve).toNumber() : 1;
     const depositedAmount =
       (Number(depositedRaw) / Math.pow(10, decimals)) * rate;
 
@@ -697,7 +980,9 @@ export class SuilendAdapter implements ILendingProtocol {
     const safeValue = excessValue * 0.95;
 
     // Need price to convert Value -> Amount
-    const price = reserve ? Number(reserve.price) / 1e18 : 0;
+    const price = reserve
+      ? Number(BigInt((reserve.price as any).value)) / 1e18
+      : 0;
     if (price === 0) return "0";
 
     const maxWithdrawValueAmount = safeValue / price; // This is amount * LTV weight?
@@ -736,7 +1021,7 @@ export class SuilendAdapter implements ILendingProtocol {
     // DeltaAllowed = WithdrawAmount * Price * LTV.
     // WithdrawAmount = Excess / (Price * LTV).
 
-    const ltv = reserve ? Number(reserve.config.openLtvPct) / 100 : 0;
+    const ltv = reserve ? Number(reserve.config.element.openLtvPct) / 100 : 0;
     if (ltv === 0) return depositedAmount.toFixed(6).replace(/\.?0+$/, ""); // If LTV 0, doesn't affect borrow limit? Or implies 0 collateral value.
     // If LTV is 0, then this asset didn't contribute to borrow limit. So withdrawing it doesn't lower borrow limit.
     // So we can withdraw ALL of it? Yes.
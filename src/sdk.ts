@@ -8,34 +8,87 @@
 import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { Transaction } from "@mysten/sui/transactions";
-import { MetaAg, getTokenPrice } from "@7kprotocol/sdk-ts";
 
 import {
-  LendingProtocol,
+  ProtocolId,
   LeverageParams,
   DeleverageParams,
+  DeleverageTarget,
+  ReleverageParams,
+  ReleveragePreview,
+  RebalanceParams,
+  HealthFactorBand,
+  CollateralSwapParams,
+  DebtSwapParams,
+  AddCollateralParams,
+  MigratePositionParams,
   PositionInfo,
   StrategyResult,
   LeveragePreview,
+  LeverageLimits,
   SDKOptions,
   USDC_COIN_TYPE,
   DEFAULT_7K_PARTNER,
   MarketAsset,
   AccountPortfolio,
+  ObligationPortfolio,
 } from "./types";
 
 import { ILendingProtocol } from "./protocols/interface";
-import { SuilendAdapter } from "./protocols/suilend";
-import { NaviAdapter } from "./protocols/navi";
-import { ScallopFlashLoanClient } from "./lib/scallop";
+import {
+  ProtocolRegistry,
+  LendingProtocolFactory,
+} from "./protocols/registry";
+import { IFlashLoanProvider, ScallopFlashLoanProvider } from "./flash-loan";
+import { ISwapProvider, SevenKSwapProvider } from "./swap";
+import { IPriceSource, defaultPriceSource, getPrice } from "./price";
+import { PositionMonitor, PositionMonitorOptions } from "./monitor";
+import { ProtectionKeeper, ProtectionKeeperOptions } from "./keeper";
 import {
   buildLeverageTransaction as buildLeverageTx,
   calculateLeveragePreview as calcPreview,
+  calculateLeverageLimits,
 } from "./strategies/leverage";
 import {
   buildDeleverageTransaction as buildDeleverageTx,
   calculateDeleverageEstimate,
+  DeleverageBuildParams,
+  DeleveragePreview,
 } from "./strategies/deleverage";
+import {
+  buildReleverageTransaction as buildReleverageTx,
+  calculateReleveragePreview,
+} from "./strategies/relever";
+import {
+  buildRebalanceTransaction as buildRebalanceTx,
+  calculateRebalancePreview,
+  RebalanceBuildParams,
+  RebalancePlan,
+  RebalancePreview,
+} from "./strategies/rebalance";
+import {
+  buildCollateralSwapTransaction as buildCollateralSwapTx,
+  calculateCollateralSwapEstimate,
+  CollateralSwapBuildParams,
+  CollateralSwapEstimate,
+} from "./strategies/collateral-swap";
+import {
+  buildDebtSwapTransaction as buildDebtSwapTx,
+  calculateDebtSwapEstimate,
+  DebtSwapBuildParams,
+  DebtSwapEstimate,
+} from "./strategies/debt-swap";
+import {
+  buildAddCollateralTransaction as buildAddCollateralTx,
+  calculateAddCollateralAmount,
+  AddCollateralEstimate,
+} from "./strategies/add-collateral";
+import {
+  buildMigrationTransaction as buildMigrationTx,
+  calculateMigrationPreview,
+  MigrationBuildParams,
+  MigrationPreview,
+} from "./strategies/migrate";
 import { normalizeCoinType, parseUnits } from "./lib/utils";
 import { getReserveByCoinType, COIN_TYPES } from "./lib/suilend/const";
 
@@ -43,17 +96,128 @@ import { getReserveByCoinType, COIN_TYPES } from "./lib/suilend/const";
  * Browser-compatible Leverage Parameters (no dryRun - handled externally)
  */
 export interface BrowserLeverageParams {
-  protocol: LendingProtocol;
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
   depositAsset: string;
   depositAmount: string;
   multiplier: number;
+  /** Asset to borrow (defaults to USDC) */
+  borrowAsset?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
 }
 
 /**
  * Browser-compatible Deleverage Parameters
+ *
+ * Set one of the DeleverageTarget fields for a partial deleverage,
+ * otherwise the whole position is closed.
+ */
+export interface BrowserDeleverageParams extends DeleverageTarget {
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+}
+
+/**
+ * Browser-compatible Re-leverage Parameters
+ */
+export interface BrowserReleverageParams {
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  targetMultiplier: number;
+  /** Optional extra collateral from the wallet (human-readable) */
+  depositAmount?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+}
+
+/**
+ * Browser-compatible Rebalance Parameters
+ */
+export interface BrowserRebalanceParams extends HealthFactorBand {
+  protocol: ProtocolId;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+}
+
+/**
+ * Browser-compatible Collateral Swap Parameters
+ */
+export interface BrowserCollateralSwapParams {
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  /** New collateral asset (symbol or full coin type) */
+  toAsset: string;
+  /** Current collateral to swap (human-readable, defaults to all) */
+  amount?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+}
+
+/**
+ * Browser-compatible Debt Swap Parameters
+ */
+export interface BrowserDebtSwapParams {
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  /** New debt asset (symbol or full coin type) */
+  toAsset: string;
+  /** Current debt to refinance (human-readable, defaults to all) */
+  amount?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+}
+
+/**
+ * Browser-compatible Add Collateral Parameters
+ */
+export interface BrowserAddCollateralParams {
+  protocol: ProtocolId;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  /** Collateral asset (symbol or coin type, defaults to the primary one) */
+  asset?: string;
+  /** Amount to deposit from the wallet (human-readable) */
+  amount: string;
+}
+
+/**
+ * Browser-compatible Position Migration Parameters
  */
-export interface BrowserDeleverageParams {
-  protocol: LendingProtocol;
+export interface BrowserMigratePositionParams {
+  from: ProtocolId;
+  to: ProtocolId;
+  /** Obligation/account to migrate from (source default if omitted) */
+  sourceObligationId?: string;
+  /** Obligation/account to migrate into (target default if omitted) */
+  targetObligationId?: string;
+  /** Collateral asset on the target (defaults to the current one) */
+  toAsset?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
 }
 
 /**
@@ -83,14 +247,23 @@ export class DefiDashSDK {
   private suiClient!: SuiClient;
   private keypair?: Ed25519Keypair; // Optional for browser
   private _userAddress?: string; // For browser mode
-  private flashLoanClient!: ScallopFlashLoanClient;
-  private swapClient!: MetaAg;
-  private protocols: Map<LendingProtocol, ILendingProtocol> = new Map();
+  private flashLoanProvider!: IFlashLoanProvider;
+  private swapProvider!: ISwapProvider;
+  private registry: ProtocolRegistry;
+  private priceSource: IPriceSource;
   private initialized = false;
   private options: SDKOptions;
 
   constructor(options: SDKOptions = {}) {
     this.options = options;
+    this.priceSource = options.priceSource ?? defaultPriceSource;
+
+    this.registry = ProtocolRegistry.withDefaults();
+    if (options.protocols) {
+      for (const id of this.registry.ids()) {
+        if (!options.protocols.includes(id)) this.registry.unregister(id);
+      }
+    }
   }
 
   /**
@@ -125,24 +298,56 @@ export class DefiDashSDK {
       this._userAddress = keypairOrAddress.getPublicKey().toSuiAddress();
     }
 
-    // Initialize flash loan client
-    this.flashLoanClient = new ScallopFlashLoanClient();
-
-    // Initialize swap client
-    this.swapClient = new MetaAg({
-      partner: this.options.swapPartner || DEFAULT_7K_PARTNER,
-    });
+    // Initialize flash loan provider (Scallop unless overridden)
+    this.flashLoanProvider =
+      this.options.flashLoanProvider ?? new ScallopFlashLoanProvider();
+    await this.flashLoanProvider.initialize(suiClient);
+
+    // Initialize swap provider (7k unless overridden)
+    this.swapProvider =
+      this.options.swapProvider ??
+      new SevenKSwapProvider({
+        partner: this.options.swapPartner || DEFAULT_7K_PARTNER,
+      });
+
+    // Protocol adapters load on first use unless preloading is requested
+    this.registry.reset();
+    if (this.options.preloadProtocols) {
+      await Promise.all(
+        this.registry.ids().map(async (id) => {
+          try {
+            await this.registry.get(id, suiClient);
+          } catch (e) {
+            console.error(`Failed to preload ${id}`, e);
+          }
+        }),
+      );
+    }
 
-    // Initialize protocol adapters
-    const suilend = new SuilendAdapter();
-    await suilend.initialize(suiClient);
-    this.protocols.set(LendingProtocol.Suilend, suilend);
+    this.initialized = true;
+  }
 
-    const navi = new NaviAdapter();
-    await navi.initialize(suiClient);
-    this.protocols.set(LendingProtocol.Navi, navi);
+  /**
+   * Register a custom lending protocol adapter under an id
+   *
+   * The adapter is initialized on first use. Registering an existing id
+   * replaces it, so built-in adapters can be overridden too.
+   *
+   * @example
+   * ```typescript
+   * sdk.registerProtocol("my-lender", () => new MyLenderAdapter());
+   * await sdk.leverage({ protocol: "my-lender", ... });
+   * ```
+   */
+  registerProtocol(id: ProtocolId, factory: LendingProtocolFactory): void {
+    this.registry.register(id, factory);
+  }
 
-    this.initialized = true;
+  /**
+   * Ids of the enabled lending protocols
+   */
+  getProtocolIds(): ProtocolId[] {
+    return this.registry.ids();
   }
 
   private ensureInitialized() {
@@ -151,11 +356,11 @@ export class DefiDashSDK {
     }
   }
 
-  private getProtocol(protocol: LendingProtocol): ILendingProtocol {
-    const adapter = this.protocols.get(protocol);
-    if (!adapter) {
-      throw new Error(`Protocol ${protocol} not supported`);
-    }
+  private async getProtocol(protocol: ProtocolId): Promise<ILendingProtocol> {
+    const adapter = await this.registry.get(protocol, this.suiClient);
+    adapter.setPriceSource?.(
+      this.options.valuePositionsWithPriceSource ? this.priceSource : undefined,
+    );
     return adapter;
   }
 
@@ -220,7 +425,7 @@ export class DefiDashSDK {
   ): Promise<void> {
     this.ensureInitialized();
 
-    const protocol = this.getProtocol(params.protocol);
+    const protocol = await this.getProtocol(params.protocol);
     const coinType = this.resolveCoinType(params.depositAsset);
     const reserve = getReserveByCoinType(coinType);
     const decimals = reserve?.decimals || 8;
@@ -228,13 +433,20 @@ export class DefiDashSDK {
 
     await buildLeverageTx(tx, {
       protocol,
-      flashLoanClient: this.flashLoanClient,
-      swapClient: this.swapClient,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
       suiClient: this.suiClient,
       userAddress: this.userAddress,
+      obligationId: params.obligationId,
       depositCoinType: coinType,
       depositAmount,
       multiplier: params.multiplier,
+      borrowCoinType: params.borrowAsset
+        ? this.resolveCoinType(params.borrowAsset)
+        : undefined,
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
     });
   }
 
@@ -255,6 +467,7 @@ export class DefiDashSDK {
    *
    * await sdk.buildDeleverageTransaction(tx, {
    *   protocol: LendingProtocol.Suilend,
+   *   targetMultiplier: 1.5, // optional: omit to close the whole position
    * });
    *
    * await signAndExecute({ transaction: tx });
@@ -265,29 +478,225 @@ export class DefiDashSDK {
     params: BrowserDeleverageParams,
   ): Promise<void> {
     this.ensureInitialized();
+    await buildDeleverageTx(tx, await this.getDeleverageBuildParams(params));
+  }
+
+  /**
+   * Build re-leverage transaction (Browser-compatible)
+   *
+   * Levers up the existing position to a higher multiplier using its
+   * current equity. No new capital is required (depositAmount may be omitted).
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Re-leverage parameters
+   *
+   * @example
+   * ```typescript
+   * await sdk.buildReleverageTransaction(tx, {
+   *   protocol: LendingProtocol.Suilend,
+   *   targetMultiplier: 2.5,
+   * });
+   * ```
+   */
+  async buildReleverageTransaction(
+    tx: Transaction,
+    params: BrowserReleverageParams,
+  ): Promise<void> {
+    this.ensureInitialized();
 
-    const protocol = this.getProtocol(params.protocol);
+    const protocol = await this.getProtocol(params.protocol);
+    const position = await this.getLivePosition(
+      protocol,
+      params.obligationId,
+    );
 
-    // Get current position
-    const position = await protocol.getPosition(this.userAddress);
-    if (!position) {
-      throw new Error("No position found to deleverage");
-    }
+    await buildReleverageTx(tx, {
+      protocol,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      obligationId: params.obligationId,
+      position,
+      targetMultiplier: params.targetMultiplier,
+      depositAmount: parseUnits(
+        params.depositAmount || "0",
+        position.collateral.decimals,
+      ),
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+    });
+  }
 
-    if (position.debt.amount === 0n) {
-      throw new Error("No debt to repay. Use withdraw instead.");
+  /**
+   * Build rebalance transaction (Browser-compatible)
+   *
+   * Adds or removes leverage so the health factor returns to the band.
+   * Adds no commands when the health factor is already inside the band.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Rebalance parameters
+   * @returns The plan that was built (check `action` for "none")
+   *
+   * @example
+   * ```typescript
+   * const plan = await sdk.buildRebalanceTransaction(tx, {
+   *   protocol: LendingProtocol.Suilend,
+   *   minHealthFactor: 1.4,
+   *   maxHealthFactor: 1.8,
+   * });
+   * if (plan.action !== "none") await signAndExecute({ transaction: tx });
+   * ```
+   */
+  async buildRebalanceTransaction(
+    tx: Transaction,
+    params: BrowserRebalanceParams,
+  ): Promise<RebalancePlan> {
+    this.ensureInitialized();
+    return buildRebalanceTx(tx, await this.getRebalanceBuildParams(params));
+  }
+
+  /**
+   * Build collateral swap transaction (Browser-compatible)
+   *
+   * Replaces the position's collateral with another asset in one PTB,
+   * keeping the debt (plus flash loan fee) in place.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Collateral swap parameters
+   *
+   * @example
+   * ```typescript
+   * await sdk.buildCollateralSwapTransaction(tx, {
+   *   protocol: LendingProtocol.Suilend,
+   *   toAsset: 'SUI',
+   * });
+   * ```
+   */
+  async buildCollateralSwapTransaction(
+    tx: Transaction,
+    params: BrowserCollateralSwapParams,
+  ): Promise<void> {
+    this.ensureInitialized();
+    await buildCollateralSwapTx(
+      tx,
+      await this.getCollateralSwapBuildParams(params),
+    );
+  }
+
+  /**
+   * Build debt swap transaction (Browser-compatible)
+   *
+   * Refinances the position's debt into another asset in one PTB.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Debt swap parameters
+   *
+   * @example
+   * ```typescript
+   * await sdk.buildDebtSwapTransaction(tx, {
+   *   protocol: LendingProtocol.Suilend,
+   *   toAsset: 'SUI',
+   * });
+   * ```
+   */
+  async buildDebtSwapTransaction(
+    tx: Transaction,
+    params: BrowserDebtSwapParams,
+  ): Promise<void> {
+    this.ensureInitialized();
+    await buildDebtSwapTx(tx, await this.getDebtSwapBuildParams(params));
+  }
+
+  /**
+   * Build add-collateral transaction (Browser-compatible)
+   *
+   * Deposits collateral from the wallet into the existing position.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Add collateral parameters
+   *
+   * @example
+   * ```typescript
+   * await sdk.buildAddCollateralTransaction(tx, {
+   *   protocol: LendingProtocol.Suilend,
+   *   amount: '10',
+   * });
+   * ```
+   */
+  async buildAddCollateralTransaction(
+    tx: Transaction,
+    params: BrowserAddCollateralParams,
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    const protocol = await this.getProtocol(params.protocol);
+    const position = await this.getLivePosition(
+      protocol,
+      params.obligationId,
+    );
+    const coinType = params.asset
+      ? this.resolveCoinType(params.asset)
+      : normalizeCoinType(position.collateral.coinType);
+    const reserve = await protocol.getReserveInfo(coinType);
+    if (!reserve) {
+      throw new Error(`${coinType} is not a ${params.protocol} reserve`);
     }
 
-    await buildDeleverageTx(tx, {
+    await buildAddCollateralTx(tx, {
       protocol,
-      flashLoanClient: this.flashLoanClient,
-      swapClient: this.swapClient,
       suiClient: this.suiClient,
       userAddress: this.userAddress,
-      position,
+      obligationId: params.obligationId,
+      coinType,
+      amount: parseUnits(params.amount, reserve.decimals),
     });
   }
 
+  /**
+   * Build position migration transaction (Browser-compatible)
+   *
+   * Moves the position from one protocol to another in one PTB.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Migration parameters
+   *
+   * @example
+   * ```typescript
+   * await sdk.buildMigratePositionTransaction(tx, {
+   *   from: LendingProtocol.Suilend,
+   *   to: LendingProtocol.Navi,
+   * });
+   * ```
+   */
+  async buildMigratePositionTransaction(
+    tx: Transaction,
+    params: BrowserMigratePositionParams,
+  ): Promise<void> {
+    this.ensureInitialized();
+    await buildMigrationTx(tx, await this.getMigrationBuildParams(params));
+  }
+
+  /**
+   * Build obligation creation transaction (Browser-compatible)
+   *
+   * Creates a fresh obligation (Suilend) or account (Navi) and sends its
+   * owner cap to the user. Run it on its own, then pass the new id from
+   * getObligations as obligationId to start a separate strategy there.
+   *
+   * @param tx - Transaction to add commands to
+   * @param params - Protocol to open the obligation on
+   */
+  async buildCreateObligationTransaction(
+    tx: Transaction,
+    params: { protocol: ProtocolId },
+  ): Promise<void> {
+    this.ensureInitialized();
+    const protocol = await this.getProtocol(params.protocol);
+    await protocol.createObligation(tx, this.userAddress);
+  }
+
   // ============================================================================
   // Node.js Strategy Methods (with execution)
   // ============================================================================
@@ -366,98 +775,498 @@ export class DefiDashSDK {
     }
   }
 
-  // ============================================================================
-  // Position Methods
-  // ============================================================================
-
-  /**
-   * Get current lending position
-   */
-  async getPosition(protocol: LendingProtocol): Promise<PositionInfo | null> {
-    this.ensureInitialized();
-    return this.getProtocol(protocol).getPosition(this.userAddress);
-  }
-
-  /**
-   * Check if user has a position on specified protocol
-   */
-  async hasPosition(protocol: LendingProtocol): Promise<boolean> {
-    this.ensureInitialized();
-    return this.getProtocol(protocol).hasPosition(this.userAddress);
-  }
-
   /**
-   * Get max borrowable amount for an asset
+   * Execute re-leverage strategy (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildReleverageTransaction instead.
    */
-  async getMaxBorrowable(
-    protocol: LendingProtocol,
-    coinType: string,
-  ): Promise<string> {
+  async releverage(params: ReleverageParams): Promise<StrategyResult> {
     this.ensureInitialized();
-    return this.getProtocol(protocol).getMaxBorrowableAmount(
-      this.userAddress,
-      this.resolveCoinType(coinType),
-    );
-  }
 
-  /**
-   * Get max withdrawable amount for an asset
-   */
-  async getMaxWithdrawable(
-    protocol: LendingProtocol,
-    coinType: string,
-  ): Promise<string> {
-    this.ensureInitialized();
-    return this.getProtocol(protocol).getMaxWithdrawableAmount(
-      this.userAddress,
-      this.resolveCoinType(coinType),
-    );
-  }
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildReleverageTransaction for browser.",
+      };
+    }
 
-  // ============================================================================
-  // Aggregation Methods
-  // ============================================================================
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
 
-  /**
-   * Get aggregated market data from all supported protocols
-   */
-  async getAggregatedMarkets(): Promise<Record<string, MarketAsset[]>> {
-    this.ensureInitialized();
-    const result: Record<string, MarketAsset[]> = {};
-    const protocols = [LendingProtocol.Suilend, LendingProtocol.Navi];
+    try {
+      await this.buildReleverageTransaction(tx, params);
 
-    await Promise.all(
-      protocols.map(async (p) => {
-        try {
-          const adapter = this.protocols.get(p);
-          if (adapter) {
-            result[p] = await adapter.getMarkets();
-          }
-        } catch (e) {
-          console.error(`Failed to fetch markets for ${p}`, e);
-          result[p] = [];
-        }
-      }),
-    );
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
 
-    return result;
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
   }
 
   /**
-   * Get aggregated portfolio data from all supported protocols
+   * Execute rebalance strategy (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildRebalanceTransaction instead.
+   * Returns success without a transaction when no rebalance is needed.
    */
-  async getAggregatedPortfolio(): Promise<AccountPortfolio[]> {
+  async rebalance(params: RebalanceParams): Promise<StrategyResult> {
     this.ensureInitialized();
-    const protocols = [LendingProtocol.Suilend, LendingProtocol.Navi];
-    const address = this.userAddress;
 
-    const portfolios = await Promise.all(
-      protocols.map(async (p) => {
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildRebalanceTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      const plan = await this.buildRebalanceTransaction(tx, params);
+
+      if (plan.action === "none") {
+        return { success: true };
+      }
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute collateral swap strategy (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildCollateralSwapTransaction instead.
+   */
+  async swapCollateral(params: CollateralSwapParams): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildCollateralSwapTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      await this.buildCollateralSwapTransaction(tx, params);
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute debt swap strategy (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildDebtSwapTransaction instead.
+   */
+  async swapDebt(params: DebtSwapParams): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildDebtSwapTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      await this.buildDebtSwapTransaction(tx, params);
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute add-collateral (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildAddCollateralTransaction instead.
+   */
+  async addCollateral(params: AddCollateralParams): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildAddCollateralTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      await this.buildAddCollateralTransaction(tx, params);
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Execute position migration (Node.js only)
+   *
+   * Requires SDK to be initialized with keypair.
+   * For browser usage, use buildMigratePositionTransaction instead.
+   */
+  async migratePosition(
+    params: MigratePositionParams,
+  ): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildMigratePositionTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      await this.buildMigratePositionTransaction(tx, params);
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      return this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Create a fresh obligation/account (Node.js only)
+   *
+   * On execution, the result carries the new obligationId.
+   * For browser usage, use buildCreateObligationTransaction instead.
+   */
+  async createObligation(params: {
+    protocol: ProtocolId;
+    dryRun?: boolean;
+  }): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    if (!this.keypair) {
+      return {
+        success: false,
+        error:
+          "Keypair required for execution. Use buildCreateObligationTransaction for browser.",
+      };
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.userAddress);
+    tx.setGasBudget(100_000_000);
+
+    try {
+      await this.buildCreateObligationTransaction(tx, params);
+
+      if (params.dryRun) {
+        return this.dryRun(tx);
+      }
+
+      const adapter = await this.getProtocol(params.protocol);
+      const before = await adapter.getObligations(this.userAddress);
+      const result = await this.execute(tx);
+      if (!result.success) return result;
+
+      await this.suiClient.waitForTransaction({ digest: result.txDigest! });
+      const after = await adapter.getObligations(this.userAddress);
+      const created = after.find((o) => !before.some((b) => b.id === o.id));
+      return { ...result, obligationId: created?.id };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Dry-run an already built transaction
+   *
+   * Works with an address-only (browser) initialization. On success,
+   * gasUsed is the net gas (computation + storage - rebate) in MIST.
+   */
+  async simulateTransaction(tx: Transaction): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.suiClient.dryRunTransactionBlock({
+        transactionBlock: await tx.build({ client: this.suiClient }),
+      });
+      if (result.effects.status.status !== "success") {
+        return {
+          success: false,
+          error: result.effects.status.error || "Dry run failed",
+        };
+      }
+
+      const { computationCost, storageCost, storageRebate } =
+        result.effects.gasUsed;
+      return {
+        success: true,
+        gasUsed:
+          BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  /**
+   * Sign and execute an already built transaction (Node.js only)
+   *
+   * Pairs with simulateTransaction to submit exactly what was dry-run.
+   */
+  async executeTransaction(tx: Transaction): Promise<StrategyResult> {
+    this.ensureInitialized();
+
+    try {
+      return await this.execute(tx);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error),
+      };
+    }
+  }
+
+  // ============================================================================
+  // Position Methods
+  // ============================================================================
+
+  /**
+   * Get current lending position
+   *
+   * @param obligationId - Obligation/account to read (protocol default if
+   *   omitted)
+   */
+  async getPosition(
+    protocol: ProtocolId,
+    obligationId?: string,
+  ): Promise<PositionInfo | null> {
+    this.ensureInitialized();
+    const adapter = await this.getProtocol(protocol);
+    return adapter.getPosition(
+      this.userAddress,
+      obligationId,
+    );
+  }
+
+  /**
+   * Check if user has a position on specified protocol
+   */
+  async hasPosition(
+    protocol: ProtocolId,
+    obligationId?: string,
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    const adapter = await this.getProtocol(protocol);
+    return adapter.hasPosition(
+      this.userAddress,
+      obligationId,
+    );
+  }
+
+  /**
+   * Get max borrowable amount for an asset
+   */
+  async getMaxBorrowable(
+    protocol: ProtocolId,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string> {
+    this.ensureInitialized();
+    const adapter = await this.getProtocol(protocol);
+    return adapter.getMaxBorrowableAmount(
+      this.userAddress,
+      this.resolveCoinType(coinType),
+      obligationId,
+    );
+  }
+
+  /**
+   * Get max withdrawable amount for an asset
+   */
+  async getMaxWithdrawable(
+    protocol: ProtocolId,
+    coinType: string,
+    obligationId?: string,
+  ): Promise<string> {
+    this.ensureInitialized();
+    const adapter = await this.getProtocol(protocol);
+    return adapter.getMaxWithdrawableAmount(
+      this.userAddress,
+      this.resolveCoinType(coinType),
+      obligationId,
+    );
+  }
+
+  /**
+   * Get multiplier limits for an asset on every enabled protocol
+   *
+   * Liquidity caps are only expressed as multipliers when depositAmount is
+   * given. Protocols that fail to load or do not list the asset are omitted.
+   */
+  async getLeverageLimits(
+    asset: string,
+    options: {
+      borrowAsset?: string;
+      depositAmount?: string;
+      safetyBuffer?: number;
+    } = {},
+  ): Promise<Record<string, LeverageLimits>> {
+    this.ensureInitialized();
+    const coinType = this.resolveCoinType(asset);
+    const result: Record<string, LeverageLimits> = {};
+
+    await Promise.all(
+      this.registry.ids().map(async (p) => {
         try {
-          const adapter = this.protocols.get(p);
-          if (adapter) {
-            return await adapter.getAccountPortfolio(address);
+          const adapter = await this.getProtocol(p);
+          // Deposit decimals come from the protocol's own reserve
+          let depositAmount: bigint | undefined;
+          if (options.depositAmount) {
+            const reserve = await adapter.getReserveInfo(coinType);
+            if (!reserve) {
+              throw new Error(`${coinType} is not a ${p} reserve`);
+            }
+            depositAmount = parseUnits(options.depositAmount, reserve.decimals);
           }
+          result[p] = await calculateLeverageLimits({
+            protocol: adapter,
+            flashLoanProvider: this.flashLoanProvider,
+            priceSource: this.priceSource,
+            depositCoinType: coinType,
+            borrowCoinType: options.borrowAsset
+              ? this.resolveCoinType(options.borrowAsset)
+              : undefined,
+            depositAmount,
+            safetyBuffer: options.safetyBuffer,
+          });
+        } catch (e) {
+          console.error(`Failed to fetch leverage limits for ${p}`, e);
+        }
+      }),
+    );
+
+    return result;
+  }
+
+  // ============================================================================
+  // Aggregation Methods
+  // ============================================================================
+
+  /**
+   * Get aggregated market data from all enabled protocols
+   */
+  async getAggregatedMarkets(): Promise<Record<string, MarketAsset[]>> {
+    this.ensureInitialized();
+    const result: Record<string, MarketAsset[]> = {};
+    const protocols = this.registry.ids();
+
+    await Promise.all(
+      protocols.map(async (p) => {
+        try {
+          const adapter = await this.getProtocol(p);
+          result[p] = await adapter.getMarkets();
+        } catch (e) {
+          console.error(`Failed to fetch markets for ${p}`, e);
+          result[p] = [];
+        }
+      }),
+    );
+
+    return result;
+  }
+
+  /**
+   * Get aggregated portfolio data from all enabled protocols
+   */
+  async getAggregatedPortfolio(): Promise<AccountPortfolio[]> {
+    this.ensureInitialized();
+    const protocols = this.registry.ids();
+    const address = this.userAddress;
+
+    const portfolios = await Promise.all(
+      protocols.map(async (p) => {
+        try {
+          const adapter = await this.getProtocol(p);
+          return await adapter.getAccountPortfolio(address);
         } catch (e) {
           console.error(`Failed to fetch portfolio for ${p}`, e);
         }
@@ -477,6 +1286,85 @@ export class DefiDashSDK {
     return portfolios;
   }
 
+  /**
+   * Create a monitor that polls the enabled protocols
+   *
+   * Watches the SDK wallet unless addresses are given. Call start() on
+   * the result to begin polling.
+   */
+  createPositionMonitor(
+    options: Partial<
+      Omit<PositionMonitorOptions, "getProtocol">
+    > = {},
+  ): PositionMonitor {
+    this.ensureInitialized();
+    return new PositionMonitor({
+      ...options,
+      addresses: options.addresses ?? [this.userAddress],
+      protocols: options.protocols ?? this.registry.ids(),
+      getProtocol: (id) => this.getProtocol(id),
+    });
+  }
+
+  /**
+   * Create a keeper that protects the wallet's positions automatically
+   *
+   * Below triggerHealthFactor it deleverages or adds collateral (per
+   * options.strategy), dry-running first and journaling every action.
+   * Requires SDK to be initialized with keypair. Call start() on the
+   * result to begin.
+   */
+  createKeeper(options: ProtectionKeeperOptions): ProtectionKeeper {
+    this.ensureInitialized();
+    if (!this.keypair) {
+      throw new Error("Keypair required for the keeper to execute actions");
+    }
+    return new ProtectionKeeper(this, options);
+  }
+
+  /**
+   * List the wallet's obligations/accounts with a portfolio for each
+   *
+   * @param protocol - Limit to one protocol (defaults to all enabled)
+   * @param options.throwOnError - Reject when a protocol fails instead of
+   *   logging it and returning no obligations for it
+   */
+  async getObligations(
+    protocol?: ProtocolId,
+    options: { throwOnError?: boolean } = {},
+  ): Promise<ObligationPortfolio[]> {
+    this.ensureInitialized();
+    const protocols = protocol ? [protocol] : this.registry.ids();
+    const address = this.userAddress;
+
+    const results = await Promise.all(
+      protocols.map(async (p) => {
+        try {
+          const adapter = await this.getProtocol(p);
+          const obligations = await adapter.getObligations(address);
+          return await Promise.all(
+            obligations.map(async (obligation) => ({
+              protocol: p,
+              obligationId: obligation.id,
+              capId: obligation.capId,
+              isDefault: obligation.isDefault,
+              portfolio: await adapter.getAccountPortfolio(
+                address,
+                obligation.id,
+              ),
+            })),
+          );
+        } catch (e) {
+          if (options.throwOnError) throw e;
+          console.error(`Failed to fetch obligations for ${p}`, e);
+          return [];
+        }
+      }),
+    );
+
+    return results.flat();
+  }
+
   // ============================================================================
   // Preview Methods
   // ============================================================================
@@ -485,19 +1373,201 @@ export class DefiDashSDK {
    * Preview leverage position before execution
    */
   async previewLeverage(params: {
+    protocol: ProtocolId;
     depositAsset: string;
     depositAmount: string;
     multiplier: number;
+    borrowAsset?: string;
+    slippageBps?: number;
   }): Promise<LeveragePreview> {
+    this.ensureInitialized();
+
     const coinType = this.resolveCoinType(params.depositAsset);
     const reserve = getReserveByCoinType(coinType);
     const decimals = reserve?.decimals || 8;
     const depositAmount = parseUnits(params.depositAmount, decimals);
 
     return calcPreview({
+      protocol: await this.getProtocol(params.protocol),
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
       depositCoinType: coinType,
       depositAmount,
       multiplier: params.multiplier,
+      borrowCoinType: params.borrowAsset
+        ? this.resolveCoinType(params.borrowAsset)
+        : undefined,
+      slippageBps: params.slippageBps,
+    });
+  }
+
+  /**
+   * Preview deleverage (flash loan, swap, cash-out and gas) before execution
+   *
+   * Works with an address-only (browser) initialization: gas is estimated
+   * with an unsigned dry run.
+   *
+   * @param options.estimateGas - Build and dry-run for a gas figure
+   *   (default true); skip it when simulating the transaction yourself
+   */
+  async previewDeleverage(
+    params: BrowserDeleverageParams,
+    options: { estimateGas?: boolean } = {},
+  ): Promise<DeleveragePreview> {
+    this.ensureInitialized();
+
+    const buildParams = await this.getDeleverageBuildParams(params);
+    const estimate = await calculateDeleverageEstimate(buildParams);
+    const { collateral, debt } = buildParams.position;
+
+    // Preview stays useful without a gas figure
+    let estimatedGas: bigint | null = null;
+    let estimatedGasError: string | undefined;
+    if (options.estimateGas !== false) {
+      const tx = new Transaction();
+      tx.setSender(this.userAddress);
+      tx.setGasBudget(100_000_000);
+      try {
+        await buildDeleverageTx(tx, buildParams);
+        const simulation = await this.simulateTransaction(tx);
+        estimatedGas = simulation.success ? (simulation.gasUsed ?? null) : null;
+        estimatedGasError = simulation.error;
+      } catch (error: any) {
+        estimatedGasError = error.message || String(error);
+      }
+    }
+
+    return {
+      ...estimate,
+      collateralCoinType: collateral.coinType,
+      collateralSymbol: collateral.symbol,
+      collateralDecimals: collateral.decimals,
+      debtCoinType: debt.coinType,
+      debtSymbol: debt.symbol,
+      debtDecimals: debt.decimals,
+      estimatedGas,
+      estimatedGasError,
+    };
+  }
+
+  /**
+   * Preview the wallet collateral needed to reach a health factor
+   */
+  async previewAddCollateral(params: {
+    protocol: ProtocolId;
+    obligationId?: string;
+    targetHealthFactor: number;
+    /** Collateral to top up (defaults to the primary one) */
+    asset?: string;
+  }): Promise<AddCollateralEstimate> {
+    this.ensureInitialized();
+
+    const protocol = await this.getProtocol(params.protocol);
+    const [position, portfolio] = await Promise.all([
+      this.getLivePosition(protocol, params.obligationId),
+      protocol.getAccountPortfolio(this.userAddress, params.obligationId),
+    ]);
+
+    return calculateAddCollateralAmount({
+      position,
+      portfolio,
+      targetHealthFactor: params.targetHealthFactor,
+      coinType: params.asset ? this.resolveCoinType(params.asset) : undefined,
+    });
+  }
+
+  /**
+   * Preview re-leveraging the existing position before execution
+   */
+  async previewReleverage(params: {
+    protocol: ProtocolId;
+    obligationId?: string;
+    targetMultiplier: number;
+    depositAmount?: string;
+  }): Promise<ReleveragePreview> {
+    this.ensureInitialized();
+
+    const protocol = await this.getProtocol(params.protocol);
+    const position = await this.getLivePosition(protocol, params.obligationId);
+
+    return calculateReleveragePreview({
+      protocol,
+      position,
+      targetMultiplier: params.targetMultiplier,
+      depositAmount: parseUnits(
+        params.depositAmount || "0",
+        position.collateral.decimals,
+      ),
+      priceSource: this.priceSource,
+    });
+  }
+
+  /**
+   * Preview rebalance (chosen action and its estimate) before execution
+   */
+  async previewRebalance(
+    params: BrowserRebalanceParams,
+  ): Promise<RebalancePreview> {
+    this.ensureInitialized();
+    return calculateRebalancePreview(
+      await this.getRebalanceBuildParams(params),
+    );
+  }
+
+  /**
+   * Preview collateral swap before execution
+   */
+  async previewCollateralSwap(
+    params: BrowserCollateralSwapParams,
+  ): Promise<CollateralSwapEstimate> {
+    this.ensureInitialized();
+    return calculateCollateralSwapEstimate(
+      await this.getCollateralSwapBuildParams(params),
+    );
+  }
+
+  /**
+   * Preview debt swap before execution
+   */
+  async previewDebtSwap(
+    params: BrowserDebtSwapParams,
+  ): Promise<DebtSwapEstimate> {
+    this.ensureInitialized();
+    return calculateDebtSwapEstimate(
+      await this.getDebtSwapBuildParams(params),
+    );
+  }
+
+  /**
+   * Preview position migration, including the net APY delta between
+   * the source and target protocols
+   */
+  async previewMigratePosition(
+    params: BrowserMigratePositionParams,
+  ): Promise<MigrationPreview> {
+    this.ensureInitialized();
+
+    const buildParams = await this.getMigrationBuildParams(params);
+    const [sourcePortfolio, sourceMarkets, targetPortfolio, targetMarkets] =
+      await Promise.all([
+        buildParams.source.getAccountPortfolio(
+          this.userAddress,
+          params.sourceObligationId,
+        ),
+        buildParams.source.getMarkets(),
+        buildParams.target.getAccountPortfolio(
+          this.userAddress,
+          params.targetObligationId,
+        ),
+        buildParams.target.getMarkets(),
+      ]);
+
+    return calculateMigrationPreview({
+      ...buildParams,
+      sourcePortfolio,
+      sourceMarkets,
+      targetPortfolio,
+      targetMarkets,
     });
   }
 
@@ -506,11 +1576,18 @@ export class DefiDashSDK {
   // ============================================================================
 
   /**
-   * Get token price in USD
+   * Get token price in USD from the configured price source
    */
   async getTokenPrice(asset: string): Promise<number> {
     const coinType = this.resolveCoinType(asset);
-    return getTokenPrice(coinType);
+    return getPrice(this.priceSource, coinType);
+  }
+
+  /**
+   * Price source used for valuations and price-impact checks
+   */
+  getPriceSource(): IPriceSource {
+    return this.priceSource;
   }
 
   /**
@@ -532,6 +1609,173 @@ export class DefiDashSDK {
   // Internal Methods
   // ============================================================================
 
+  private async getRebalanceBuildParams(
+    params: BrowserRebalanceParams,
+  ): Promise<RebalanceBuildParams> {
+    const protocol = await this.getProtocol(params.protocol);
+    const [position, portfolio] = await Promise.all([
+      this.getLivePosition(protocol, params.obligationId),
+      protocol.getAccountPortfolio(this.userAddress, params.obligationId),
+    ]);
+
+    return {
+      protocol,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      obligationId: params.obligationId,
+      position,
+      portfolio,
+      band: {
+        minHealthFactor: params.minHealthFactor,
+        maxHealthFactor: params.maxHealthFactor,
+        targetHealthFactor: params.targetHealthFactor,
+      },
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+    };
+  }
+
+  private async getCollateralSwapBuildParams(
+    params: BrowserCollateralSwapParams,
+  ): Promise<CollateralSwapBuildParams> {
+    const protocol = await this.getProtocol(params.protocol);
+    const position = await this.getLivePosition(
+      protocol,
+      params.obligationId,
+    );
+
+    return {
+      protocol,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      obligationId: params.obligationId,
+      position,
+      toCoinType: this.resolveCoinType(params.toAsset),
+      amount: params.amount
+        ? parseUnits(params.amount, position.collateral.decimals)
+        : undefined,
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+    };
+  }
+
+  private async getDebtSwapBuildParams(
+    params: BrowserDebtSwapParams,
+  ): Promise<DebtSwapBuildParams> {
+    const protocol = await this.getProtocol(params.protocol);
+    const position = await this.getLivePosition(
+      protocol,
+      params.obligationId,
+    );
+
+    return {
+      protocol,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      obligationId: params.obligationId,
+      position,
+      toCoinType: this.resolveCoinType(params.toAsset),
+      amount: params.amount
+        ? parseUnits(params.amount, position.debt.decimals)
+        : undefined,
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+    };
+  }
+
+  private async getMigrationBuildParams(
+    params: BrowserMigratePositionParams,
+  ): Promise<MigrationBuildParams> {
+    if (params.from === params.to) {
+      throw new Error("Source and target protocols must differ");
+    }
+
+    const source = await this.getProtocol(params.from);
+    const target = await this.getProtocol(params.to);
+    const position = await this.getLivePosition(
+      source,
+      params.sourceObligationId,
+    );
+
+    return {
+      source,
+      target,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      sourceObligationId: params.sourceObligationId,
+      targetObligationId: params.targetObligationId,
+      position,
+      targetCoinType: params.toAsset
+        ? this.resolveCoinType(params.toAsset)
+        : undefined,
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+      priceSource: this.priceSource,
+    };
+  }
+
+  private async getDeleverageBuildParams(
+    params: BrowserDeleverageParams,
+  ): Promise<DeleverageBuildParams> {
+    const protocol = await this.getProtocol(params.protocol);
+
+    // Get current position
+    const position = await protocol.getPosition(
+      this.userAddress,
+      params.obligationId,
+    );
+    if (!position) {
+      throw new Error("No position found to deleverage");
+    }
+
+    if (position.debt.amount === 0n) {
+      throw new Error("No debt to repay. Use withdraw instead.");
+    }
+
+    return {
+      protocol,
+      flashLoanProvider: this.flashLoanProvider,
+      swapProvider: this.swapProvider,
+      priceSource: this.priceSource,
+      suiClient: this.suiClient,
+      userAddress: this.userAddress,
+      obligationId: params.obligationId,
+      position,
+      target: {
+        targetMultiplier: params.targetMultiplier,
+        targetLtvPercent: params.targetLtvPercent,
+        repayAmount: params.repayAmount,
+      },
+      slippageBps: params.slippageBps,
+      maxPriceImpactBps: params.maxPriceImpactBps,
+    };
+  }
+
+  private async getLivePosition(
+    protocol: ILendingProtocol,
+    obligationId?: string,
+  ): Promise<PositionInfo> {
+    const position = await protocol.getPosition(
+      this.userAddress,
+      obligationId,
+    );
+    if (!position) {
+      throw new Error(`No position found on ${protocol.name}`);
+    }
+    return position;
+  }
+
   private async dryRun(tx: Transaction): Promise<StrategyResult> {
     const result = await this.suiClient.dryRunTransactionBlock({
       transactionBlock: await tx.build({ client: this.suiClient }),
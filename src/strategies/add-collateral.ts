@@ -0,0 +1,121 @@
+/**
+ * DeFi Dash SDK - Add Collateral Strategy Builder
+ *
+ * Tops up an existing position with collateral from the wallet to lift its
+ * health factor without touching the debt
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "../protocols/interface";
+import { normalizeCoinType, toRawAmount } from "../lib/utils";
+import { splitUserCoin } from "./leverage";
+import { AccountPortfolio, PositionInfo } from "../types";
+
+export interface AddCollateralBuildParams {
+  protocol: ILendingProtocol;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  coinType: string;
+  /** Collateral to deposit from the wallet (raw units) */
+  amount: bigint;
+}
+
+export interface AddCollateralEstimate {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  /** Collateral needed to reach the target (raw units) */
+  amount: bigint;
+  valueUsd: number;
+  currentHealthFactor: number;
+  targetHealthFactor: number;
+}
+
+/**
+ * Collateral to deposit so the health factor reaches a target
+ *
+ * Adding V USD of an asset with liquidation threshold t raises the
+ * threshold value by V * t, so:
+ *   V = (h * WeightedBorrows - LiquidationThreshold) / t
+ *
+ * @param coinType - Collateral to top up (defaults to the primary one)
+ */
+export function calculateAddCollateralAmount(params: {
+  position: PositionInfo;
+  portfolio: AccountPortfolio;
+  targetHealthFactor: number;
+  coinType?: string;
+}): AddCollateralEstimate {
+  const { position, portfolio, targetHealthFactor } = params;
+
+  const coinType = normalizeCoinType(
+    params.coinType ?? position.collateral.coinType,
+  );
+  const asset = position.collaterals.find(
+    (c) => normalizeCoinType(c.coinType) === coinType,
+  );
+  if (!asset || asset.amount === 0n) {
+    throw new Error(`Position has no ${coinType} collateral to top up`);
+  }
+
+  const thresholdUsd = portfolio.liquidationThresholdUsd ?? 0;
+  const weightedBorrowsUsd =
+    portfolio.weightedBorrowsUsd ?? portfolio.totalDebtUsd;
+  const liqThreshold =
+    asset.closeLtvPct !== undefined
+      ? asset.closeLtvPct / 100
+      : thresholdUsd / portfolio.totalCollateralUsd;
+  if (!(liqThreshold > 0)) {
+    throw new Error(`${asset.symbol} has no liquidation threshold`);
+  }
+
+  const valueUsd = Math.max(
+    0,
+    (targetHealthFactor * weightedBorrowsUsd - thresholdUsd) / liqThreshold,
+  );
+  const price =
+    asset.valueUsd / (Number(asset.amount) / Math.pow(10, asset.decimals));
+
+  return {
+    coinType,
+    symbol: asset.symbol,
+    decimals: asset.decimals,
+    amount: price > 0 ? toRawAmount(valueUsd / price, asset.decimals) : 0n,
+    valueUsd,
+    currentHealthFactor: portfolio.healthFactor,
+    targetHealthFactor,
+  };
+}
+
+/**
+ * Build add-collateral transaction
+ *
+ * Flow:
+ * 1. Split the amount from the wallet (SUI from gas)
+ * 2. Refresh oracles
+ * 3. Deposit into the obligation
+ */
+export async function buildAddCollateralTransaction(
+  tx: Transaction,
+  params: AddCollateralBuildParams,
+): Promise<void> {
+  const { protocol, suiClient, userAddress, obligationId, amount } = params;
+  const coinType = normalizeCoinType(params.coinType);
+
+  if (amount <= 0n) {
+    throw new Error(`Invalid collateral amount: ${amount}`);
+  }
+
+  const coin = await splitUserCoin(tx, {
+    suiClient,
+    userAddress,
+    coinType,
+    amount,
+  });
+
+  await protocol.refreshOracles(tx, [coinType], userAddress, obligationId);
+  await protocol.deposit(tx, coin, coinType, userAddress, obligationId);
+}
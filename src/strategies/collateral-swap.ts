@@ -0,0 +1,303 @@
+/**
+ * DeFi Dash SDK - Collateral Swap Strategy Builder
+ *
+ * Switches the collateral asset of a position (e.g., LBTC → SUI) in a single
+ * PTB while keeping the debt and effective multiplier roughly unchanged
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "../protocols/interface";
+import { IPriceSource, defaultPriceSource, getPrice } from "../price";
+import { IFlashLoanProvider, FlashLoan } from "../flash-loan";
+import {
+  ISwapProvider,
+  SwapQuote,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
+import { normalizeCoinType } from "../lib/utils";
+import { PositionInfo } from "../types";
+import { getDebtPrice } from "./deleverage";
+
+export interface CollateralSwapBuildParams {
+  protocol: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  position: PositionInfo;
+  /** New collateral coin type */
+  toCoinType: string;
+  /** Current collateral to swap (raw units, defaults to all of it) */
+  amount?: bigint;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+export interface CollateralSwapEstimate {
+  fromCoinType: string;
+  toCoinType: string;
+  /** True when the whole collateral position is swapped */
+  isFullSwap: boolean;
+  /** Old collateral withdrawn and swapped */
+  withdrawAmount: bigint;
+  /** Flash loan of the debt asset (= debt temporarily repaid), 0 if no debt */
+  flashLoanUsdc: bigint;
+  flashLoanFee: bigint;
+  /** Expected new collateral from the swap quote */
+  expectedNewCollateral: bigint;
+  newCollateralUsd: number;
+  debtBeforeUsd: number;
+  debtAfterUsd: number;
+  multiplierBefore: number;
+  multiplierAfter: number;
+  /** Swap price impact vs oracle in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * Debt repaid with the flash loan before swapping collateral (raw units)
+ *
+ * A full swap repays all debt (0.5% buffer for accrued interest), a partial
+ * swap repays the share of debt backed by the swapped collateral.
+ */
+export function getCollateralSwapRepayAmount(
+  position: PositionInfo,
+  withdrawAmount: bigint,
+): bigint {
+  const { collateral, debt } = position;
+  if (debt.amount <= 0n) return 0n;
+
+  return withdrawAmount === collateral.amount
+    ? (debt.amount * 1005n) / 1000n
+    : (debt.amount * withdrawAmount) / collateral.amount;
+}
+
+/**
+ * Calculate collateral swap estimates
+ *
+ * The debt backed by the swapped collateral is repaid with a flash loan first
+ * so the withdrawal never leaves the obligation unhealthy, then re-borrowed
+ * against the new collateral. Debt only grows by the flash loan fee.
+ */
+export async function calculateCollateralSwapEstimate(
+  params: CollateralSwapBuildParams,
+): Promise<CollateralSwapEstimate> {
+  return (await planCollateralSwap(params)).estimate;
+}
+
+/**
+ * Estimate plus the swap quote it was priced from
+ */
+async function planCollateralSwap(
+  params: CollateralSwapBuildParams,
+): Promise<{ estimate: CollateralSwapEstimate; quote: SwapQuote }> {
+  const { protocol, flashLoanProvider, swapProvider, position } = params;
+  const { collateral, debt } = position;
+
+  const fromCoinType = normalizeCoinType(collateral.coinType);
+  const toCoinType = normalizeCoinType(params.toCoinType);
+
+  if (fromCoinType === toCoinType) {
+    throw new Error(`Collateral is already ${collateral.symbol}`);
+  }
+
+  const withdrawAmount = params.amount ?? collateral.amount;
+  if (withdrawAmount <= 0n || withdrawAmount > collateral.amount) {
+    throw new Error(
+      `Invalid swap amount: ${withdrawAmount} (collateral ${collateral.amount})`,
+    );
+  }
+  const isFullSwap = withdrawAmount === collateral.amount;
+
+  const flashLoanUsdc = getCollateralSwapRepayAmount(position, withdrawAmount);
+  const flashLoanFee =
+    flashLoanUsdc > 0n
+      ? flashLoanProvider.calculateFee(debt.coinType, flashLoanUsdc)
+      : 0n;
+
+  const toReserve = await protocol.getReserveInfo(toCoinType);
+  if (!toReserve) {
+    throw new Error(`${toCoinType} is not a ${protocol.name} reserve`);
+  }
+  const toDecimals = toReserve.decimals;
+
+  const bestQuote = await swapProvider.quote({
+    amountIn: withdrawAmount,
+    coinTypeIn: fromCoinType,
+    coinTypeOut: toCoinType,
+  });
+
+  if (!bestQuote) {
+    throw new Error(
+      `No swap quotes found for ${collateral.symbol} → ${toReserve.symbol}`,
+    );
+  }
+  const expectedNewCollateral = bestQuote.amountOut;
+  const priceImpactBps = await getPriceImpactBps(
+    bestQuote,
+    collateral.decimals,
+    toDecimals,
+    params.priceSource,
+  );
+
+  const toPrice = await getPrice(
+    params.priceSource ?? defaultPriceSource,
+    toCoinType,
+  );
+  const newCollateralUsd =
+    (Number(expectedNewCollateral) / Math.pow(10, toDecimals)) * toPrice;
+
+  const withdrawnUsd =
+    (collateral.valueUsd * Number(withdrawAmount)) / Number(collateral.amount);
+  const collateralAfterUsd =
+    collateral.valueUsd - withdrawnUsd + newCollateralUsd;
+  const debtPrice = await getDebtPrice(position, params.priceSource);
+  const debtAfterUsd =
+    debt.valueUsd +
+    (Number(flashLoanFee) / Math.pow(10, debt.decimals)) * debtPrice;
+
+  const equityBefore = collateral.valueUsd - debt.valueUsd;
+  const equityAfter = collateralAfterUsd - debtAfterUsd;
+
+  const estimate: CollateralSwapEstimate = {
+    fromCoinType,
+    toCoinType,
+    isFullSwap,
+    withdrawAmount,
+    flashLoanUsdc,
+    flashLoanFee,
+    expectedNewCollateral,
+    newCollateralUsd,
+    debtBeforeUsd: debt.valueUsd,
+    debtAfterUsd,
+    multiplierBefore:
+      equityBefore > 0 ? collateral.valueUsd / equityBefore : Infinity,
+    multiplierAfter:
+      equityAfter > 0 ? collateralAfterUsd / equityAfter : Infinity,
+    priceImpactBps,
+  };
+  return { estimate, quote: bestQuote };
+}
+
+/**
+ * Build collateral swap transaction
+ *
+ * Flow:
+ * 1. Flash loan the debt asset (debt backed by the swapped collateral)
+ * 2. Refresh oracles
+ * 3. Repay debt using flash loan
+ * 4. Withdraw old collateral
+ * 5. Swap old collateral → new collateral
+ * 6. Deposit new collateral
+ * 7. Borrow the debt asset to repay flash loan
+ * 8. Repay flash loan
+ * 9. Return any unused flash-loan funds to the debt
+ *
+ * Steps 1, 3, 7-9 are skipped when the position has no debt.
+ */
+export async function buildCollateralSwapTransaction(
+  tx: Transaction,
+  params: CollateralSwapBuildParams,
+): Promise<void> {
+  const {
+    protocol,
+    flashLoanProvider,
+    swapProvider,
+    userAddress,
+    obligationId,
+    position,
+  } = params;
+  const debtCoinType = position.debt.coinType;
+
+  // The swap is built from the same quote the estimate was priced from
+  const { estimate, quote } = await planCollateralSwap(params);
+  const { fromCoinType, toCoinType, flashLoanUsdc, flashLoanFee } = estimate;
+
+  // Refuse to build when the swap moves the price too far from the oracle
+  assertPriceImpact(quote, estimate.priceImpactBps, params.maxPriceImpactBps);
+
+  // 1. Flash loan the debt asset
+  let flashLoan: FlashLoan | undefined;
+  if (flashLoanUsdc > 0n) {
+    flashLoan = await flashLoanProvider.borrow(tx, debtCoinType, flashLoanUsdc);
+  }
+  const loanCoin = flashLoan?.coin;
+
+  // 2. Refresh oracles (new collateral included for the deposit/borrow)
+  await protocol.refreshOracles(
+    tx,
+    [fromCoinType, toCoinType, debtCoinType],
+    userAddress,
+    obligationId,
+  );
+
+  // 3. Repay debt using flash loan
+  if (flashLoan) {
+    await protocol.repay(tx, debtCoinType, loanCoin, userAddress, obligationId);
+  }
+
+  // 4. Withdraw old collateral
+  const withdrawnCoin = await protocol.withdraw(
+    tx,
+    fromCoinType,
+    estimate.withdrawAmount.toString(),
+    userAddress,
+    obligationId,
+  );
+
+  // 5. Swap old → new collateral
+  const newCollateral = await swapProvider.swap(
+    tx,
+    quote,
+    withdrawnCoin,
+    userAddress,
+    params.slippageBps,
+  );
+
+  // 6. Deposit new collateral
+  await protocol.deposit(
+    tx,
+    newCollateral,
+    toCoinType,
+    userAddress,
+    obligationId,
+  );
+
+  if (!flashLoan) return;
+
+  // 7. Borrow the debt asset against the new collateral
+  const borrowedCoin = await protocol.borrow(
+    tx,
+    debtCoinType,
+    (flashLoanUsdc + flashLoanFee).toString(),
+    userAddress,
+    true, // Skip oracle (already done)
+    obligationId,
+  );
+
+  // 8. Repay flash loan
+  await flashLoanProvider.repay(tx, flashLoan, borrowedCoin, userAddress);
+
+  // 9. Protocols that return the unused portion leave the interest buffer of
+  //    a full swap in loanCoin; repay it back so the debt stays where it was
+  if (!protocol.consumesRepaymentCoin) {
+    if (estimate.isFullSwap) {
+      await protocol.repay(
+        tx,
+        debtCoinType,
+        loanCoin,
+        userAddress,
+        obligationId,
+      );
+    }
+    tx.transferObjects([loanCoin], userAddress);
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * DeFi Dash SDK - Debt Swap Strategy Builder
+ *
+ * Refinances the borrowed asset of a position (e.g., USDC → USDT) in a
+ * single PTB without touching the collateral
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "../protocols/interface";
+import { IPriceSource, defaultPriceSource, getPrice } from "../price";
+import { IFlashLoanProvider } from "../flash-loan";
+import {
+  ISwapProvider,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
+import { normalizeCoinType } from "../lib/utils";
+import { PositionInfo } from "../types";
+
+export interface DebtSwapBuildParams {
+  protocol: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  position: PositionInfo;
+  /** New debt coin type */
+  toCoinType: string;
+  /** Current debt to refinance (raw units, defaults to all of it) */
+  amount?: bigint;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+export interface DebtSwapEstimate {
+  fromCoinType: string;
+  toCoinType: string;
+  /** Decimals of the new debt asset */
+  toDecimals: number;
+  /** True when the whole debt is refinanced */
+  isFullSwap: boolean;
+  /** Old debt repaid (raw units of the old debt asset) */
+  repayAmount: bigint;
+  /** Flash loan of the new debt asset */
+  flashLoanAmount: bigint;
+  flashLoanFee: bigint;
+  /** Old debt asset expected from swapping the flash loan */
+  expectedSwapOut: bigint;
+  /** New debt borrowed to close the flash loan (loan + fee) */
+  newDebtAmount: bigint;
+  oldDebtUsd: number;
+  newDebtUsd: number;
+  /** Swap price impact vs oracle in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * Old debt to repay and the swap output needed for it (raw units)
+ *
+ * A full swap repays with a 0.5% buffer for accrued interest and a 2% swap
+ * buffer; a partial swap repays exactly what the swap returns.
+ */
+export function getDebtSwapRepayAmount(
+  position: PositionInfo,
+  amount: bigint,
+): { repayAmount: bigint; targetOut: bigint } {
+  const { debt } = position;
+  if (amount !== debt.amount) {
+    return { repayAmount: amount, targetOut: amount };
+  }
+
+  const repayAmount = (debt.amount * 1005n) / 1000n;
+  return { repayAmount, targetOut: (repayAmount * 102n) / 100n };
+}
+
+/**
+ * Flash loan of the new debt asset that swaps into targetOut at a quote's
+ * rate (rounded up)
+ */
+export function getDebtSwapFlashLoanAmount(
+  targetOut: bigint,
+  quoteIn: bigint,
+  quoteOut: bigint,
+): bigint {
+  return (targetOut * quoteIn + quoteOut - 1n) / quoteOut;
+}
+
+/**
+ * Calculate debt swap estimates
+ */
+export async function calculateDebtSwapEstimate(
+  params: DebtSwapBuildParams,
+): Promise<DebtSwapEstimate> {
+  const { protocol, flashLoanProvider, swapProvider, position } = params;
+  const { debt } = position;
+
+  const fromCoinType = normalizeCoinType(debt.coinType);
+  const toCoinType = normalizeCoinType(params.toCoinType);
+
+  if (debt.amount === 0n) {
+    throw new Error("No debt to swap");
+  }
+  if (fromCoinType === toCoinType) {
+    throw new Error(`Debt is already ${debt.symbol}`);
+  }
+
+  const amount = params.amount ?? debt.amount;
+  if (amount <= 0n || amount > debt.amount) {
+    throw new Error(`Invalid debt amount: ${amount} (debt ${debt.amount})`);
+  }
+  const isFullSwap = amount === debt.amount;
+
+  const { repayAmount, targetOut } = getDebtSwapRepayAmount(position, amount);
+
+  const toReserve = await protocol.getReserveInfo(toCoinType);
+  if (!toReserve) {
+    throw new Error(`${toCoinType} is not a ${protocol.name} reserve`);
+  }
+  const toDecimals = toReserve.decimals;
+
+  const prices = await (params.priceSource ?? defaultPriceSource).getPrices([
+    fromCoinType,
+    toCoinType,
+  ]);
+  const fromPrice = prices[fromCoinType]?.price ?? 0;
+  const toPrice = prices[toCoinType]?.price;
+
+  if (!fromPrice || fromPrice <= 0) {
+    throw new Error(`No price available for ${fromCoinType}`);
+  }
+  if (!toPrice || toPrice <= 0) {
+    throw new Error(`No price available for ${toCoinType}`);
+  }
+
+  // Size the quote from oracle prices, then scale by the quoted rate
+  const targetOutUsd =
+    (Number(targetOut) / Math.pow(10, debt.decimals)) * fromPrice;
+  const estimatedIn = BigInt(
+    Math.ceil((targetOutUsd / toPrice) * Math.pow(10, toDecimals)),
+  );
+
+  const bestQuote = await swapProvider.quote({
+    amountIn: estimatedIn,
+    coinTypeIn: toCoinType,
+    coinTypeOut: fromCoinType,
+  });
+
+  if (!bestQuote) {
+    throw new Error(
+      `No swap quotes found for ${toReserve.symbol} → ${debt.symbol}`,
+    );
+  }
+
+  const quoteIn = bestQuote.amountIn;
+  const quoteOut = bestQuote.amountOut;
+  if (quoteIn <= 0n || quoteOut <= 0n) {
+    throw new Error(
+      `Swap quote for ${toReserve.symbol} → ${debt.symbol} returns nothing`,
+    );
+  }
+  const flashLoanAmount = getDebtSwapFlashLoanAmount(
+    targetOut,
+    quoteIn,
+    quoteOut,
+  );
+  const flashLoanFee = flashLoanProvider.calculateFee(
+    toCoinType,
+    flashLoanAmount,
+  );
+  const newDebtAmount = flashLoanAmount + flashLoanFee;
+
+  return {
+    fromCoinType,
+    toCoinType,
+    toDecimals,
+    isFullSwap,
+    repayAmount,
+    flashLoanAmount,
+    flashLoanFee,
+    expectedSwapOut: (flashLoanAmount * quoteOut) / quoteIn,
+    newDebtAmount,
+    oldDebtUsd: (debt.valueUsd * Number(amount)) / Number(debt.amount),
+    newDebtUsd: (Number(newDebtAmount) / Math.pow(10, toDecimals)) * toPrice,
+    priceImpactBps: await getPriceImpactBps(
+      bestQuote,
+      toDecimals,
+      debt.decimals,
+      params.priceSource,
+    ),
+  };
+}
+
+/**
+ * Build debt swap transaction
+ *
+ * Flow:
+ * 1. Flash loan the new debt asset
+ * 2. Swap new asset → old debt asset
+ * 3. Refresh oracles
+ * 4. Repay old debt
+ * 5. Borrow new asset (loan + fee)
+ * 6. Repay flash loan
+ * 7. Transfer any unused old-asset coin to user
+ */
+export async function buildDebtSwapTransaction(
+  tx: Transaction,
+  params: DebtSwapBuildParams,
+): Promise<void> {
+  const {
+    protocol,
+    flashLoanProvider,
+    swapProvider,
+    userAddress,
+    obligationId,
+    position,
+  } = params;
+
+  const estimate = await calculateDebtSwapEstimate(params);
+  const { fromCoinType, toCoinType, flashLoanAmount } = estimate;
+
+  // Quote the exact loan amount and check it before adding any commands
+  const bestQuote = await swapProvider.quote({
+    amountIn: flashLoanAmount,
+    coinTypeIn: toCoinType,
+    coinTypeOut: fromCoinType,
+  });
+
+  if (!bestQuote) {
+    throw new Error(`No swap quotes for ${toCoinType} → ${fromCoinType}`);
+  }
+
+  const priceImpactBps = await getPriceImpactBps(
+    bestQuote,
+    estimate.toDecimals,
+    position.debt.decimals,
+    params.priceSource,
+  );
+  assertPriceImpact(bestQuote, priceImpactBps, params.maxPriceImpactBps);
+
+  // 1. Flash loan the new debt asset
+  const flashLoan = await flashLoanProvider.borrow(
+    tx,
+    toCoinType,
+    flashLoanAmount,
+  );
+
+  // 2. Swap new asset → old debt asset
+  const swappedCoin = await swapProvider.swap(
+    tx,
+    bestQuote,
+    flashLoan.coin,
+    userAddress,
+    params.slippageBps,
+  );
+
+  // 3. Refresh oracles
+  await protocol.refreshOracles(
+    tx,
+    [position.collateral.coinType, fromCoinType, toCoinType],
+    userAddress,
+    obligationId,
+  );
+
+  // 4. Repay old debt
+  await protocol.repay(
+    tx,
+    fromCoinType,
+    swappedCoin,
+    userAddress,
+    obligationId,
+  );
+
+  // 5. Borrow new asset to close the flash loan
+  const borrowedCoin = await protocol.borrow(
+    tx,
+    toCoinType,
+    estimate.newDebtAmount.toString(),
+    userAddress,
+    true, // Skip oracle (already done)
+    obligationId,
+  );
+
+  // 6. Repay flash loan
+  await flashLoanProvider.repay(tx, flashLoan, borrowedCoin, userAddress);
+
+  // 7. Some protocols consume the repayment coin entirely, others return the
+  //    unused portion which belongs to the user
+  if (!protocol.consumesRepaymentCoin) {
+    tx.transferObjects([swappedCoin as any], userAddress);
+  }
+}
@@ -6,96 +6,548 @@
 
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
-import { MetaAg, getTokenPrice } from "@7kprotocol/sdk-ts";
 import { ILendingProtocol } from "../protocols/interface";
-import { ScallopFlashLoanClient } from "../lib/scallop";
-import { normalizeCoinType, formatUnits } from "../lib/utils";
+import { IPriceSource, defaultPriceSource, getPrice } from "../price";
+import { IFlashLoanProvider, FlashLoan } from "../flash-loan";
+import {
+  ISwapProvider,
+  SwapQuote,
+  getMinAmountOut,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
+import { normalizeCoinType, formatUnits, parseUnits } from "../lib/utils";
 import { getReserveByCoinType } from "../lib/suilend/const";
-import { USDC_COIN_TYPE, PositionInfo } from "../types";
+import { PositionInfo, AssetPosition, DeleverageTarget } from "../types";
 
 export interface DeleverageBuildParams {
   protocol: ILendingProtocol;
-  flashLoanClient: ScallopFlashLoanClient;
-  swapClient: MetaAg;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
   suiClient: SuiClient;
   userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
   position: PositionInfo;
+  /** Partial deleverage target (omit to close the whole position) */
+  target?: DeleverageTarget;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
 }
 
+/**
+ * Deleverage estimate
+ *
+ * Fields named *Usdc are raw units of the position's debt asset
+ * (USDC unless the position borrowed something else).
+ */
 export interface DeleverageEstimate {
+  /** True when only part of the position is unwound */
+  isPartial: boolean;
   flashLoanUsdc: bigint;
   flashLoanFee: bigint;
   totalRepayment: bigint;
+  /** Collateral withdrawn from the lending protocol */
+  withdrawAmount: bigint;
   swapAmount: bigint;
+  /** Withdrawn collateral returned to the wallet (not swapped) */
   keepCollateral: bigint;
+  /** Debt asset returned to the wallet after the flash loan is repaid */
   estimatedUsdcProfit: bigint;
+  /** USD value of everything returned to the wallet */
   totalProfitUsd: number;
+  /** Collateral left in the protocol after deleverage */
+  remainingCollateral: bigint;
+  /** Debt left in the protocol after deleverage */
+  remainingDebt: bigint;
+  /** Resulting collateral value in USD */
+  resultingCollateralUsd: number;
+  /** Resulting debt value in USD */
+  resultingDebtUsd: number;
+  /** Resulting leverage multiplier (1 when the debt is fully repaid) */
+  resultingMultiplier: number;
+  /** Resulting LTV percentage */
+  resultingLtvPercent: number;
+  /** Debt asset expected from swapping swapAmount */
+  expectedSwapOut: bigint;
+  /** Minimum swap output accepted under the slippage tolerance */
+  minSwapOut: bigint;
+  /** Swap price impact against the oracle price in basis points */
+  priceImpactBps: number;
+  /** Per-asset plan when closing an obligation with several assets */
+  unwind?: DeleverageUnwindPlan;
+}
+
+/**
+ * Flash loan that repays one debt of a multi-asset obligation
+ */
+export interface UnwindLoan {
+  coinType: string;
+  symbol: string;
+  amount: bigint;
+  fee: bigint;
+}
+
+/**
+ * Collateral routed into one flash loan repayment
+ */
+export interface UnwindSwap {
+  collateralCoinType: string;
+  debtCoinType: string;
+  amountIn: bigint;
+  /** Null when the collateral is the debt asset itself (no swap) */
+  quote: SwapQuote | null;
+  expectedOut: bigint;
+  priceImpactBps: number;
+}
+
+/**
+ * Plan for closing every deposit and borrow of an obligation
+ */
+export interface DeleverageUnwindPlan {
+  loans: UnwindLoan[];
+  swaps: UnwindSwap[];
+  /** Assets left in the wallet once every flash loan is repaid */
+  returned: AssetPosition[];
+}
+
+/**
+ * Deleverage estimate with asset metadata and a dry-run gas estimate
+ */
+export interface DeleveragePreview extends DeleverageEstimate {
+  collateralCoinType: string;
+  collateralSymbol: string;
+  collateralDecimals: number;
+  debtCoinType: string;
+  debtSymbol: string;
+  debtDecimals: number;
+  /** Net gas in MIST from a dry run (null when the dry run failed) */
+  estimatedGas: bigint | null;
+  /** Why the gas dry run failed (when estimatedGas is null) */
+  estimatedGasError?: string;
+}
+
+/**
+ * Price of the position's debt asset, taken from the position's own valuation
+ * when there is debt, otherwise from the price source
+ */
+export async function getDebtPrice(
+  position: PositionInfo,
+  priceSource: IPriceSource = defaultPriceSource,
+): Promise<number> {
+  const { debt } = position;
+  if (debt.amount > 0n && debt.valueUsd > 0) {
+    return debt.valueUsd / (Number(debt.amount) / Math.pow(10, debt.decimals));
+  }
+  return getPrice(priceSource, debt.coinType);
+}
+
+/**
+ * Resolve a partial deleverage target into a raw debt repay amount
+ *
+ * Unwinding keeps equity roughly constant (withdrawn collateral pays for
+ * the repaid debt), so for equity E and target multiplier M':
+ *   Debt' = (M' - 1) * E  →  Repay = Debt - (M' - 1) * E
+ * A target LTV L maps to M' = 1 / (1 - L).
+ *
+ * @returns Raw repay amount, or null when the whole position should be closed
+ */
+export function resolveDeleverageRepayAmount(
+  position: PositionInfo,
+  target?: DeleverageTarget,
+): bigint | null {
+  if (!target) return null;
+
+  const { targetMultiplier, targetLtvPercent, repayAmount } = target;
+  const setCount = [targetMultiplier, targetLtvPercent, repayAmount].filter(
+    (v) => v !== undefined,
+  ).length;
+
+  if (setCount === 0) return null;
+  if (setCount > 1) {
+    throw new Error(
+      "Specify only one of targetMultiplier, targetLtvPercent or repayAmount",
+    );
+  }
+
+  const debtAmount = position.debt.amount;
+  let repay: bigint;
+
+  if (repayAmount !== undefined) {
+    repay = parseUnits(repayAmount, position.debt.decimals);
+  } else {
+    let multiplier: number;
+    if (targetLtvPercent !== undefined) {
+      if (targetLtvPercent < 0 || targetLtvPercent >= 100) {
+        throw new Error(`Invalid target LTV: ${targetLtvPercent}%`);
+      }
+      multiplier = 1 / (1 - targetLtvPercent / 100);
+    } else {
+      multiplier = targetMultiplier as number;
+    }
+
+    if (multiplier < 1) {
+      throw new Error(`Invalid target multiplier: ${multiplier}`);
+    }
+
+    const equityUsd = position.collateral.valueUsd - position.debt.valueUsd;
+    if (equityUsd <= 0) {
+      throw new Error("Position has no equity to deleverage against");
+    }
+
+    const currentMultiplier = position.collateral.valueUsd / equityUsd;
+    if (multiplier >= currentMultiplier) {
+      throw new Error(
+        `Target multiplier ${multiplier.toFixed(2)}x is not below current ${currentMultiplier.toFixed(2)}x`,
+      );
+    }
+
+    const targetDebtUsd = (multiplier - 1) * equityUsd;
+    const repayUsd = position.debt.valueUsd - targetDebtUsd;
+    const debtPerUsd = Number(debtAmount) / position.debt.valueUsd;
+    repay = BigInt(Math.floor(repayUsd * debtPerUsd));
+  }
+
+  if (repay <= 0n) {
+    throw new Error("Repay amount must be greater than zero");
+  }
+
+  // Repaying everything is a full close
+  return repay >= debtAmount ? null : repay;
+}
+
+/**
+ * True when the obligation holds more than one deposit or borrow
+ */
+export function isMultiAssetPosition(position: PositionInfo): boolean {
+  return position.collaterals.length > 1 || position.debts.length > 1;
+}
+
+/**
+ * USD value of one raw unit of an asset, from the position's valuation
+ */
+function unitPrice(asset: AssetPosition): number {
+  return asset.amount > 0n ? asset.valueUsd / Number(asset.amount) : 0;
+}
+
+/**
+ * Plan a full close of a multi-asset obligation
+ *
+ * Every debt is flash loaned (with a 0.5% interest buffer) and repaid.
+ * Each loan is then covered from the withdrawn collateral: the same asset
+ * first, then swaps from the largest other collaterals.
+ */
+async function planDeleverageUnwind(
+  params: DeleverageBuildParams,
+): Promise<DeleverageUnwindPlan> {
+  const { flashLoanProvider, swapProvider, position } = params;
+
+  const available = new Map<string, bigint>(
+    position.collaterals.map((c) => [c.coinType, c.amount]),
+  );
+  const loans: UnwindLoan[] = [];
+  const swaps: UnwindSwap[] = [];
+  const surplus = new Map<string, bigint>();
+
+  for (const debt of position.debts) {
+    const amount = (debt.amount * 1005n) / 1000n;
+    const fee = flashLoanProvider.calculateFee(debt.coinType, amount);
+    loans.push({ coinType: debt.coinType, symbol: debt.symbol, amount, fee });
+
+    let need = amount + fee;
+    let covered = 0n;
+
+    // Collateral in the debt asset repays without a swap
+    const same = available.get(debt.coinType) ?? 0n;
+    if (same > 0n) {
+      const used = same < need ? same : need;
+      available.set(debt.coinType, same - used);
+      swaps.push({
+        collateralCoinType: debt.coinType,
+        debtCoinType: debt.coinType,
+        amountIn: used,
+        quote: null,
+        expectedOut: used,
+        priceImpactBps: 0,
+      });
+      covered += used;
+    }
+
+    for (const collateral of position.collaterals) {
+      if (covered >= need) break;
+      if (collateral.coinType === debt.coinType) continue;
+      const avail = available.get(collateral.coinType) ?? 0n;
+      if (avail === 0n) continue;
+
+      // 2% buffer over the outstanding repayment
+      const target = ((need - covered) * 102n) / 100n;
+      const targetUsd = Number(target) * unitPrice(debt);
+      const collateralPrice = unitPrice(collateral);
+      let estimatedIn =
+        collateralPrice > 0
+          ? BigInt(Math.ceil(targetUsd / collateralPrice))
+          : avail;
+      if (estimatedIn <= 0n || estimatedIn > avail) estimatedIn = avail;
+
+      const rateQuote = await swapProvider.quote({
+        amountIn: estimatedIn,
+        coinTypeIn: collateral.coinType,
+        coinTypeOut: debt.coinType,
+      });
+      if (!rateQuote || rateQuote.amountOut === 0n) continue;
+
+      let amountIn = (target * rateQuote.amountIn) / rateQuote.amountOut;
+      if (amountIn > avail) amountIn = avail;
+      const quote =
+        amountIn === rateQuote.amountIn
+          ? rateQuote
+          : await swapProvider.quote({
+              amountIn,
+              coinTypeIn: collateral.coinType,
+              coinTypeOut: debt.coinType,
+            });
+      if (!quote) continue;
+
+      available.set(collateral.coinType, avail - amountIn);
+      swaps.push({
+        collateralCoinType: collateral.coinType,
+        debtCoinType: debt.coinType,
+        amountIn,
+        quote,
+        expectedOut: quote.amountOut,
+        priceImpactBps: await getPriceImpactBps(
+          quote,
+          collateral.decimals,
+          debt.decimals,
+          params.priceSource,
+        ),
+      });
+      covered += quote.amountOut;
+    }
+
+    if (covered < need) {
+      throw new Error(
+        `Collateral cannot cover the ${debt.symbol} flash loan repayment`,
+      );
+    }
+    surplus.set(debt.coinType, covered - need);
+  }
+
+  // Leftover collateral plus swap output beyond each repayment
+  const returned: AssetPosition[] = [];
+  for (const collateral of position.collaterals) {
+    const amount = available.get(collateral.coinType) ?? 0n;
+    if (amount > 0n) {
+      returned.push({
+        ...collateral,
+        amount,
+        valueUsd: Number(amount) * unitPrice(collateral),
+      });
+    }
+  }
+  for (const debt of position.debts) {
+    const amount = surplus.get(debt.coinType) ?? 0n;
+    if (amount > 0n) {
+      returned.push({
+        ...debt,
+        amount,
+        valueUsd: Number(amount) * unitPrice(debt),
+      });
+    }
+  }
+
+  return { loans, swaps, returned };
+}
+
+/**
+ * Summarize a multi-asset unwind in DeleverageEstimate terms
+ *
+ * Single-asset fields describe the primary collateral/debt pair; totals
+ * (profit, price impact) cover every asset.
+ */
+function estimateFromUnwindPlan(
+  position: PositionInfo,
+  plan: DeleverageUnwindPlan,
+  slippageBps?: number,
+): DeleverageEstimate {
+  const primaryLoan = plan.loans[0];
+  const { collateral, debt } = position;
+  const returnedOf = (coinType: string) =>
+    plan.returned.find((r) => r.coinType === coinType)?.amount ?? 0n;
+  const primarySwaps = plan.swaps.filter(
+    (s) =>
+      s.quote !== null &&
+      s.collateralCoinType === collateral.coinType &&
+      s.debtCoinType === debt.coinType,
+  );
+  const expectedSwapOut = primarySwaps.reduce(
+    (sum, s) => sum + s.expectedOut,
+    0n,
+  );
+
+  return {
+    isPartial: false,
+    flashLoanUsdc: primaryLoan?.amount ?? 0n,
+    flashLoanFee: primaryLoan?.fee ?? 0n,
+    totalRepayment: primaryLoan ? primaryLoan.amount + primaryLoan.fee : 0n,
+    withdrawAmount: collateral.amount,
+    swapAmount: primarySwaps.reduce((sum, s) => sum + s.amountIn, 0n),
+    keepCollateral: returnedOf(collateral.coinType),
+    estimatedUsdcProfit: returnedOf(debt.coinType),
+    totalProfitUsd: plan.returned.reduce((sum, r) => sum + r.valueUsd, 0),
+    remainingCollateral: 0n,
+    remainingDebt: 0n,
+    resultingCollateralUsd: 0,
+    resultingDebtUsd: 0,
+    resultingMultiplier: 1,
+    resultingLtvPercent: 0,
+    expectedSwapOut,
+    minSwapOut: getMinAmountOut(expectedSwapOut, slippageBps),
+    priceImpactBps: Math.max(0, ...plan.swaps.map((s) => s.priceImpactBps)),
+    unwind: plan,
+  };
 }
 
 /**
  * Calculate deleverage estimates
+ *
+ * Partial targets act on the primary collateral/debt pair. A full close of
+ * a multi-asset obligation unwinds every deposit and borrow.
  */
 export async function calculateDeleverageEstimate(
   params: DeleverageBuildParams,
 ): Promise<DeleverageEstimate> {
-  const { swapClient, position } = params;
+  const { flashLoanProvider, swapProvider, position, target } = params;
+
+  if (
+    isMultiAssetPosition(position) &&
+    resolveDeleverageRepayAmount(position, target) === null
+  ) {
+    const plan = await planDeleverageUnwind(params);
+    return estimateFromUnwindPlan(position, plan, params.slippageBps);
+  }
 
   const borrowAmount = position.debt.amount;
   const supplyAmount = position.collateral.amount;
   const supplyCoinType = position.collateral.coinType;
   const supplyDecimals = position.collateral.decimals;
+  const debtCoinType = position.debt.coinType;
+  const debtDecimals = position.debt.decimals;
+  const debtPrice = await getDebtPrice(position, params.priceSource);
+
+  const partialRepay = resolveDeleverageRepayAmount(position, target);
+  const isPartial = partialRepay !== null;
 
-  // Flash loan with 0.5% buffer
-  const flashLoanUsdc = (borrowAmount * 1005n) / 1000n;
-  const flashLoanFee = ScallopFlashLoanClient.calculateFee(flashLoanUsdc);
+  // Full close: flash loan with 0.5% buffer for accrued interest
+  // Partial: flash loan exactly the debt to repay
+  const flashLoanUsdc = isPartial
+    ? partialRepay
+    : (borrowAmount * 1005n) / 1000n;
+  const flashLoanFee = flashLoanProvider.calculateFee(
+    debtCoinType,
+    flashLoanUsdc,
+  );
   const totalRepayment = flashLoanUsdc + flashLoanFee;
+  const targetUsdcOut = (totalRepayment * 102n) / 100n;
+
+  // Get swap rate - full close quotes the whole collateral, partial quotes
+  // roughly the collateral needed (priced from the position) to limit impact
+  let quoteAmount = supplyAmount;
+  if (isPartial && position.collateral.valueUsd > 0) {
+    const supplyPerUsd = Number(supplyAmount) / position.collateral.valueUsd;
+    const targetOutUsd =
+      (Number(targetUsdcOut) / Math.pow(10, debtDecimals)) * debtPrice;
+    const estimatedIn = BigInt(Math.ceil(targetOutUsd * supplyPerUsd));
+    if (estimatedIn > 0n && estimatedIn < supplyAmount) {
+      quoteAmount = estimatedIn;
+    }
+  }
 
-  // Get swap rate - use full collateral amount
-  const withdrawAmount = supplyAmount; // Withdraw ALL collateral
-  const fullSwapQuotes = await swapClient.quote({
-    amountIn: withdrawAmount.toString(),
+  const fullQuote = await swapProvider.quote({
+    amountIn: quoteAmount,
     coinTypeIn: supplyCoinType,
-    coinTypeOut: USDC_COIN_TYPE,
+    coinTypeOut: debtCoinType,
   });
 
-  if (fullSwapQuotes.length === 0) {
+  if (!fullQuote) {
     throw new Error(
-      `No swap quotes found for ${position.collateral.symbol} → USDC`,
+      `No swap quotes found for ${position.collateral.symbol} → ${position.debt.symbol}`,
     );
   }
 
-  const fullQuote = fullSwapQuotes.sort(
-    (a, b) => Number(b.amountOut) - Number(a.amountOut),
-  )[0];
-
-  const fullSwapOut = BigInt(fullQuote.amountOut);
-  const fullSwapIn = BigInt(fullQuote.amountIn);
+  const fullSwapOut = fullQuote.amountOut;
+  const fullSwapIn = fullQuote.amountIn;
+  const priceImpactBps = await getPriceImpactBps(
+    fullQuote,
+    supplyDecimals,
+    debtDecimals,
+    params.priceSource,
+  );
 
   // Calculate optimal swap amount (with 2% buffer)
-  const targetUsdcOut = (totalRepayment * 102n) / 100n;
   const requiredSwapIn = (targetUsdcOut * fullSwapIn) / fullSwapOut;
   const actualSwapIn =
-    requiredSwapIn > withdrawAmount ? withdrawAmount : requiredSwapIn;
+    requiredSwapIn > supplyAmount ? supplyAmount : requiredSwapIn;
+
+  // Full close withdraws ALL collateral, partial only what is swapped
+  const withdrawAmount = isPartial ? actualSwapIn : supplyAmount;
 
   const keepCollateral = withdrawAmount - actualSwapIn;
+  const expectedSwapOut = (actualSwapIn * fullSwapOut) / fullSwapIn;
   const estimatedUsdcProfit =
-    fullSwapOut > totalRepayment
-      ? (actualSwapIn * fullSwapOut) / fullSwapIn - totalRepayment
-      : 0n;
+    expectedSwapOut > totalRepayment ? expectedSwapOut - totalRepayment : 0n;
 
-  const supplyPrice = await getTokenPrice(supplyCoinType);
+  const supplyPrice = await getPrice(
+    params.priceSource ?? defaultPriceSource,
+    supplyCoinType,
+  );
   const totalProfitUsd =
     (Number(keepCollateral) / Math.pow(10, supplyDecimals)) * supplyPrice +
-    Number(estimatedUsdcProfit) / 1e6;
+    (Number(estimatedUsdcProfit) / Math.pow(10, debtDecimals)) * debtPrice;
+
+  // Resulting position (priced at the position's own valuation)
+  const remainingCollateral = supplyAmount - withdrawAmount;
+  const remainingDebt = isPartial ? borrowAmount - flashLoanUsdc : 0n;
+  const resultingCollateralUsd =
+    supplyAmount > 0n
+      ? (position.collateral.valueUsd * Number(remainingCollateral)) /
+        Number(supplyAmount)
+      : 0;
+  const resultingDebtUsd =
+    borrowAmount > 0n
+      ? (position.debt.valueUsd * Number(remainingDebt)) / Number(borrowAmount)
+      : 0;
+  const resultingEquityUsd = resultingCollateralUsd - resultingDebtUsd;
 
   return {
+    isPartial,
     flashLoanUsdc,
     flashLoanFee,
     totalRepayment,
+    withdrawAmount,
     swapAmount: actualSwapIn,
     keepCollateral,
     estimatedUsdcProfit,
     totalProfitUsd,
+    remainingCollateral,
+    remainingDebt,
+    resultingCollateralUsd,
+    resultingDebtUsd,
+    resultingMultiplier:
+      resultingDebtUsd > 0 && resultingEquityUsd > 0
+        ? resultingCollateralUsd / resultingEquityUsd
+        : 1,
+    resultingLtvPercent:
+      resultingCollateralUsd > 0
+        ? (resultingDebtUsd / resultingCollateralUsd) * 100
+        : 0,
+    expectedSwapOut,
+    minSwapOut: getMinAmountOut(expectedSwapOut, params.slippageBps),
+    priceImpactBps,
   };
 }
 
@@ -103,11 +555,11 @@ export async function calculateDeleverageEstimate(
  * Build deleverage transaction
  *
  * Flow:
- * 1. Flash loan USDC (to repay debt)
+ * 1. Flash loan the debt asset (to repay debt)
  * 2. Refresh oracles
  * 3. Repay debt using flash loan
- * 4. Withdraw all collateral
- * 5. Swap partial collateral → USDC
+ * 4. Withdraw collateral (all of it, or only the swap amount when partial)
+ * 5. Swap partial collateral → debt asset
  * 6. Repay flash loan
  * 7. Transfer remaining to user
  */
@@ -117,79 +569,95 @@ export async function buildDeleverageTransaction(
 ): Promise<void> {
   const {
     protocol,
-    flashLoanClient,
-    swapClient,
+    flashLoanProvider,
+    swapProvider,
     suiClient,
     userAddress,
+    obligationId,
     position,
   } = params;
 
   const supplyCoinType = position.collateral.coinType;
-  const supplyDecimals = position.collateral.decimals;
-  const supplyAmount = position.collateral.amount;
+  const debtCoinType = position.debt.coinType;
 
   // Calculate estimates
   const estimate = await calculateDeleverageEstimate(params);
+  if (estimate.unwind) {
+    await buildUnwindTransaction(tx, params, estimate.unwind);
+    return;
+  }
+
+  // Quote the collateral → debt swap up front and refuse to build when it
+  // moves the price too far from the oracle
+  const bestQuote = await swapProvider.quote({
+    amountIn: estimate.swapAmount,
+    coinTypeIn: supplyCoinType,
+    coinTypeOut: debtCoinType,
+  });
+
+  if (!bestQuote) {
+    throw new Error(
+      `No swap quotes for ${position.collateral.symbol} → ${position.debt.symbol}`,
+    );
+  }
 
-  // 1. Flash loan USDC
-  const [loanCoin, receipt] = flashLoanClient.borrowFlashLoan(
+  const priceImpactBps = await getPriceImpactBps(
+    bestQuote,
+    position.collateral.decimals,
+    position.debt.decimals,
+    params.priceSource,
+  );
+  assertPriceImpact(bestQuote, priceImpactBps, params.maxPriceImpactBps);
+
+  // 1. Flash loan the debt asset
+  const flashLoan = await flashLoanProvider.borrow(
     tx,
+    debtCoinType,
     estimate.flashLoanUsdc,
-    "usdc",
   );
+  const loanCoin = flashLoan.coin;
 
   // 2. Refresh oracles
   await protocol.refreshOracles(
     tx,
-    [supplyCoinType, USDC_COIN_TYPE],
+    [supplyCoinType, debtCoinType],
     userAddress,
+    obligationId,
   );
 
   // 3. Repay debt using flash loan
-  await protocol.repay(tx, USDC_COIN_TYPE, loanCoin, userAddress);
+  await protocol.repay(tx, debtCoinType, loanCoin, userAddress, obligationId);
 
-  // 4. Withdraw ALL collateral
-  const withdrawAmount = supplyAmount;
+  // 4. Withdraw collateral (ALL of it when closing the position)
   const withdrawnCoin = await protocol.withdraw(
     tx,
     supplyCoinType,
-    withdrawAmount.toString(),
+    estimate.withdrawAmount.toString(),
     userAddress,
+    obligationId,
   );
 
-  // 5. Get swap quote and swap
-  const swapQuotes = await swapClient.quote({
-    amountIn: estimate.swapAmount.toString(),
-    coinTypeIn: supplyCoinType,
-    coinTypeOut: USDC_COIN_TYPE,
-  });
-
-  if (swapQuotes.length === 0) {
-    throw new Error(`No swap quotes for ${position.collateral.symbol} → USDC`);
-  }
-
-  const bestQuote = swapQuotes.sort(
-    (a, b) => Number(b.amountOut) - Number(a.amountOut),
-  )[0];
-
-  // Split coin for swap
+  // 5. Swap (split coin for swap)
   const [coinToSwap] = tx.splitCoins(withdrawnCoin, [estimate.swapAmount]);
 
-  const swappedUsdc = await swapClient.swap(
-    {
-      quote: bestQuote,
-      signer: userAddress,
-      coinIn: coinToSwap,
-      tx: tx,
-    },
-    100,
+  const swappedUsdc = await swapProvider.swap(
+    tx,
+    bestQuote,
+    coinToSwap,
+    userAddress,
+    params.slippageBps,
   );
 
   // 6. Repay flash loan
   const [flashRepayment] = tx.splitCoins(swappedUsdc as any, [
     estimate.totalRepayment,
   ]);
-  flashLoanClient.repayFlashLoan(tx, flashRepayment as any, receipt, "usdc");
+  await flashLoanProvider.repay(
+    tx,
+    flashLoan,
+    flashRepayment as any,
+    userAddress,
+  );
 
   // 7. Transfer remaining to user
   // Some protocols consume the repayment coin entirely, others return unused portion
@@ -204,3 +672,131 @@ export async function buildDeleverageTransaction(
     );
   }
 }
+
+/**
+ * Build a full close of a multi-asset obligation from its unwind plan
+ *
+ * Flow:
+ * 1. Flash loan every debt asset
+ * 2. Refresh oracles for all assets
+ * 3. Repay every debt
+ * 4. Withdraw every collateral
+ * 5. Route collateral into each repayment (direct or swapped)
+ * 6. Repay the flash loans
+ * 7. Transfer everything left to the user
+ */
+async function buildUnwindTransaction(
+  tx: Transaction,
+  params: DeleverageBuildParams,
+  plan: DeleverageUnwindPlan,
+): Promise<void> {
+  const {
+    protocol,
+    flashLoanProvider,
+    swapProvider,
+    userAddress,
+    obligationId,
+    position,
+  } = params;
+
+  for (const swap of plan.swaps) {
+    if (swap.quote) {
+      assertPriceImpact(
+        swap.quote,
+        swap.priceImpactBps,
+        params.maxPriceImpactBps,
+      );
+    }
+  }
+
+  // 1. Flash loan every debt asset
+  const flashLoans: FlashLoan[] = [];
+  for (const loan of plan.loans) {
+    flashLoans.push(
+      await flashLoanProvider.borrow(tx, loan.coinType, loan.amount),
+    );
+  }
+
+  // 2. Refresh oracles
+  const coinTypes = [
+    ...new Set([
+      ...position.collaterals.map((c) => c.coinType),
+      ...position.debts.map((d) => d.coinType),
+    ]),
+  ];
+  await protocol.refreshOracles(tx, coinTypes, userAddress, obligationId);
+
+  // 3. Repay every debt
+  for (const flashLoan of flashLoans) {
+    await protocol.repay(
+      tx,
+      flashLoan.coinType,
+      flashLoan.coin,
+      userAddress,
+      obligationId,
+    );
+  }
+
+  // 4. Withdraw every collateral
+  const withdrawn = new Map<string, any>();
+  for (const collateral of position.collaterals) {
+    withdrawn.set(
+      collateral.coinType,
+      await protocol.withdraw(
+        tx,
+        collateral.coinType,
+        collateral.amount.toString(),
+        userAddress,
+        obligationId,
+      ),
+    );
+  }
+
+  // 5. Route collateral into each repayment
+  const repaymentCoins = new Map<string, any[]>();
+  for (const swap of plan.swaps) {
+    const [part] = tx.splitCoins(withdrawn.get(swap.collateralCoinType), [
+      swap.amountIn,
+    ]);
+    const out = swap.quote
+      ? await swapProvider.swap(
+          tx,
+          swap.quote,
+          part,
+          userAddress,
+          params.slippageBps,
+        )
+      : part;
+    const coins = repaymentCoins.get(swap.debtCoinType) ?? [];
+    coins.push(out);
+    repaymentCoins.set(swap.debtCoinType, coins);
+  }
+
+  // 6. Repay the flash loans
+  const leftovers: any[] = [];
+  for (const [i, flashLoan] of flashLoans.entries()) {
+    const loan = plan.loans[i];
+    const [primary, ...rest] = repaymentCoins.get(loan.coinType) ?? [];
+    if (rest.length > 0) {
+      tx.mergeCoins(primary, rest);
+    }
+    const [flashRepayment] = tx.splitCoins(primary, [loan.amount + loan.fee]);
+    await flashLoanProvider.repay(
+      tx,
+      flashLoan,
+      flashRepayment as any,
+      userAddress,
+    );
+    leftovers.push(primary);
+  }
+
+  // 7. Transfer remaining to user (loan coins only hold change when the
+  // protocol's repay leaves the unused portion in them)
+  const loanCoins = protocol.consumesRepaymentCoin
+    ? []
+    : flashLoans.map((f) => f.coin);
+  tx.transferObjects(
+    [...withdrawn.values(), ...leftovers, ...loanCoins],
+    userAddress,
+  );
+}
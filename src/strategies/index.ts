@@ -5,12 +5,73 @@
 export {
   buildLeverageTransaction,
   calculateLeveragePreview,
+  calculateLeverageLimits,
+  getMaxMultiplier,
+  getPairMaxMultiplier,
+  mergeUserDeposit,
+  splitUserCoin,
+  DEFAULT_LEVERAGE_SAFETY_BUFFER,
   LeverageBuildParams,
+  LeveragePreviewParams,
+  LeverageLimitsParams,
 } from "./leverage";
 
 export {
   buildDeleverageTransaction,
   calculateDeleverageEstimate,
+  resolveDeleverageRepayAmount,
+  isMultiAssetPosition,
   DeleverageBuildParams,
   DeleverageEstimate,
+  DeleveragePreview,
+  DeleverageUnwindPlan,
+  UnwindLoan,
+  UnwindSwap,
 } from "./deleverage";
+
+export {
+  buildReleverageTransaction,
+  calculateReleveragePreview,
+  ReleverageBuildParams,
+} from "./relever";
+
+export {
+  buildRebalanceTransaction,
+  calculateRebalancePlan,
+  calculateRebalancePreview,
+  RebalanceAction,
+  RebalanceBuildParams,
+  RebalancePlan,
+  RebalancePreview,
+} from "./rebalance";
+
+export {
+  buildCollateralSwapTransaction,
+  calculateCollateralSwapEstimate,
+  getCollateralSwapRepayAmount,
+  CollateralSwapBuildParams,
+  CollateralSwapEstimate,
+} from "./collateral-swap";
+
+export {
+  buildDebtSwapTransaction,
+  calculateDebtSwapEstimate,
+  getDebtSwapRepayAmount,
+  getDebtSwapFlashLoanAmount,
+  DebtSwapBuildParams,
+  DebtSwapEstimate,
+} from "./debt-swap";
+
+export {
+  buildAddCollateralTransaction,
+  calculateAddCollateralAmount,
+  AddCollateralBuildParams,
+  AddCollateralEstimate,
+} from "./add-collateral";
+
+export {
+  buildMigrationTransaction,
+  calculateMigrationPreview,
+  MigrationBuildParams,
+  MigrationPreview,
+} from "./migrate";
@@ -6,77 +6,448 @@
 
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
-import { MetaAg, getTokenPrice } from "@7kprotocol/sdk-ts";
 import { ILendingProtocol } from "../protocols/interface";
-import { ScallopFlashLoanClient } from "../lib/scallop";
+import { IPriceSource, defaultPriceSource, getPrice } from "../price";
+import { IFlashLoanProvider } from "../flash-loan";
+import {
+  ISwapProvider,
+  SwapQuote,
+  getMinAmountOut,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
 import { normalizeCoinType, formatUnits, parseUnits } from "../lib/utils";
 import { getReserveByCoinType } from "../lib/suilend/const";
-import { USDC_COIN_TYPE, SUI_COIN_TYPE, LeveragePreview } from "../types";
+import {
+  USDC_COIN_TYPE,
+  SUI_COIN_TYPE,
+  LeveragePreview,
+  LeverageLimits,
+  MarketAsset,
+} from "../types";
 
 export interface LeverageBuildParams {
   protocol: ILendingProtocol;
-  flashLoanClient: ScallopFlashLoanClient;
-  swapClient: MetaAg;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
   suiClient: SuiClient;
   userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
   depositCoinType: string;
   depositAmount: bigint;
   multiplier: number;
+  /** Asset to flash loan and borrow (defaults to USDC) */
+  borrowCoinType?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
 }
 
-/**
- * Calculate leverage position preview (before execution)
- */
-export async function calculateLeveragePreview(params: {
+export interface LeveragePreviewParams {
+  /** Protocol whose LTV, borrow weight and prices apply */
+  protocol: ILendingProtocol;
+  swapProvider: ISwapProvider;
   depositCoinType: string;
   depositAmount: bigint;
   multiplier: number;
-}): Promise<LeveragePreview> {
-  const { depositCoinType, depositAmount, multiplier } = params;
+  borrowCoinType?: string;
+  slippageBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+/**
+ * Risk parameters of one reserve, as fractions
+ */
+interface ReserveRisk {
+  symbol: string;
+  decimals: number;
+  openLtv: number;
+  closeLtv: number;
+  borrowWeight: number;
+  price: number;
+}
+
+/**
+ * Read a reserve's risk parameters from the protocol
+ *
+ * Uses getReserveInfo first and fills gaps from getMarkets. Falls back to the
+ * price source when the protocol has no oracle price for the asset.
+ */
+async function getReserveRisk(
+  protocol: ILendingProtocol,
+  coinType: string,
+  priceSource: IPriceSource = defaultPriceSource
+): Promise<ReserveRisk> {
+  const info = await protocol.getReserveInfo(coinType);
+  let market: MarketAsset | undefined;
+  if (info?.openLtvPct === undefined || info?.closeLtvPct === undefined) {
+    const markets = await protocol.getMarkets();
+    market = markets.find((m) => normalizeCoinType(m.coinType) === coinType);
+  }
+
+  const openLtv =
+    info?.openLtvPct !== undefined ? info.openLtvPct / 100 : market?.maxLtv;
+  const closeLtv =
+    info?.closeLtvPct !== undefined
+      ? info.closeLtvPct / 100
+      : market?.liquidationThreshold;
+  if (openLtv === undefined || closeLtv === undefined) {
+    throw new Error(`${protocol.name} has no LTV data for ${coinType}`);
+  }
+
+  const protocolPrice = info?.price ?? market?.price;
+  const price = protocolPrice || (await getPrice(priceSource, coinType));
+  const symbol =
+    info?.symbol ?? market?.symbol ?? coinType.split("::").pop() ?? "???";
+  const decimals =
+    info?.decimals ??
+    market?.decimals ??
+    getReserveByCoinType(coinType)?.decimals;
+  if (decimals === undefined) {
+    throw new Error(`${protocol.name} has no decimals for ${coinType}`);
+  }
+
+  return {
+    symbol,
+    decimals,
+    openLtv,
+    closeLtv,
+    borrowWeight: info?.borrowWeight ?? market?.borrowWeight ?? 1,
+    price,
+  };
+}
+
+/**
+ * Highest multiplier the protocol allows for a collateral/debt pair
+ *
+ * Borrowing requires Debt * BorrowWeight <= Collateral * OpenLTV. With
+ * M = C / (C - D) this gives M_max = 1 / (1 - OpenLTV / BorrowWeight).
+ */
+export function getMaxMultiplier(openLtv: number, borrowWeight = 1): number {
+  const ratio = openLtv / borrowWeight;
+  return ratio >= 1 ? Infinity : 1 / (1 - ratio);
+}
+
+/** Default price drop a "safe" multiplier must survive (20%) */
+export const DEFAULT_LEVERAGE_SAFETY_BUFFER = 0.2;
+
+export interface LeverageLimitsParams {
+  protocol: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  depositCoinType: string;
+  borrowCoinType?: string;
+  /** User deposit (raw units); liquidity caps need it to become multipliers */
+  depositAmount?: bigint;
+  /** Price drop as a fraction the safe multiplier must survive */
+  safetyBuffer?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+/**
+ * Multiplier limits for a protocol and asset pair
+ *
+ * - max: open LTV and borrow weight (see getMaxMultiplier)
+ * - safe: liquidation only after a price drop of safetyBuffer, i.e.
+ *   M * (1 - b) * CloseLTV = (M - 1) * BorrowWeight
+ * - flash loan / borrow liquidity: debt E * (M - 1) must fit the pools
+ */
+export async function calculateLeverageLimits(
+  params: LeverageLimitsParams
+): Promise<LeverageLimits> {
+  const { protocol, flashLoanProvider, depositAmount } = params;
+  const safetyBuffer = params.safetyBuffer ?? DEFAULT_LEVERAGE_SAFETY_BUFFER;
+  if (safetyBuffer < 0 || safetyBuffer >= 1) {
+    throw new Error(`Invalid safety buffer: ${safetyBuffer}`);
+  }
+
+  const normalized = normalizeCoinType(params.depositCoinType);
+  const borrowCoinType = normalizeCoinType(
+    params.borrowCoinType ?? USDC_COIN_TYPE
+  );
+
+  const [deposit, borrow, markets, flashLoanLiquidity] = await Promise.all([
+    getReserveRisk(protocol, normalized, params.priceSource),
+    getReserveRisk(protocol, borrowCoinType, params.priceSource),
+    protocol.getMarkets(),
+    flashLoanProvider.supportsCoin(borrowCoinType)
+      ? flashLoanProvider.getAvailableLiquidity(borrowCoinType)
+      : Promise.resolve(0n),
+  ]);
+
+  const borrowMarket = markets.find(
+    (m) => normalizeCoinType(m.coinType) === borrowCoinType
+  );
+  const borrowLiquidity = BigInt(
+    Math.floor(
+      (borrowMarket?.availableLiquidity ?? 0) * Math.pow(10, borrow.decimals)
+    )
+  );
+
+  const maxMultiplier = getMaxMultiplier(deposit.openLtv, borrow.borrowWeight);
+  const survivingLtv = (1 - safetyBuffer) * deposit.closeLtv;
+  const safeMultiplier = Math.min(
+    maxMultiplier,
+    getMaxMultiplier(survivingLtv, borrow.borrowWeight)
+  );
+
+  // Liquidity caps in multiplier terms: M = 1 + LiquidityUsd / EquityUsd
+  let flashLoanMaxMultiplier = Infinity;
+  let borrowLiquidityMaxMultiplier = Infinity;
+  if (depositAmount !== undefined && depositAmount > 0n) {
+    const equityUsd =
+      (Number(depositAmount) / Math.pow(10, deposit.decimals)) * deposit.price;
+    const toUsd = (raw: bigint) =>
+      (Number(raw) / Math.pow(10, borrow.decimals)) * borrow.price;
+
+    // Flash loans carry the 2% buffer added in planLeverage
+    flashLoanMaxMultiplier =
+      1 + toUsd(flashLoanLiquidity) / (equityUsd * 1.02);
+    borrowLiquidityMaxMultiplier = 1 + toUsd(borrowLiquidity) / equityUsd;
+  }
+
+  return {
+    protocol: protocol.name,
+    depositCoinType: normalized,
+    borrowCoinType,
+    openLtvPercent: deposit.openLtv * 100,
+    closeLtvPercent: deposit.closeLtv * 100,
+    borrowWeight: borrow.borrowWeight,
+    maxMultiplier,
+    safeMultiplier,
+    safetyBuffer,
+    flashLoanLiquidity,
+    borrowLiquidity,
+    flashLoanMaxMultiplier,
+    borrowLiquidityMaxMultiplier,
+    recommendedMaxMultiplier: Math.min(
+      safeMultiplier,
+      flashLoanMaxMultiplier,
+      borrowLiquidityMaxMultiplier
+    ),
+  };
+}
+
+/**
+ * Highest multiplier the protocol allows for a collateral/debt pair, read
+ * from the protocol's reserves
+ */
+export async function getPairMaxMultiplier(
+  protocol: ILendingProtocol,
+  collateralCoinType: string,
+  debtCoinType: string
+): Promise<number> {
+  const [collateral, debt] = await Promise.all([
+    getReserveRisk(protocol, normalizeCoinType(collateralCoinType)),
+    getReserveRisk(protocol, normalizeCoinType(debtCoinType)),
+  ]);
+  return getMaxMultiplier(collateral.openLtv, debt.borrowWeight);
+}
+
+/**
+ * Calculate leverage position preview (before execution)
+ */
+export async function calculateLeveragePreview(
+  params: LeveragePreviewParams
+): Promise<LeveragePreview> {
+  return (await planLeverage(params)).preview;
+}
+
+/**
+ * Preview plus the swap quote it was priced from (null for same-asset loops)
+ */
+async function planLeverage(
+  params: LeveragePreviewParams
+): Promise<{ preview: LeveragePreview; quote: SwapQuote | null }> {
+  const { protocol, swapProvider, depositCoinType, depositAmount, multiplier } =
+    params;
 
   const normalized = normalizeCoinType(depositCoinType);
-  const reserve = getReserveByCoinType(normalized);
-  const decimals = reserve?.decimals || 8;
+  const borrowCoinType = normalizeCoinType(
+    params.borrowCoinType ?? USDC_COIN_TYPE
+  );
 
-  const depositPrice = await getTokenPrice(normalized);
+  const [deposit, borrow] = await Promise.all([
+    getReserveRisk(protocol, normalized, params.priceSource),
+    getReserveRisk(protocol, borrowCoinType, params.priceSource),
+  ]);
+  const decimals = deposit.decimals;
+  const borrowDecimals = borrow.decimals;
+
+  const maxMultiplier = getMaxMultiplier(deposit.openLtv, borrow.borrowWeight);
+  if (multiplier < 1 || multiplier > maxMultiplier) {
+    throw new Error(
+      `Multiplier ${multiplier}x is outside ${protocol.name} range ` +
+        `1x-${maxMultiplier.toFixed(2)}x for ${deposit.symbol}/${borrow.symbol}`
+    );
+  }
+
+  const depositPrice = deposit.price;
   const depositAmountHuman = Number(depositAmount) / Math.pow(10, decimals);
   const initialEquityUsd = depositAmountHuman * depositPrice;
 
-  // Flash loan amount = Initial Equity * (Multiplier - 1)
+  // Flash loan amount = Initial Equity * (Multiplier - 1), in borrow asset
   const flashLoanUsd = initialEquityUsd * (multiplier - 1);
-  const flashLoanUsdc = BigInt(Math.ceil(flashLoanUsd * 1e6 * 1.02)); // 2% buffer
+  const flashLoanUsdc = BigInt(
+    Math.ceil(
+      (flashLoanUsd / borrow.price) * Math.pow(10, borrowDecimals) * 1.02
+    )
+  ); // 2% buffer
 
   const totalPositionUsd = initialEquityUsd * multiplier;
   const debtUsd = flashLoanUsd;
   const ltvPercent = (debtUsd / totalPositionUsd) * 100;
 
-  // Assume 60% LTV for liquidation calculation
-  const LTV = 0.6;
-  const liquidationPrice = debtUsd / (depositAmountHuman * multiplier) / LTV;
+  // Liquidation when Collateral * CloseLTV = Debt * BorrowWeight
+  const weightedDebtUsd = debtUsd * borrow.borrowWeight;
+  const liquidationPrice =
+    weightedDebtUsd / (depositAmountHuman * multiplier) / deposit.closeLtv;
   const priceDropBuffer = (1 - liquidationPrice / depositPrice) * 100;
+  const healthFactor =
+    weightedDebtUsd > 0
+      ? (totalPositionUsd * deposit.closeLtv) / weightedDebtUsd
+      : Infinity;
 
-  return {
+  // Quote the borrow asset → deposit asset swap (same-asset loops need none)
+  let quote: SwapQuote | null = null;
+  let expectedSwapOut = flashLoanUsdc;
+  let priceImpactBps = 0;
+  if (borrowCoinType !== normalized) {
+    quote = await swapProvider.quote({
+      amountIn: flashLoanUsdc,
+      coinTypeIn: borrowCoinType,
+      coinTypeOut: normalized,
+    });
+
+    if (!quote) {
+      throw new Error(
+        `No swap quotes found for ${borrow.symbol} → ${deposit.symbol}`
+      );
+    }
+
+    expectedSwapOut = quote.amountOut;
+    priceImpactBps = await getPriceImpactBps(
+      quote,
+      borrowDecimals,
+      decimals,
+      params.priceSource
+    );
+  }
+
+  const preview: LeveragePreview = {
     initialEquityUsd,
     flashLoanUsdc,
+    borrowCoinType,
+    borrowSymbol: borrow.symbol,
+    borrowDecimals,
     totalPositionUsd,
     debtUsd,
     effectiveMultiplier: multiplier,
+    maxMultiplier,
     ltvPercent,
+    openLtvPercent: deposit.openLtv * 100,
+    closeLtvPercent: deposit.closeLtv * 100,
+    borrowWeight: borrow.borrowWeight,
+    healthFactor,
     liquidationPrice,
     priceDropBuffer,
+    expectedSwapOut,
+    minSwapOut: quote
+      ? getMinAmountOut(expectedSwapOut, params.slippageBps)
+      : expectedSwapOut,
+    priceImpactBps,
   };
+
+  return { preview, quote };
+}
+
+/**
+ * Split an exact amount of a coin from the user's wallet
+ *
+ * SUI is split from gas; other assets are merged from wallet coins and the
+ * exact amount split off.
+ */
+export async function splitUserCoin(
+  tx: Transaction,
+  params: {
+    suiClient: SuiClient;
+    userAddress: string;
+    coinType: string;
+    amount: bigint;
+  }
+): Promise<any> {
+  const { suiClient, userAddress, coinType, amount } = params;
+
+  const normalized = normalizeCoinType(coinType);
+  const isSui = normalized.endsWith("::sui::SUI");
+
+  if (isSui) {
+    const [userCoin] = tx.splitCoins(tx.gas, [amount]);
+    return userCoin;
+  }
+
+  // For non-SUI: fetch user's coins, merge, split exact amount
+  const userCoins = await suiClient.getCoins({
+    owner: userAddress,
+    coinType: normalized,
+  });
+
+  if (userCoins.data.length === 0) {
+    const reserve = getReserveByCoinType(normalized);
+    throw new Error(`No ${reserve?.symbol} coins found in wallet`);
+  }
+
+  const primaryCoin = tx.object(userCoins.data[0].coinObjectId);
+  if (userCoins.data.length > 1) {
+    const otherCoins = userCoins.data
+      .slice(1)
+      .map((c) => tx.object(c.coinObjectId));
+    tx.mergeCoins(primaryCoin, otherCoins);
+  }
+
+  const [userCoin] = tx.splitCoins(primaryCoin, [amount]);
+  return userCoin;
+}
+
+/**
+ * Merge the user's own deposit into the swapped collateral coin
+ *
+ * A zero amount returns the swapped coin as-is.
+ */
+export async function mergeUserDeposit(
+  tx: Transaction,
+  params: {
+    suiClient: SuiClient;
+    userAddress: string;
+    coinType: string;
+    amount: bigint;
+    swappedCoin: any;
+  }
+): Promise<any> {
+  if (params.amount === 0n) {
+    return params.swappedCoin;
+  }
+
+  const userDeposit = await splitUserCoin(tx, params);
+  tx.mergeCoins(userDeposit, [params.swappedCoin]);
+  return userDeposit;
 }
 
 /**
  * Build leverage transaction
  *
  * Flow:
- * 1. Flash loan USDC from Scallop
- * 2. Swap USDC → deposit asset
+ * 1. Flash loan borrow asset (USDC by default)
+ * 2. Swap borrow asset → deposit asset (skipped when they are the same)
  * 3. Merge user's deposit with swapped asset
  * 4. Refresh oracles
  * 5. Deposit total to lending protocol
- * 6. Borrow USDC to repay flash loan
+ * 6. Borrow the borrow asset to repay flash loan
  * 7. Repay flash loan
  */
 export async function buildLeverageTransaction(
@@ -85,113 +456,105 @@ export async function buildLeverageTransaction(
 ): Promise<void> {
   const {
     protocol,
-    flashLoanClient,
-    swapClient,
+    flashLoanProvider,
+    swapProvider,
     suiClient,
     userAddress,
+    obligationId,
     depositCoinType,
     depositAmount,
     multiplier,
+    slippageBps,
   } = params;
 
   const normalized = normalizeCoinType(depositCoinType);
-  const reserve = getReserveByCoinType(normalized);
-  const decimals = reserve?.decimals || 8;
 
-  // Calculate preview to get flash loan amount
-  const preview = await calculateLeveragePreview({
+  const borrowCoinType = normalizeCoinType(
+    params.borrowCoinType ?? USDC_COIN_TYPE
+  );
+
+  // Calculate preview to get flash loan amount and the swap quote
+  const { preview, quote } = await planLeverage({
+    protocol,
+    swapProvider,
     depositCoinType: normalized,
     depositAmount,
     multiplier,
+    borrowCoinType,
+    slippageBps,
+    priceSource: params.priceSource,
   });
 
-  const flashLoanUsdc = preview.flashLoanUsdc;
+  // Refuse to build when the swap moves the price too far from the oracle
+  if (quote) {
+    assertPriceImpact(quote, preview.priceImpactBps, params.maxPriceImpactBps);
+  }
+
+  const flashLoanAmount = preview.flashLoanUsdc;
 
-  // 1. Flash loan USDC from Scallop
-  const [loanCoin, receipt] = flashLoanClient.borrowFlashLoan(
+  // 1. Flash loan borrow asset
+  const flashLoan = await flashLoanProvider.borrow(
     tx,
-    flashLoanUsdc,
-    "usdc"
+    borrowCoinType,
+    flashLoanAmount
   );
+  const loanCoin = flashLoan.coin;
 
-  // 2. Swap USDC → deposit asset
-  const swapQuotes = await swapClient.quote({
-    amountIn: flashLoanUsdc.toString(),
-    coinTypeIn: USDC_COIN_TYPE,
-    coinTypeOut: normalized,
-  });
-
-  if (swapQuotes.length === 0) {
-    throw new Error(`No swap quotes found for USDC → ${reserve?.symbol}`);
+  // 2. Swap borrow asset → deposit asset (same-asset loops need no swap)
+  let swappedAsset: any = loanCoin;
+  if (quote) {
+    swappedAsset = await swapProvider.swap(
+      tx,
+      quote,
+      loanCoin,
+      userAddress,
+      slippageBps
+    );
   }
 
-  const bestQuote = swapQuotes.sort(
-    (a, b) => Number(b.amountOut) - Number(a.amountOut)
-  )[0];
-
-  const swappedAsset = await swapClient.swap(
-    {
-      quote: bestQuote,
-      signer: userAddress,
-      coinIn: loanCoin,
-      tx: tx,
-    },
-    100 // slippage
-  );
-
   // 3. Prepare deposit coin (merge user's asset with swapped)
-  let depositCoin: any;
-  const isSui = normalized.endsWith("::sui::SUI");
-
-  if (isSui) {
-    // For SUI: split from gas and merge
-    const [userDeposit] = tx.splitCoins(tx.gas, [depositAmount]);
-    tx.mergeCoins(userDeposit, [swappedAsset]);
-    depositCoin = userDeposit;
-  } else {
-    // For non-SUI: fetch user's coins, merge, split exact amount
-    const userCoins = await suiClient.getCoins({
-      owner: userAddress,
-      coinType: normalized,
-    });
-
-    if (userCoins.data.length === 0) {
-      throw new Error(`No ${reserve?.symbol} coins found in wallet`);
-    }
-
-    const primaryCoin = tx.object(userCoins.data[0].coinObjectId);
-    if (userCoins.data.length > 1) {
-      const otherCoins = userCoins.data
-        .slice(1)
-        .map((c) => tx.object(c.coinObjectId));
-      tx.mergeCoins(primaryCoin, otherCoins);
-    }
-
-    // Split exact deposit amount
-    const [userContribution] = tx.splitCoins(primaryCoin, [depositAmount]);
-    tx.mergeCoins(userContribution, [swappedAsset]);
-    depositCoin = userContribution;
-  }
+  const depositCoin = await mergeUserDeposit(tx, {
+    suiClient,
+    userAddress,
+    coinType: normalized,
+    amount: depositAmount,
+    swappedCoin: swappedAsset,
+  });
 
   // 4. Refresh oracles
-  await protocol.refreshOracles(tx, [normalized, USDC_COIN_TYPE], userAddress);
+  await protocol.refreshOracles(
+    tx,
+    [normalized, borrowCoinType],
+    userAddress,
+    obligationId
+  );
 
   // 5. Deposit to lending protocol
-  await protocol.deposit(tx, depositCoin, normalized, userAddress);
+  await protocol.deposit(
+    tx,
+    depositCoin,
+    normalized,
+    userAddress,
+    obligationId
+  );
 
   // 6. Calculate repayment amount (flash loan + fee)
-  const flashLoanFee = ScallopFlashLoanClient.calculateFee(flashLoanUsdc);
-  const repaymentAmount = flashLoanUsdc + flashLoanFee;
+  const flashLoanFee = flashLoanProvider.calculateFee(
+    borrowCoinType,
+    flashLoanAmount
+  );
+  const repaymentAmount = flashLoanAmount + flashLoanFee;
 
-  // 7. Borrow USDC to repay flash loan
-  const borrowedUsdc = await protocol.borrow(
+  // 7. Borrow to repay flash loan
+  const borrowedCoin = await protocol.borrow(
     tx,
-    USDC_COIN_TYPE,
+    borrowCoinType,
     repaymentAmount.toString(),
     userAddress,
-    true // Skip oracle (already done)
+    true, // Skip oracle (already done)
+    obligationId
   );
 
   // 8. Repay flash loan
-  flashLoanClient.repayFlashLoan(tx, borrowedUsdc, receipt, "usdc");
+  await flashLoanProvider.repay(tx, flashLoan, borrowedCoin, userAddress);
 }
@@ -0,0 +1,376 @@
+/**
+ * DeFi Dash SDK - Position Migration Strategy Builder
+ *
+ * Moves a leveraged position from one lending protocol to another
+ * (e.g., Suilend → Navi) in a single PTB
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import {
+  ILendingProtocol,
+  ObligationRef,
+  PendingObligation,
+} from "../protocols/interface";
+import { IFlashLoanProvider, FlashLoan } from "../flash-loan";
+import {
+  ISwapProvider,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
+import { IPriceSource } from "../price";
+import { isMultiAssetPosition } from "./deleverage";
+import { normalizeCoinType } from "../lib/utils";
+import {
+  PositionInfo,
+  AccountPortfolio,
+  MarketAsset,
+  PositionSide,
+} from "../types";
+
+export interface MigrationBuildParams {
+  /** Protocol currently holding the position */
+  source: ILendingProtocol;
+  /** Protocol receiving the position */
+  target: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Source obligation/account (protocol default if omitted) */
+  sourceObligationId?: string;
+  /** Target obligation/account (protocol default if omitted) */
+  targetObligationId?: string;
+  /** Live position on the source protocol */
+  position: PositionInfo;
+  /** Collateral coin type on the target (defaults to the current one) */
+  targetCoinType?: string;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+export interface MigrationPreview {
+  from: string;
+  to: string;
+  collateralCoinType: string;
+  targetCollateralCoinType: string;
+  /** False when the collateral is the same asset on both sides */
+  needsSwap: boolean;
+  /** Collateral withdrawn from the source protocol */
+  withdrawAmount: bigint;
+  /** Flash loan of the debt asset (= source debt repaid), 0 if no debt */
+  flashLoanUsdc: bigint;
+  flashLoanFee: bigint;
+  /** Collateral APY on the source / target protocol (decimal, 0.05 = 5%) */
+  sourceSupplyApy: number;
+  targetSupplyApy: number;
+  /** Debt asset borrow APY on the source / target protocol (decimal) */
+  sourceBorrowApy: number;
+  targetBorrowApy: number;
+  /** Net APY on equity on the source / target protocol (decimal) */
+  sourceNetApy: number;
+  targetNetApy: number;
+  /** targetNetApy - sourceNetApy (positive means migrating earns more) */
+  apyDelta: number;
+}
+
+/**
+ * Size the flash loan that repays the source debt
+ * (0.5% buffer for accrued interest)
+ */
+function getMigrationFlashLoan(position: PositionInfo): bigint {
+  return position.debt.amount > 0n
+    ? (position.debt.amount * 1005n) / 1000n
+    : 0n;
+}
+
+/**
+ * Find an asset's APY, preferring the user's own portfolio position and
+ * falling back to the protocol's market data
+ */
+function findApy(
+  coinType: string,
+  side: PositionSide,
+  portfolio: AccountPortfolio,
+  markets: MarketAsset[],
+): number {
+  const normalized = normalizeCoinType(coinType);
+  const position = portfolio.positions.find(
+    (p) => p.side === side && normalizeCoinType(p.coinType) === normalized,
+  );
+  if (position) return position.apy;
+
+  const market = markets.find(
+    (m) => normalizeCoinType(m.coinType) === normalized,
+  );
+  if (!market) return 0;
+  return side === "supply" ? market.supplyApy : market.borrowApy;
+}
+
+/**
+ * Calculate migration preview including the net APY delta
+ *
+ * Net APY on equity = (Collateral * SupplyAPY - Debt * BorrowAPY) / Equity
+ */
+export function calculateMigrationPreview(
+  params: MigrationBuildParams & {
+    sourcePortfolio: AccountPortfolio;
+    sourceMarkets: MarketAsset[];
+    targetPortfolio: AccountPortfolio;
+    targetMarkets: MarketAsset[];
+  },
+): MigrationPreview {
+  const { source, target, flashLoanProvider, position } = params;
+  const { collateral, debt } = position;
+
+  const collateralCoinType = normalizeCoinType(collateral.coinType);
+  const targetCollateralCoinType = normalizeCoinType(
+    params.targetCoinType ?? collateral.coinType,
+  );
+
+  const flashLoanUsdc = getMigrationFlashLoan(position);
+  const flashLoanFee =
+    flashLoanUsdc > 0n
+      ? flashLoanProvider.calculateFee(debt.coinType, flashLoanUsdc)
+      : 0n;
+
+  const sourceSupplyApy = findApy(
+    collateralCoinType,
+    "supply",
+    params.sourcePortfolio,
+    params.sourceMarkets,
+  );
+  const sourceBorrowApy = findApy(
+    debt.coinType,
+    "borrow",
+    params.sourcePortfolio,
+    params.sourceMarkets,
+  );
+  const targetSupplyApy = findApy(
+    targetCollateralCoinType,
+    "supply",
+    params.targetPortfolio,
+    params.targetMarkets,
+  );
+  const targetBorrowApy = findApy(
+    debt.coinType,
+    "borrow",
+    params.targetPortfolio,
+    params.targetMarkets,
+  );
+
+  const equityUsd = collateral.valueUsd - debt.valueUsd;
+  const netApy = (supplyApy: number, borrowApy: number) =>
+    equityUsd > 0
+      ? (collateral.valueUsd * supplyApy - debt.valueUsd * borrowApy) /
+        equityUsd
+      : 0;
+
+  const sourceNetApy = netApy(sourceSupplyApy, sourceBorrowApy);
+  const targetNetApy = netApy(targetSupplyApy, targetBorrowApy);
+
+  return {
+    from: source.name,
+    to: target.name,
+    collateralCoinType,
+    targetCollateralCoinType,
+    needsSwap: collateralCoinType !== targetCollateralCoinType,
+    withdrawAmount: collateral.amount,
+    flashLoanUsdc,
+    flashLoanFee,
+    sourceSupplyApy,
+    targetSupplyApy,
+    sourceBorrowApy,
+    targetBorrowApy,
+    sourceNetApy,
+    targetNetApy,
+    apyDelta: targetNetApy - sourceNetApy,
+  };
+}
+
+/**
+ * Build position migration transaction
+ *
+ * Flow:
+ * 1. Flash loan the debt asset (source debt)
+ * 2. Refresh oracles on both protocols (opening a target obligation first
+ *    when the user has none there)
+ * 3. Repay debt on the source protocol
+ * 4. Withdraw all collateral from the source protocol
+ * 5. Swap collateral (only when the target asset differs)
+ * 6. Deposit collateral into the target protocol
+ * 7. Borrow the debt asset on the target protocol
+ * 8. Repay flash loan
+ * 9. Return unused flash-loan funds to the target debt
+ * 10. Hand a newly opened target obligation to the user
+ */
+export async function buildMigrationTransaction(
+  tx: Transaction,
+  params: MigrationBuildParams,
+): Promise<void> {
+  const {
+    source,
+    target,
+    flashLoanProvider,
+    swapProvider,
+    userAddress,
+    position,
+  } = params;
+
+  if (source.name === target.name) {
+    throw new Error("Source and target protocols must differ");
+  }
+
+  // Only the primary pair moves; anything else would stay behind
+  if (isMultiAssetPosition(position)) {
+    throw new Error(
+      "Migration supports one collateral and one debt; deleverage first",
+    );
+  }
+
+  const collateralCoinType = normalizeCoinType(position.collateral.coinType);
+  const targetCoinType = normalizeCoinType(
+    params.targetCoinType ?? position.collateral.coinType,
+  );
+  const debtCoinType = position.debt.coinType;
+  const flashLoanUsdc = getMigrationFlashLoan(position);
+
+  // 1. Flash loan the debt asset
+  let flashLoan: FlashLoan | undefined;
+  if (flashLoanUsdc > 0n) {
+    flashLoan = await flashLoanProvider.borrow(tx, debtCoinType, flashLoanUsdc);
+  }
+  const loanCoin = flashLoan?.coin;
+
+  // 2. Refresh oracles on both protocols. A target without any obligation
+  // gets one opened in this PTB so the borrow below has somewhere to go.
+  let openedObligation: PendingObligation | undefined;
+  if (
+    !params.targetObligationId &&
+    (await target.getObligations(userAddress)).length === 0
+  ) {
+    openedObligation = await target.openObligation(tx, userAddress);
+  }
+  const targetObligation: ObligationRef | undefined =
+    openedObligation ?? params.targetObligationId;
+
+  await source.refreshOracles(
+    tx,
+    [collateralCoinType, debtCoinType],
+    userAddress,
+    params.sourceObligationId,
+  );
+  await target.refreshOracles(
+    tx,
+    [targetCoinType, debtCoinType],
+    userAddress,
+    targetObligation,
+  );
+
+  // 3. Repay source debt
+  if (flashLoan) {
+    await source.repay(
+      tx,
+      debtCoinType,
+      loanCoin,
+      userAddress,
+      params.sourceObligationId,
+    );
+  }
+
+  // 4. Withdraw all collateral from source
+  let collateralCoin = await source.withdraw(
+    tx,
+    collateralCoinType,
+    position.collateral.amount.toString(),
+    userAddress,
+    params.sourceObligationId,
+  );
+
+  // 5. Swap only when the target collateral differs
+  if (targetCoinType !== collateralCoinType) {
+    const bestQuote = await swapProvider.quote({
+      amountIn: position.collateral.amount,
+      coinTypeIn: collateralCoinType,
+      coinTypeOut: targetCoinType,
+    });
+
+    if (!bestQuote) {
+      throw new Error(
+        `No swap quotes for ${collateralCoinType} → ${targetCoinType}`,
+      );
+    }
+
+    const targetReserve = await target.getReserveInfo(targetCoinType);
+    if (!targetReserve) {
+      throw new Error(`${targetCoinType} is not a ${target.name} reserve`);
+    }
+    const priceImpactBps = await getPriceImpactBps(
+      bestQuote,
+      position.collateral.decimals,
+      targetReserve.decimals,
+      params.priceSource,
+    );
+    assertPriceImpact(bestQuote, priceImpactBps, params.maxPriceImpactBps);
+
+    collateralCoin = await swapProvider.swap(
+      tx,
+      bestQuote,
+      collateralCoin,
+      userAddress,
+      params.slippageBps,
+    );
+  }
+
+  // 6. Deposit into target
+  await target.deposit(
+    tx,
+    collateralCoin,
+    targetCoinType,
+    userAddress,
+    targetObligation,
+  );
+
+  if (flashLoan) {
+    // 7. Borrow the debt asset on target (loan + fee)
+    const flashLoanFee = flashLoanProvider.calculateFee(
+      debtCoinType,
+      flashLoanUsdc,
+    );
+    const borrowedCoin = await target.borrow(
+      tx,
+      debtCoinType,
+      (flashLoanUsdc + flashLoanFee).toString(),
+      userAddress,
+      true, // Skip oracle (already done)
+      targetObligation,
+    );
+
+    // 8. Repay flash loan
+    await flashLoanProvider.repay(tx, flashLoan, borrowedCoin, userAddress);
+
+    // 9. If the source returned the interest buffer, pay it into the target
+    // debt
+    if (!source.consumesRepaymentCoin) {
+      await target.repay(
+        tx,
+        debtCoinType,
+        loanCoin,
+        userAddress,
+        targetObligation,
+      );
+      if (!target.consumesRepaymentCoin) {
+        tx.transferObjects([loanCoin], userAddress);
+      }
+    }
+  }
+
+  // 10. Send the new obligation's owner cap to the user
+  if (openedObligation) {
+    await target.closeObligation(tx, openedObligation, userAddress);
+  }
+}
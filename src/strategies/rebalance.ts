@@ -0,0 +1,232 @@
+/**
+ * DeFi Dash SDK - Rebalance Strategy Builder
+ *
+ * Moves a position back into a target health-factor band by either
+ * removing leverage (partial deleverage) or adding it (re-leverage)
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "../protocols/interface";
+import { IPriceSource } from "../price";
+import { IFlashLoanProvider } from "../flash-loan";
+import { ISwapProvider } from "../swap";
+import {
+  buildDeleverageTransaction,
+  calculateDeleverageEstimate,
+  DeleverageEstimate,
+} from "./deleverage";
+import {
+  buildReleverageTransaction,
+  calculateReleveragePreview,
+} from "./relever";
+import {
+  PositionInfo,
+  AccountPortfolio,
+  HealthFactorBand,
+  ReleveragePreview,
+} from "../types";
+
+export type RebalanceAction = "deleverage" | "leverage" | "none";
+
+export interface RebalanceBuildParams {
+  protocol: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  position: PositionInfo;
+  /** Portfolio providing the protocol's health factor */
+  portfolio: AccountPortfolio;
+  band: HealthFactorBand;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+export interface RebalancePlan {
+  action: RebalanceAction;
+  currentHealthFactor: number;
+  targetHealthFactor: number;
+  currentMultiplier: number;
+  /** Primary pair multiplier that yields the target health factor */
+  targetMultiplier: number;
+  /** Primary pair LTV percentage that yields the target health factor */
+  targetLtvPercent: number;
+}
+
+export interface RebalancePreview extends RebalancePlan {
+  /** Set when action is "deleverage" */
+  deleverage?: DeleverageEstimate;
+  /** Set when action is "leverage" */
+  releverage?: ReleveragePreview;
+}
+
+/**
+ * Decide whether (and how far) to rebalance
+ *
+ * Only the primary collateral/debt pair is resized, so the move is solved
+ * over the whole portfolio. Moving X USD of debt (and about X USD of
+ * collateral) on that pair changes the health factor to:
+ *   HF' = (LiqThreshold ± X * t) / (WeightedBorrows ± X * w)
+ * where t is the primary collateral's threshold and w the primary debt's
+ * borrow weight. Solving HF' = h:
+ *   X = |h * WeightedBorrows - LiqThreshold| / (h * w - t)
+ * The result is expressed as the primary pair's LTV and multiplier, which
+ * keep that pair's equity constant.
+ */
+export function calculateRebalancePlan(params: {
+  position: PositionInfo;
+  portfolio: AccountPortfolio;
+  band: HealthFactorBand;
+}): RebalancePlan {
+  const { position, portfolio, band } = params;
+  const { minHealthFactor, maxHealthFactor } = band;
+
+  if (minHealthFactor <= 1 || maxHealthFactor <= minHealthFactor) {
+    throw new Error(
+      `Invalid health factor band: [${minHealthFactor}, ${maxHealthFactor}]`,
+    );
+  }
+
+  const targetHealthFactor =
+    band.targetHealthFactor ?? (minHealthFactor + maxHealthFactor) / 2;
+  if (
+    targetHealthFactor < minHealthFactor ||
+    targetHealthFactor > maxHealthFactor
+  ) {
+    throw new Error(
+      `Target health factor ${targetHealthFactor} is outside the band`,
+    );
+  }
+
+  if (portfolio.totalCollateralUsd <= 0) {
+    throw new Error("Portfolio has no collateral to rebalance");
+  }
+
+  const thresholdUsd = portfolio.liquidationThresholdUsd ?? 0;
+  if (thresholdUsd <= 0) {
+    throw new Error("Portfolio has no liquidation threshold");
+  }
+  const weightedBorrowsUsd =
+    portfolio.weightedBorrowsUsd ?? portfolio.totalDebtUsd;
+
+  // Primary pair risk parameters (portfolio blend when not reported)
+  const { collateral, debt } = position;
+  const liqThreshold =
+    collateral.closeLtvPct !== undefined
+      ? collateral.closeLtvPct / 100
+      : thresholdUsd / portfolio.totalCollateralUsd;
+  const borrowWeight =
+    debt.borrowWeight ??
+    (portfolio.totalDebtUsd > 0
+      ? weightedBorrowsUsd / portfolio.totalDebtUsd
+      : 1);
+  const unreachable = () =>
+    new Error(
+      `Target health factor ${targetHealthFactor} is unreachable by resizing ${collateral.symbol}/${debt.symbol}`,
+    );
+  if (targetHealthFactor * borrowWeight <= liqThreshold) {
+    throw unreachable();
+  }
+
+  // Debt to add (> 0) or repay (< 0) on the primary pair
+  const debtChangeUsd =
+    (thresholdUsd - targetHealthFactor * weightedBorrowsUsd) /
+    (targetHealthFactor * borrowWeight - liqThreshold);
+  if (-debtChangeUsd > debt.valueUsd) {
+    // Repaying all of the pair's debt still leaves other debts too high
+    throw unreachable();
+  }
+  const targetCollateralUsd = collateral.valueUsd + debtChangeUsd;
+  const targetDebtUsd = debt.valueUsd + debtChangeUsd;
+
+  const equityUsd = collateral.valueUsd - debt.valueUsd;
+  const currentMultiplier =
+    equityUsd > 0 ? collateral.valueUsd / equityUsd : Infinity;
+  const targetLtv =
+    targetCollateralUsd > 0 ? targetDebtUsd / targetCollateralUsd : 0;
+  const targetMultiplier = 1 / (1 - targetLtv);
+
+  const currentHealthFactor = portfolio.healthFactor;
+  let action: RebalanceAction = "none";
+  if (currentHealthFactor < minHealthFactor) {
+    action = "deleverage";
+  } else if (currentHealthFactor > maxHealthFactor) {
+    action = "leverage";
+  }
+
+  return {
+    action,
+    currentHealthFactor,
+    targetHealthFactor,
+    currentMultiplier,
+    targetMultiplier,
+    targetLtvPercent: targetLtv * 100,
+  };
+}
+
+/**
+ * Calculate rebalance preview (plan + estimate of the chosen action)
+ */
+export async function calculateRebalancePreview(
+  params: RebalanceBuildParams,
+): Promise<RebalancePreview> {
+  const plan = calculateRebalancePlan(params);
+
+  if (plan.action === "deleverage") {
+    const deleverage = await calculateDeleverageEstimate({
+      ...params,
+      target: { targetLtvPercent: plan.targetLtvPercent },
+    });
+    return { ...plan, deleverage };
+  }
+
+  if (plan.action === "leverage") {
+    const releverage = await calculateReleveragePreview({
+      protocol: params.protocol,
+      position: params.position,
+      targetMultiplier: plan.targetMultiplier,
+      priceSource: params.priceSource,
+    });
+    return { ...plan, releverage };
+  }
+
+  return plan;
+}
+
+/**
+ * Build rebalance transaction
+ *
+ * Flow:
+ * - HF below band → partial deleverage to the target LTV
+ * - HF above band → re-leverage to the target multiplier
+ * - HF inside band → no commands are added
+ *
+ * @returns The plan that was built
+ */
+export async function buildRebalanceTransaction(
+  tx: Transaction,
+  params: RebalanceBuildParams,
+): Promise<RebalancePlan> {
+  const plan = calculateRebalancePlan(params);
+
+  if (plan.action === "deleverage") {
+    await buildDeleverageTransaction(tx, {
+      ...params,
+      target: { targetLtvPercent: plan.targetLtvPercent },
+    });
+  } else if (plan.action === "leverage") {
+    await buildReleverageTransaction(tx, {
+      ...params,
+      targetMultiplier: plan.targetMultiplier,
+    });
+  }
+
+  return plan;
+}
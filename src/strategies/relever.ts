@@ -0,0 +1,255 @@
+/**
+ * DeFi Dash SDK - Re-leverage Strategy Builder
+ *
+ * Builds transactions that lever up an existing position using its current
+ * equity (optionally topped up with extra wallet capital)
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { ILendingProtocol } from "../protocols/interface";
+import { IPriceSource } from "../price";
+import { IFlashLoanProvider } from "../flash-loan";
+import {
+  ISwapProvider,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "../swap";
+import { normalizeCoinType } from "../lib/utils";
+import { mergeUserDeposit, getPairMaxMultiplier } from "./leverage";
+import { getDebtPrice, isMultiAssetPosition } from "./deleverage";
+import { PositionInfo, ReleveragePreview } from "../types";
+
+export interface ReleverageBuildParams {
+  protocol: ILendingProtocol;
+  flashLoanProvider: IFlashLoanProvider;
+  swapProvider: ISwapProvider;
+  suiClient: SuiClient;
+  userAddress: string;
+  /** Obligation/account to act on (protocol default if omitted) */
+  obligationId?: string;
+  /** Live position to lever up */
+  position: PositionInfo;
+  targetMultiplier: number;
+  /** Extra collateral from the wallet (raw units, may be 0n) */
+  depositAmount?: bigint;
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+  /** Prices for price-impact checks and fallbacks (default: cached 7k) */
+  priceSource?: IPriceSource;
+}
+
+/**
+ * Calculate re-leverage preview from the live position
+ *
+ * For equity E and target multiplier M:
+ *   Debt' = (M - 1) * E  →  Additional debt = Debt' - Debt
+ */
+export async function calculateReleveragePreview(params: {
+  /** Protocol whose LTV and borrow weight cap the target */
+  protocol: ILendingProtocol;
+  position: PositionInfo;
+  targetMultiplier: number;
+  depositAmount?: bigint;
+  priceSource?: IPriceSource;
+}): Promise<ReleveragePreview> {
+  const { protocol, position, targetMultiplier } = params;
+  const depositAmount = params.depositAmount ?? 0n;
+  const { collateral, debt } = position;
+
+  // Only the primary pair is resized; other assets would skew the target
+  if (isMultiAssetPosition(position)) {
+    throw new Error(
+      "Re-leverage supports one collateral and one debt; deleverage first",
+    );
+  }
+
+  const positionEquityUsd = collateral.valueUsd - debt.valueUsd;
+  if (positionEquityUsd <= 0) {
+    throw new Error("Position has no equity to re-leverage");
+  }
+
+  const currentMultiplier = collateral.valueUsd / positionEquityUsd;
+  if (targetMultiplier <= currentMultiplier) {
+    throw new Error(
+      `Target multiplier ${targetMultiplier.toFixed(2)}x is not above current ${currentMultiplier.toFixed(2)}x. Use deleverage instead.`,
+    );
+  }
+
+  const maxMultiplier = await getPairMaxMultiplier(
+    protocol,
+    collateral.coinType,
+    debt.coinType,
+  );
+  if (targetMultiplier > maxMultiplier) {
+    throw new Error(
+      `Target multiplier ${targetMultiplier.toFixed(2)}x exceeds ${protocol.name} max ${maxMultiplier.toFixed(2)}x for ${collateral.symbol}/${debt.symbol}`,
+    );
+  }
+
+  // Price the extra deposit at the position's own collateral valuation
+  const collateralPrice =
+    collateral.amount > 0n
+      ? collateral.valueUsd /
+        (Number(collateral.amount) / Math.pow(10, collateral.decimals))
+      : 0;
+  const additionalDepositUsd =
+    (Number(depositAmount) / Math.pow(10, collateral.decimals)) *
+    collateralPrice;
+
+  const equityUsd = positionEquityUsd + additionalDepositUsd;
+  const debtUsd = equityUsd * (targetMultiplier - 1);
+  const additionalDebtUsd = debtUsd - debt.valueUsd;
+
+  if (additionalDebtUsd <= 0) {
+    throw new Error("No additional debt needed to reach target multiplier");
+  }
+
+  // Flash loan in the position's debt asset
+  const debtPrice = await getDebtPrice(position, params.priceSource);
+  const flashLoanUsdc = BigInt(
+    Math.ceil(
+      (additionalDebtUsd / debtPrice) * Math.pow(10, debt.decimals) * 1.02,
+    ),
+  ); // 2% buffer
+  const totalPositionUsd = equityUsd * targetMultiplier;
+
+  return {
+    currentMultiplier,
+    targetMultiplier,
+    equityUsd,
+    additionalDepositUsd,
+    flashLoanUsdc,
+    additionalDebtUsd,
+    totalPositionUsd,
+    debtUsd,
+    ltvPercent: (debtUsd / totalPositionUsd) * 100,
+  };
+}
+
+/**
+ * Build re-leverage transaction
+ *
+ * Flow:
+ * 1. Flash loan the debt asset (additional debt only)
+ * 2. Swap debt asset → collateral asset (skipped when they are the same)
+ * 3. Merge optional wallet deposit with swapped asset
+ * 4. Refresh oracles
+ * 5. Deposit into the existing obligation
+ * 6. Borrow the debt asset to repay flash loan
+ * 7. Repay flash loan
+ */
+export async function buildReleverageTransaction(
+  tx: Transaction,
+  params: ReleverageBuildParams,
+): Promise<void> {
+  const {
+    protocol,
+    flashLoanProvider,
+    swapProvider,
+    suiClient,
+    userAddress,
+    obligationId,
+    position,
+    targetMultiplier,
+  } = params;
+  const depositAmount = params.depositAmount ?? 0n;
+  const collateralCoinType = position.collateral.coinType;
+  const debtCoinType = position.debt.coinType;
+
+  const preview = await calculateReleveragePreview({
+    protocol,
+    position,
+    targetMultiplier,
+    depositAmount,
+    priceSource: params.priceSource,
+  });
+  const flashLoanUsdc = preview.flashLoanUsdc;
+
+  // 1. Flash loan the debt asset
+  const flashLoan = await flashLoanProvider.borrow(
+    tx,
+    debtCoinType,
+    flashLoanUsdc,
+  );
+  const loanCoin = flashLoan.coin;
+
+  // 2. Swap debt asset → collateral asset (same-asset loops need no swap)
+  const isSameAsset =
+    normalizeCoinType(debtCoinType) === normalizeCoinType(collateralCoinType);
+  let swappedAsset: any = loanCoin;
+  if (!isSameAsset) {
+    const bestQuote = await swapProvider.quote({
+      amountIn: flashLoanUsdc,
+      coinTypeIn: debtCoinType,
+      coinTypeOut: collateralCoinType,
+    });
+
+    if (!bestQuote) {
+      throw new Error(
+        `No swap quotes found for ${position.debt.symbol} → ${position.collateral.symbol}`,
+      );
+    }
+
+    const priceImpactBps = await getPriceImpactBps(
+      bestQuote,
+      position.debt.decimals,
+      position.collateral.decimals,
+      params.priceSource,
+    );
+    assertPriceImpact(bestQuote, priceImpactBps, params.maxPriceImpactBps);
+
+    swappedAsset = await swapProvider.swap(
+      tx,
+      bestQuote,
+      loanCoin,
+      userAddress,
+      params.slippageBps,
+    );
+  }
+
+  // 3. Merge optional wallet deposit
+  const depositCoin = await mergeUserDeposit(tx, {
+    suiClient,
+    userAddress,
+    coinType: collateralCoinType,
+    amount: depositAmount,
+    swappedCoin: swappedAsset,
+  });
+
+  // 4. Refresh oracles
+  await protocol.refreshOracles(
+    tx,
+    [collateralCoinType, debtCoinType],
+    userAddress,
+    obligationId,
+  );
+
+  // 5. Deposit into the existing obligation
+  await protocol.deposit(
+    tx,
+    depositCoin,
+    collateralCoinType,
+    userAddress,
+    obligationId,
+  );
+
+  // 6. Borrow the debt asset to repay flash loan (loan + fee)
+  const flashLoanFee = flashLoanProvider.calculateFee(
+    debtCoinType,
+    flashLoanUsdc,
+  );
+  const borrowedCoin = await protocol.borrow(
+    tx,
+    debtCoinType,
+    (flashLoanUsdc + flashLoanFee).toString(),
+    userAddress,
+    true, // Skip oracle (already done)
+    obligationId,
+  );
+
+  // 7. Repay flash loan
+  await flashLoanProvider.repay(tx, flashLoan, borrowedCoin, userAddress);
+}
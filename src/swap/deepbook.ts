@@ -0,0 +1,183 @@
+/**
+ * DeFi Dash SDK - DeepBook Swap Provider
+ *
+ * Implements ISwapProvider with direct single-pool DeepBook v3 swaps
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient } from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { normalizeCoinType } from "../lib/utils";
+import { COIN_TYPES } from "../lib/suilend/const";
+import { ISwapProvider, SwapQuote, SwapQuoteParams } from "./interface";
+
+/**
+ * DeepBook v3 pool (Pool<Base, Quote>)
+ */
+export interface DeepBookPool {
+  poolId: string;
+  baseCoinType: string;
+  quoteCoinType: string;
+}
+
+export interface DeepBookSwapProviderOptions {
+  /** Override default DeepBook package ID (when DeepBook upgrades) */
+  packageId?: string;
+  /** Additional pools to route through */
+  pools?: DeepBookPool[];
+}
+
+interface DeepBookRoute {
+  pool: DeepBookPool;
+  /** True when selling the base asset */
+  isBaseIn: boolean;
+}
+
+const DEFAULT_PACKAGE_ID =
+  "0x337f4f4f6567fcd778d5454f27c16c70e2f274cc6377ea6249ddf491482ef497";
+
+const DEFAULT_POOLS: DeepBookPool[] = [
+  {
+    poolId:
+      "0xe05dafb5133bcffb8d59f4e12465dc0e9faeaa05e3e342a08fe135800e3e4407",
+    baseCoinType: COIN_TYPES.SUI,
+    quoteCoinType: COIN_TYPES.USDC,
+  },
+  {
+    poolId:
+      "0xb663828d6217467c8a1838a03793da896cbe745b150ebd57d82f814ca579fc22",
+    baseCoinType: COIN_TYPES.DEEP,
+    quoteCoinType: COIN_TYPES.SUI,
+  },
+  {
+    poolId:
+      "0xf948981b806057580f91622417534f491da5f61aeaf33d0ed8e69fd5691c95ce",
+    baseCoinType: COIN_TYPES.DEEP,
+    quoteCoinType: COIN_TYPES.USDC,
+  },
+];
+
+const CLOCK_ID = "0x6";
+
+/**
+ * DeepBook v3 swap provider
+ *
+ * Routes through a single pool that directly pairs the two assets and pays
+ * trading fees in the input asset (no DEEP balance required).
+ */
+export class DeepBookSwapProvider implements ISwapProvider {
+  readonly name = "deepbook";
+  private packageId: string;
+  private pools: DeepBookPool[];
+
+  constructor(
+    private suiClient: SuiClient,
+    options: DeepBookSwapProviderOptions = {},
+  ) {
+    this.packageId = options.packageId ?? DEFAULT_PACKAGE_ID;
+    this.pools = [...DEFAULT_POOLS, ...(options.pools ?? [])];
+  }
+
+  private findRoute(
+    coinTypeIn: string,
+    coinTypeOut: string,
+  ): DeepBookRoute | null {
+    const coinIn = normalizeCoinType(coinTypeIn);
+    const coinOut = normalizeCoinType(coinTypeOut);
+
+    for (const pool of this.pools) {
+      const base = normalizeCoinType(pool.baseCoinType);
+      const quote = normalizeCoinType(pool.quoteCoinType);
+      if (base === coinIn && quote === coinOut) {
+        return { pool, isBaseIn: true };
+      }
+      if (quote === coinIn && base === coinOut) {
+        return { pool, isBaseIn: false };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Dry-run the pool's quantity-out view function
+   */
+  async quote(params: SwapQuoteParams): Promise<SwapQuote | null> {
+    const route = this.findRoute(params.coinTypeIn, params.coinTypeOut);
+    if (!route || params.amountIn <= 0n) return null;
+
+    const { pool, isBaseIn } = route;
+    const tx = new Transaction();
+    tx.moveCall({
+      target: isBaseIn
+        ? `${this.packageId}::pool::get_quote_quantity_out_input_fee`
+        : `${this.packageId}::pool::get_base_quantity_out_input_fee`,
+      typeArguments: [pool.baseCoinType, pool.quoteCoinType],
+      arguments: [
+        tx.object(pool.poolId),
+        tx.pure.u64(params.amountIn),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    const result = await this.suiClient.devInspectTransactionBlock({
+      transactionBlock: tx,
+      sender:
+        "0x0000000000000000000000000000000000000000000000000000000000000000",
+    });
+    const values = result.results?.[0]?.returnValues;
+    if (!values || values.length < 2) return null;
+
+    // Returns (base_out, quote_out, deep_required)
+    const [baseOut, quoteOut] = values
+      .slice(0, 2)
+      .map(([bytes]) => BigInt(bcs.u64().parse(Uint8Array.from(bytes))));
+    const amountOut = isBaseIn ? quoteOut : baseOut;
+    if (amountOut === 0n) return null;
+
+    return {
+      provider: this.name,
+      coinTypeIn: params.coinTypeIn,
+      coinTypeOut: params.coinTypeOut,
+      amountIn: params.amountIn,
+      amountOut,
+      route,
+    };
+  }
+
+  async swap(
+    tx: Transaction,
+    quote: SwapQuote,
+    coinIn: any,
+    userAddress: string,
+    slippageBps = 100,
+  ): Promise<any> {
+    const { pool, isBaseIn } = quote.route as DeepBookRoute;
+    const minOut = (quote.amountOut * BigInt(10000 - slippageBps)) / 10000n;
+
+    const [deepIn] = tx.moveCall({
+      target: "0x2::coin::zero",
+      typeArguments: [COIN_TYPES.DEEP],
+    });
+
+    // Returns (base_remaining, quote_remaining, deep_remaining)
+    const [baseCoin, quoteCoin, deepCoin] = tx.moveCall({
+      target: isBaseIn
+        ? `${this.packageId}::pool::swap_exact_base_for_quote`
+        : `${this.packageId}::pool::swap_exact_quote_for_base`,
+      typeArguments: [pool.baseCoinType, pool.quoteCoinType],
+      arguments: [
+        tx.object(pool.poolId),
+        coinIn,
+        deepIn,
+        tx.pure.u64(minOut),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    // Unfilled input and unused DEEP go back to the user
+    const leftover = isBaseIn ? baseCoin : quoteCoin;
+    tx.transferObjects([leftover, deepCoin], userAddress);
+
+    return isBaseIn ? quoteCoin : baseCoin;
+  }
+}
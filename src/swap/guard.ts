@@ -0,0 +1,107 @@
+/**
+ * DeFi Dash SDK - Swap Guards
+ *
+ * Slippage and price-impact checks applied to quotes before they are built
+ * into a PTB
+ */
+
+import { SwapQuote } from "./interface";
+import { IPriceSource, defaultPriceSource } from "../price";
+import { normalizeCoinType } from "../lib/utils";
+
+/** Default max slippage (1%) */
+export const DEFAULT_SLIPPAGE_BPS = 100;
+
+/** Default max price impact against the oracle price (3%) */
+export const DEFAULT_MAX_PRICE_IMPACT_BPS = 300;
+
+/**
+ * Thrown when a quote's price impact exceeds the configured limit
+ */
+export class PriceImpactTooHighError extends Error {
+  constructor(
+    readonly priceImpactBps: number,
+    readonly maxPriceImpactBps: number,
+    readonly coinTypeIn: string,
+    readonly coinTypeOut: string,
+  ) {
+    super(
+      `Price impact ${(priceImpactBps / 100).toFixed(2)}% exceeds limit ` +
+        `${(maxPriceImpactBps / 100).toFixed(2)}% for ${coinTypeIn} → ${coinTypeOut}`,
+    );
+    this.name = "PriceImpactTooHighError";
+  }
+}
+
+/**
+ * Thrown when a quote's price impact cannot be checked because an oracle
+ * price is missing
+ */
+export class PriceUnavailableError extends Error {
+  constructor(readonly coinType: string) {
+    super(`No oracle price for ${coinType}, cannot check swap price impact`);
+    this.name = "PriceUnavailableError";
+  }
+}
+
+/**
+ * Minimum output accepted for a quote under a slippage tolerance
+ */
+export function getMinAmountOut(
+  amountOut: bigint,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+): bigint {
+  if (slippageBps < 0 || slippageBps >= 10000) {
+    throw new Error(`Invalid slippage: ${slippageBps} bps`);
+  }
+  return (amountOut * BigInt(10000 - Math.round(slippageBps))) / 10000n;
+}
+
+/**
+ * Price impact of a quote against oracle prices, in basis points
+ *
+ * Impact = (ValueIn - ValueOut) / ValueIn; negative when the quote beats the
+ * oracle. Throws PriceUnavailableError when either price is missing, so an
+ * unpriced swap is never waved through as impact-free.
+ */
+export async function getPriceImpactBps(
+  quote: SwapQuote,
+  decimalsIn: number,
+  decimalsOut: number,
+  priceSource: IPriceSource = defaultPriceSource,
+): Promise<number> {
+  if (quote.amountIn === 0n) return 0;
+
+  const coinTypeIn = normalizeCoinType(quote.coinTypeIn);
+  const coinTypeOut = normalizeCoinType(quote.coinTypeOut);
+  const quotes = await priceSource.getPrices([coinTypeIn, coinTypeOut]);
+  const priceIn = quotes[coinTypeIn]?.price;
+  const priceOut = quotes[coinTypeOut]?.price;
+  if (!priceIn) throw new PriceUnavailableError(quote.coinTypeIn);
+  if (!priceOut) throw new PriceUnavailableError(quote.coinTypeOut);
+
+  const valueIn =
+    (Number(quote.amountIn) / Math.pow(10, decimalsIn)) * priceIn;
+  const valueOut =
+    (Number(quote.amountOut) / Math.pow(10, decimalsOut)) * priceOut;
+
+  return ((valueIn - valueOut) / valueIn) * 10000;
+}
+
+/**
+ * Throw PriceImpactTooHighError when a quote's impact is over the limit
+ */
+export function assertPriceImpact(
+  quote: SwapQuote,
+  priceImpactBps: number,
+  maxPriceImpactBps: number = DEFAULT_MAX_PRICE_IMPACT_BPS,
+): void {
+  if (priceImpactBps > maxPriceImpactBps) {
+    throw new PriceImpactTooHighError(
+      priceImpactBps,
+      maxPriceImpactBps,
+      quote.coinTypeIn,
+      quote.coinTypeOut,
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * DeFi Dash SDK - In-Memory Swap Provider
+ *
+ * Deterministic ISwapProvider for tests and offline previews
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeCoinType } from "../lib/utils";
+import { ISwapProvider, SwapQuote, SwapQuoteParams } from "./interface";
+
+export interface InMemoryAsset {
+  /** USD price used to derive exchange rates */
+  price: number;
+  decimals: number;
+}
+
+export interface InMemorySwapProviderOptions {
+  /** Assets keyed by coin type */
+  assets: Record<string, InMemoryAsset>;
+  /** Fee taken from every quote in basis points (default 0) */
+  feeBps?: number;
+}
+
+/**
+ * In-memory swap provider with fixed prices
+ *
+ * Quotes are pure functions of the configured prices, so results are
+ * reproducible. swap() adds no commands and returns the input coin unchanged:
+ * PTBs built with it are for inspection only, not for execution.
+ */
+export class InMemorySwapProvider implements ISwapProvider {
+  readonly name = "in-memory";
+  /** Every quote handed to swap(), in call order */
+  readonly swaps: SwapQuote[] = [];
+  private assets = new Map<string, InMemoryAsset>();
+  private feeBps: number;
+
+  constructor(options: InMemorySwapProviderOptions) {
+    for (const [coinType, asset] of Object.entries(options.assets)) {
+      this.assets.set(normalizeCoinType(coinType), asset);
+    }
+    this.feeBps = options.feeBps ?? 0;
+  }
+
+  /**
+   * Set or update an asset's price
+   */
+  setAsset(coinType: string, asset: InMemoryAsset): void {
+    this.assets.set(normalizeCoinType(coinType), asset);
+  }
+
+  async quote(params: SwapQuoteParams): Promise<SwapQuote | null> {
+    const assetIn = this.assets.get(normalizeCoinType(params.coinTypeIn));
+    const assetOut = this.assets.get(normalizeCoinType(params.coinTypeOut));
+    if (!assetIn || !assetOut || assetOut.price <= 0) return null;
+
+    const valueUsd =
+      (Number(params.amountIn) / Math.pow(10, assetIn.decimals)) *
+      assetIn.price;
+    const grossOut = BigInt(
+      Math.floor((valueUsd / assetOut.price) * Math.pow(10, assetOut.decimals)),
+    );
+    const amountOut = (grossOut * BigInt(10000 - this.feeBps)) / 10000n;
+
+    return {
+      provider: this.name,
+      coinTypeIn: params.coinTypeIn,
+      coinTypeOut: params.coinTypeOut,
+      amountIn: params.amountIn,
+      amountOut,
+      route: null,
+    };
+  }
+
+  async swap(
+    _tx: Transaction,
+    quote: SwapQuote,
+    coinIn: any,
+    _userAddress: string,
+    _slippageBps?: number,
+  ): Promise<any> {
+    this.swaps.push(quote);
+    return coinIn;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * DeFi Dash SDK - Swap Provider Exports
+ */
+
+export { ISwapProvider, SwapQuote, SwapQuoteParams } from "./interface";
+export { SevenKSwapProvider } from "./seven-k";
+export {
+  DeepBookSwapProvider,
+  DeepBookPool,
+  DeepBookSwapProviderOptions,
+} from "./deepbook";
+export {
+  InMemorySwapProvider,
+  InMemoryAsset,
+  InMemorySwapProviderOptions,
+} from "./in-memory";
+export {
+  DEFAULT_SLIPPAGE_BPS,
+  DEFAULT_MAX_PRICE_IMPACT_BPS,
+  PriceImpactTooHighError,
+  PriceUnavailableError,
+  getMinAmountOut,
+  getPriceImpactBps,
+  assertPriceImpact,
+} from "./guard";
@@ -0,0 +1,64 @@
+/**
+ * DeFi Dash SDK - Swap Provider Interface
+ *
+ * Abstract interface for swap routes (7k, DeepBook, etc.)
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+
+/**
+ * Quote request (exact amount in)
+ */
+export interface SwapQuoteParams {
+  coinTypeIn: string;
+  coinTypeOut: string;
+  /** Amount to sell (raw units) */
+  amountIn: bigint;
+}
+
+/**
+ * Best quote a provider found for a swap
+ */
+export interface SwapQuote {
+  /** Provider that produced the quote */
+  provider: string;
+  coinTypeIn: string;
+  coinTypeOut: string;
+  /** Amount sold (raw units) */
+  amountIn: bigint;
+  /** Expected amount bought (raw units) */
+  amountOut: bigint;
+  /** Provider-specific route data, consumed by swap() */
+  route: unknown;
+}
+
+/**
+ * Common interface for all swap providers
+ */
+export interface ISwapProvider {
+  /** Provider name identifier */
+  readonly name: string;
+
+  /**
+   * Find the best route for a swap
+   * @returns Best quote or null if no route exists
+   */
+  quote(params: SwapQuoteParams): Promise<SwapQuote | null>;
+
+  /**
+   * Add the swap described by a quote to a PTB
+   * @param tx - Transaction to add swap commands to
+   * @param quote - Quote returned by quote()
+   * @param coinIn - Coin to sell (must hold quote.amountIn)
+   * @param userAddress - Swap signer, receives any leftover coins
+   * @param slippageBps - Max slippage in basis points (default 100 = 1%)
+   * @returns Output coin
+   */
+  swap(
+    tx: Transaction,
+    quote: SwapQuote,
+    coinIn: any,
+    userAddress: string,
+    slippageBps?: number,
+  ): Promise<any>;
+}
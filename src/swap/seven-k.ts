@@ -0,0 +1,65 @@
+/**
+ * DeFi Dash SDK - 7k Swap Provider
+ *
+ * Implements ISwapProvider on top of the 7k Meta Aggregator
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { MetaAg, MetaAgOptions, MetaQuote } from "@7kprotocol/sdk-ts";
+import { ISwapProvider, SwapQuote, SwapQuoteParams } from "./interface";
+
+/**
+ * 7k Meta Aggregator swap provider (best of all aggregated routes)
+ */
+export class SevenKSwapProvider implements ISwapProvider {
+  readonly name = "7k";
+  readonly client: MetaAg;
+
+  constructor(clientOrOptions: MetaAg | MetaAgOptions = {}) {
+    this.client =
+      clientOrOptions instanceof MetaAg
+        ? clientOrOptions
+        : new MetaAg(clientOrOptions);
+  }
+
+  async quote(params: SwapQuoteParams): Promise<SwapQuote | null> {
+    const quotes = await this.client.quote({
+      amountIn: params.amountIn.toString(),
+      coinTypeIn: params.coinTypeIn,
+      coinTypeOut: params.coinTypeOut,
+    });
+
+    if (quotes.length === 0) return null;
+
+    const bestQuote = quotes.sort(
+      (a, b) => Number(b.amountOut) - Number(a.amountOut),
+    )[0];
+
+    return {
+      provider: this.name,
+      coinTypeIn: params.coinTypeIn,
+      coinTypeOut: params.coinTypeOut,
+      amountIn: BigInt(bestQuote.amountIn),
+      amountOut: BigInt(bestQuote.amountOut),
+      route: bestQuote,
+    };
+  }
+
+  async swap(
+    tx: Transaction,
+    quote: SwapQuote,
+    coinIn: any,
+    userAddress: string,
+    slippageBps = 100,
+  ): Promise<any> {
+    return this.client.swap(
+      {
+        quote: quote.route as MetaQuote,
+        signer: userAddress,
+        coinIn,
+        tx,
+      },
+      slippageBps,
+    );
+  }
+}
@@ -1,17 +1,39 @@
+import { IFlashLoanProvider } from "./flash-loan/interface";
+import { ISwapProvider } from "./swap/interface";
+import { IPriceSource } from "./price/interface";
+
 // ============================================================================
 // Enums
 // ============================================================================
 
 export type PositionSide = "supply" | "borrow";
 
+/**
+ * Whether an amount is in the underlying token or in protocol shares
+ * (Suilend cTokens, Scallop sCoins)
+ */
+export type AmountKind = "underlying" | "share";
+
+/**
+ * How a protocol quotes a rate before it is converted to a decimal APY
+ */
+export type RateType = "bps" | "apr" | "apy";
+
 /**
  * Supported lending protocols
  */
 export enum LendingProtocol {
   Suilend = "suilend",
   Navi = "navi",
+  Scallop = "scallop",
 }
 
+/**
+ * Lending protocol id: a built-in LendingProtocol or the id a custom
+ * adapter was registered under
+ */
+export type ProtocolId = LendingProtocol | (string & {});
+
 // ============================================================================
 // Strategy Parameters
 // ============================================================================
@@ -21,7 +43,13 @@ export enum LendingProtocol {
  */
 export interface LeverageParams {
   /** Target lending protocol */
-  protocol: LendingProtocol;
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
 
   /** Asset to deposit as collateral (symbol like 'LBTC' or full coin type) */
   depositAsset: string;
@@ -32,16 +60,247 @@ export interface LeverageParams {
   /** Leverage multiplier (e.g., 1.5, 2.0, 3.0) */
   multiplier: number;
 
+  /**
+   * Asset to flash loan and borrow (symbol like 'SUI' or full coin type).
+   * Defaults to USDC. Use e.g. SUI with haSUI/afSUI collateral for LST loops.
+   */
+  borrowAsset?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Parameters for re-leverage strategy (lever up an existing position)
+ */
+export interface ReleverageParams {
+  /** Lending protocol holding the existing position */
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /** Leverage multiplier to step up to (e.g., 2.5) */
+  targetMultiplier: number;
+
+  /**
+   * Optional extra collateral from the wallet (human-readable).
+   * Defaults to "0" so only the position's current equity is used.
+   */
+  depositAmount?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Target health-factor band for the rebalance strategy
+ */
+export interface HealthFactorBand {
+  /** Lower bound: below this, leverage is removed */
+  minHealthFactor: number;
+
+  /** Upper bound: above this, leverage is added */
+  maxHealthFactor: number;
+
+  /** Health factor to rebalance to (defaults to the band midpoint) */
+  targetHealthFactor?: number;
+}
+
+/**
+ * Parameters for rebalance strategy
+ */
+export interface RebalanceParams extends HealthFactorBand {
+  /** Lending protocol holding the position */
+  protocol: ProtocolId;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Parameters for collateral swap strategy (e.g., LBTC → SUI)
+ */
+export interface CollateralSwapParams {
+  /** Lending protocol holding the position */
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /** New collateral asset (symbol like 'SUI' or full coin type) */
+  toAsset: string;
+
+  /**
+   * Amount of the current collateral to swap (human-readable).
+   * Defaults to the whole collateral position.
+   */
+  amount?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Parameters for debt swap strategy (e.g., USDC debt → USDT debt)
+ */
+export interface DebtSwapParams {
+  /** Lending protocol holding the position */
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /** New debt asset (symbol like 'SUI' or full coin type) */
+  toAsset: string;
+
+  /**
+   * Amount of the current debt to refinance (human-readable).
+   * Defaults to the whole debt.
+   */
+  amount?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Parameters for adding wallet collateral to a position
+ */
+export interface AddCollateralParams {
+  /** Lending protocol holding the position */
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /**
+   * Collateral asset (symbol or full coin type).
+   * Defaults to the position's primary collateral.
+   */
+  asset?: string;
+
+  /** Amount to deposit from the wallet (human-readable) */
+  amount: string;
+
+  /** If true, only simulate the transaction */
+  dryRun?: boolean;
+}
+
+/**
+ * Parameters for cross-protocol position migration
+ */
+export interface MigratePositionParams {
+  /** Protocol currently holding the position */
+  from: ProtocolId;
+
+  /** Protocol to move the position to */
+  to: ProtocolId;
+
+  /** Obligation/account to migrate from (source default if omitted) */
+  sourceObligationId?: string;
+
+  /** Obligation/account to migrate into (target default if omitted) */
+  targetObligationId?: string;
+
+  /**
+   * Collateral asset on the target protocol (symbol or full coin type).
+   * Defaults to the current collateral, in which case nothing is swapped.
+   */
+  toAsset?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
+
   /** If true, only simulate the transaction */
   dryRun?: boolean;
 }
 
+/**
+ * Partial deleverage target
+ *
+ * Set at most one field. When none is set, the whole position is closed.
+ */
+export interface DeleverageTarget {
+  /** Leverage multiplier to step down to (e.g., 1.5) */
+  targetMultiplier?: number;
+
+  /** LTV percentage to step down to (e.g., 30 for 30%) */
+  targetLtvPercent?: number;
+
+  /** Debt to repay (human-readable, in debt asset units, e.g., "100") */
+  repayAmount?: string;
+}
+
 /**
  * Parameters for deleverage strategy
  */
-export interface DeleverageParams {
+export interface DeleverageParams extends DeleverageTarget {
   /** Target lending protocol to close position on */
-  protocol: LendingProtocol;
+  protocol: ProtocolId;
+
+  /**
+   * Obligation (Suilend) or AccountCap (Navi) id to act on.
+   * Defaults to the wallet's first obligation / default account.
+   */
+  obligationId?: string;
+
+  /** Max swap slippage in basis points (default 100 = 1%) */
+  slippageBps?: number;
+
+  /** Max swap price impact vs oracle in basis points (default 300 = 3%) */
+  maxPriceImpactBps?: number;
 
   /** If true, only simulate the transaction */
   dryRun?: boolean;
@@ -55,32 +314,50 @@ export interface DeleverageParams {
  * Asset position details
  */
 export interface AssetPosition {
-  /** Raw amount in token units */
+  /** Raw integer amount, scaled by `decimals` */
   amount: bigint;
 
+  /** Whether `amount` is the underlying token or protocol shares */
+  amountKind: AmountKind;
+
   /** Token symbol (e.g., "LBTC", "USDC") */
   symbol: string;
 
   /** Coin type (full address) */
   coinType: string;
 
-  /** Token decimals */
+  /** Decimals `amount` is scaled by */
   decimals: number;
 
   /** USD value */
   valueUsd: number;
+
+  /** Open LTV percentage of the reserve (collateral side) */
+  openLtvPct?: number;
+
+  /** Close LTV (liquidation threshold) percentage (collateral side) */
+  closeLtvPct?: number;
+
+  /** Borrow weight applied to the debt (debt side, 1 = face value) */
+  borrowWeight?: number;
 }
 
 /**
  * Current lending position information
  */
 export interface PositionInfo {
-  /** Collateral (supply) position */
+  /** Largest collateral (supply) position by USD value */
   collateral: AssetPosition;
 
-  /** Debt (borrow) position */
+  /** Largest debt (borrow) position by USD value (zero USDC if no debt) */
   debt: AssetPosition;
 
+  /** All collateral positions, largest USD value first */
+  collaterals: AssetPosition[];
+
+  /** All debt positions, largest USD value first */
+  debts: AssetPosition[];
+
   /** Net value in USD (collateral - debt) */
   netValueUsd: number;
 
@@ -126,6 +403,9 @@ export interface StrategyResult {
   /** Gas used (in MIST) */
   gasUsed?: bigint;
 
+  /** Obligation/account created by createObligation (if executed) */
+  obligationId?: string;
+
   /** Error message (if failed) */
   error?: string;
 }
@@ -137,9 +417,18 @@ export interface LeveragePreview {
   /** Initial deposit value in USD */
   initialEquityUsd: number;
 
-  /** Flash loan amount in USDC */
+  /** Flash loan amount (raw units of the borrow asset, USDC by default) */
   flashLoanUsdc: bigint;
 
+  /** Borrow (debt) asset coin type */
+  borrowCoinType: string;
+
+  /** Borrow asset symbol */
+  borrowSymbol: string;
+
+  /** Borrow asset decimals */
+  borrowDecimals: number;
+
   /** Total position value after leverage */
   totalPositionUsd: number;
 
@@ -149,14 +438,117 @@ export interface LeveragePreview {
   /** Effective multiplier achieved */
   effectiveMultiplier: number;
 
+  /** Highest multiplier the protocol allows for this asset pair */
+  maxMultiplier: number;
+
   /** Position LTV percentage */
   ltvPercent: number;
 
+  /** Protocol open LTV of the deposit asset (percentage) */
+  openLtvPercent: number;
+
+  /** Protocol close LTV (liquidation threshold) of the deposit asset */
+  closeLtvPercent: number;
+
+  /** Borrow weight applied to the debt asset (1 = face value) */
+  borrowWeight: number;
+
+  /** Health factor after opening (liquidation below 1) */
+  healthFactor: number;
+
   /** Estimated liquidation price */
   liquidationPrice: number;
 
   /** Price drop buffer before liquidation */
   priceDropBuffer: number;
+
+  /** Deposit asset expected from the flash loan swap (raw units) */
+  expectedSwapOut: bigint;
+
+  /** Minimum swap output accepted under the slippage tolerance (raw units) */
+  minSwapOut: bigint;
+
+  /** Swap price impact against the oracle price in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * Multiplier limits for one protocol and asset pair
+ */
+export interface LeverageLimits {
+  /** Protocol the limits apply to */
+  protocol: string;
+
+  /** Deposit (collateral) asset coin type */
+  depositCoinType: string;
+
+  /** Borrow (debt) asset coin type */
+  borrowCoinType: string;
+
+  /** Protocol open LTV of the deposit asset (percentage) */
+  openLtvPercent: number;
+
+  /** Protocol close LTV (liquidation threshold) of the deposit asset */
+  closeLtvPercent: number;
+
+  /** Borrow weight applied to the debt asset (1 = face value) */
+  borrowWeight: number;
+
+  /** Highest multiplier the open LTV allows */
+  maxMultiplier: number;
+
+  /** Highest multiplier that survives a price drop of safetyBuffer */
+  safeMultiplier: number;
+
+  /** Price drop (fraction) the safe multiplier is sized for */
+  safetyBuffer: number;
+
+  /** Flash loan liquidity of the borrow asset (raw units) */
+  flashLoanLiquidity: bigint;
+
+  /** Borrowable liquidity of the borrow asset in the protocol (raw units) */
+  borrowLiquidity: bigint;
+
+  /** Multiplier cap from flash loan liquidity (Infinity without deposit) */
+  flashLoanMaxMultiplier: number;
+
+  /** Multiplier cap from borrow liquidity (Infinity without deposit) */
+  borrowLiquidityMaxMultiplier: number;
+
+  /** Lowest of safe, flash loan and borrow liquidity caps */
+  recommendedMaxMultiplier: number;
+}
+
+/**
+ * Preview of re-leveraging an existing position before execution
+ */
+export interface ReleveragePreview {
+  /** Multiplier of the live position */
+  currentMultiplier: number;
+
+  /** Multiplier after re-leverage */
+  targetMultiplier: number;
+
+  /** Equity in USD after re-leverage (position equity + extra deposit) */
+  equityUsd: number;
+
+  /** Extra deposit value in USD (0 when only equity is used) */
+  additionalDepositUsd: number;
+
+  /** Flash loan amount (raw units of the position's debt asset) */
+  flashLoanUsdc: bigint;
+
+  /** Additional debt in USD taken on */
+  additionalDebtUsd: number;
+
+  /** Total position value after re-leverage */
+  totalPositionUsd: number;
+
+  /** Total debt in USD after re-leverage */
+  debtUsd: number;
+
+  /** Position LTV percentage after re-leverage */
+  ltvPercent: number;
 }
 
 // ============================================================================
@@ -173,8 +565,39 @@ export interface SDKOptions {
   /** Network environment */
   network?: "mainnet" | "testnet";
 
-  /** 7k Protocol partner address (optional) */
+  /** 7k Protocol partner address (optional, ignored with swapProvider) */
   swapPartner?: string;
+
+  /** Swap provider (defaults to the 7k Meta Aggregator) */
+  swapProvider?: ISwapProvider;
+
+  /** Flash loan provider (defaults to Scallop) */
+  flashLoanProvider?: IFlashLoanProvider;
+
+  /**
+   * Lending protocols to enable (defaults to every built-in one).
+   * Adapters registered later with registerProtocol are always enabled.
+   */
+  protocols?: ProtocolId[];
+
+  /**
+   * Initialize the enabled adapters during initialize() instead of on
+   * first use. Adapters that fail to load are skipped, not fatal.
+   */
+  preloadProtocols?: boolean;
+
+  /**
+   * USD prices for valuations, price-impact checks and getTokenPrice
+   * (defaults to the 7k API behind a 30s cache)
+   */
+  priceSource?: IPriceSource;
+
+  /**
+   * Report position and portfolio USD values with priceSource instead of
+   * each protocol's own oracle (default false). Health factors and limits
+   * stay on the protocol's oracle either way.
+   */
+  valuePositionsWithPriceSource?: boolean;
 }
 
 // ============================================================================
@@ -204,10 +627,29 @@ export interface MarketAsset {
   coinType: string;
   decimals: number;
   price: number;
-  supplyApy: number; // Percentage (e.g., 5.5)
-  borrowApy: number; // Percentage (e.g., 8.0)
+  /** Total supply APY, base + rewards (decimal, 0.055 = 5.5%) */
+  supplyApy: number;
+  /** Net borrow APY, base - rewards (decimal) */
+  borrowApy: number;
+  /** Interest-only supply APY (decimal) */
+  supplyBaseApy?: number;
+  /** Liquidity-mining reward APY for suppliers (decimal) */
+  supplyRewardApy?: number;
+  /** Interest-only borrow APY (decimal) */
+  borrowBaseApy?: number;
+  /** Liquidity-mining reward APY for borrowers (decimal) */
+  borrowRewardApy?: number;
+  /** Borrowed / supplied (decimal) */
+  utilization?: number;
   maxLtv: number;
   liquidationThreshold: number;
+  /** Borrow weight applied to debt (1 = face value, Suilend only) */
+  borrowWeight?: number;
+  /**
+   * Collateral the borrower loses on top of the repaid debt when
+   * liquidated (liquidator bonus + protocol fee, decimal 0.05 = 5%)
+   */
+  liquidationBonus?: number;
   totalSupply: number;
   totalBorrow: number;
   availableLiquidity: number;
@@ -217,16 +659,27 @@ export interface MarketAsset {
  * User position for a single asset (Supply or Borrow)
  */
 export interface Position {
-  protocol: LendingProtocol;
+  protocol: ProtocolId;
   coinType: string;
   symbol: string;
   side: PositionSide;
+  /** Human-readable amount (amountRaw / 10^decimals) */
   amount: number;
-  /** Raw on-chain amount */
-  amountRaw?: string;
+  /** Raw integer amount */
+  amountRaw: string;
+  /** Decimals amountRaw is scaled by */
+  decimals: number;
+  /** Whether the amount is the underlying token or protocol shares */
+  amountKind: AmountKind;
+  /**
+   * False for supply that does not back borrows (e.g. Scallop sCoins held
+   * in the wallet); omitted means it counts as collateral
+   */
+  isCollateral?: boolean;
   valueUsd: number;
+  /** Total APY including rewards (decimal, 0.05 = 5%) */
   apy: number;
-  /** Rewards APY component */
+  /** Rewards APY component (decimal) */
   rewardsApy?: number;
   /** Earned rewards details */
   rewards?: { symbol: string; amount: number; valueUsd?: number }[];
@@ -234,11 +687,29 @@ export interface Position {
   estimatedLiquidationPrice?: number;
 }
 
+/**
+ * Portfolio of a single obligation/account owned by the wallet
+ */
+export interface ObligationPortfolio {
+  protocol: ProtocolId;
+
+  /** Pass as obligationId to target this obligation */
+  obligationId: string;
+
+  /** Owner cap object (Suilend ObligationOwnerCap / Navi AccountCap) */
+  capId?: string;
+
+  /** True for the obligation used when no obligationId is given */
+  isDefault: boolean;
+
+  portfolio: AccountPortfolio;
+}
+
 /**
  * Aggregated account portfolio for a protocol
  */
 export interface AccountPortfolio {
-  protocol: LendingProtocol;
+  protocol: ProtocolId;
   address: string;
   healthFactor: number;
 
@@ -260,7 +731,7 @@ export interface AccountPortfolio {
 
   positions: Position[];
 
-  /** Net APY on Equity (Annualized return % on net value) */
+  /** Net APY on equity (decimal, 0.05 = 5%) */
   netApy?: number;
 
   /** Estimated Annual Net Earnings in USD */
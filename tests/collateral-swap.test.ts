@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import {
+  getCollateralSwapRepayAmount,
+} from "../src/strategies/collateral-swap";
+import { PositionInfo } from "../src/types";
+
+// 1500 SUI against 2000 USDC
+const position = () => loadFixture<PositionInfo>("suilend-position.json");
+
+test("collateral swap: a full swap repays all debt plus the buffer", () => {
+  assert.equal(
+    getCollateralSwapRepayAmount(position(), 1_500_000_000_000n),
+    2_010_000_000n,
+  );
+});
+
+test("collateral swap: a partial swap repays the debt it backs", () => {
+  // A third of the SUI backs a third of the USDC
+  assert.equal(
+    getCollateralSwapRepayAmount(position(), 500_000_000_000n),
+    666_666_666n,
+  );
+});
+
+test("collateral swap: no debt needs no flash loan", () => {
+  const unlevered = position();
+  unlevered.debt = { ...unlevered.debt, amount: 0n, valueUsd: 0 };
+
+  assert.equal(
+    getCollateralSwapRepayAmount(unlevered, 1_500_000_000_000n),
+    0n,
+  );
+});
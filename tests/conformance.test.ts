@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import {
+  checkMarketAssets,
+  checkPositionInfo,
+  checkAccountPortfolio,
+} from "../src/protocols/conformance";
+import { AccountPortfolio, MarketAsset, PositionInfo } from "../src/types";
+
+const paths = (issues: { path: string }[]) => issues.map((i) => i.path);
+
+test("conformance: recorded fixtures conform", () => {
+  assert.deepEqual(
+    checkMarketAssets(loadFixture<MarketAsset[]>("navi-markets.json")),
+    [],
+  );
+  assert.deepEqual(
+    checkAccountPortfolio(loadFixture<AccountPortfolio>("navi-portfolio.json")),
+    [],
+  );
+  assert.deepEqual(
+    checkPositionInfo(loadFixture<PositionInfo>("suilend-position.json")),
+    [],
+  );
+});
+
+test("conformance: percentage rates are reported", () => {
+  const markets = loadFixture<MarketAsset[]>("navi-markets.json");
+  // 12.4% quoted as a percentage instead of 0.124
+  markets[1].supplyApy = 12.4;
+
+  assert.deepEqual(paths(checkMarketAssets(markets)), [
+    "markets[1].supplyApy",
+  ]);
+});
+
+test("conformance: maxLtv above the liquidation threshold is reported", () => {
+  const markets = loadFixture<MarketAsset[]>("navi-markets.json");
+  markets[0].maxLtv = 0.85;
+
+  assert.deepEqual(paths(checkMarketAssets(markets)), ["markets[0].maxLtv"]);
+});
+
+test("conformance: amount must match amountRaw and decimals", () => {
+  const portfolio = loadFixture<AccountPortfolio>("navi-portfolio.json");
+  // Navi balance left in its 9-decimal scale for a 6-decimal token
+  portfolio.positions[1].amountRaw = "2000000000000";
+
+  assert.deepEqual(paths(checkAccountPortfolio(portfolio)), [
+    "positions[1].amount",
+  ]);
+});
+
+test("conformance: unnormalized coin types and bad amount kinds", () => {
+  const portfolio = loadFixture<AccountPortfolio>("navi-portfolio.json");
+  portfolio.positions[0].coinType = "0x2::sui::SUI";
+  portfolio.positions[1].amountKind = "ctoken" as any;
+
+  assert.deepEqual(paths(checkAccountPortfolio(portfolio)), [
+    "positions[0].coinType",
+    "positions[1].amountKind",
+  ]);
+});
+
+test("conformance: debt must be in the underlying token", () => {
+  const position = loadFixture<PositionInfo>("suilend-position.json");
+  position.debts[0] = { ...position.debts[0], amountKind: "share" };
+
+  assert.deepEqual(paths(checkPositionInfo(position)), [
+    "debts[0].amountKind",
+  ]);
+});
+
+test("conformance: position LTVs are percentages", () => {
+  const position = loadFixture<PositionInfo>("suilend-position.json");
+  position.collaterals[0] = { ...position.collaterals[0], closeLtvPct: 0.75 };
+  position.collaterals[0].openLtvPct = 120;
+
+  assert.deepEqual(paths(checkPositionInfo(position)), [
+    "collaterals[0].openLtvPct",
+  ]);
+});
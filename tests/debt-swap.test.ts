@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import {
+  getDebtSwapRepayAmount,
+  getDebtSwapFlashLoanAmount,
+} from "../src/strategies/debt-swap";
+import { PositionInfo } from "../src/types";
+
+// 2000 USDC of debt
+const position = () => loadFixture<PositionInfo>("suilend-position.json");
+
+test("debt swap: a full swap repays the debt plus both buffers", () => {
+  assert.deepEqual(getDebtSwapRepayAmount(position(), 2_000_000_000n), {
+    repayAmount: 2_010_000_000n,
+    targetOut: 2_050_200_000n,
+  });
+});
+
+test("debt swap: a partial swap repays exactly the swapped amount", () => {
+  assert.deepEqual(getDebtSwapRepayAmount(position(), 500_000_000n), {
+    repayAmount: 500_000_000n,
+    targetOut: 500_000_000n,
+  });
+});
+
+test("debt swap: the flash loan buys the target at the quoted rate", () => {
+  // 1000 USDT quoted for 998 USDC
+  assert.equal(
+    getDebtSwapFlashLoanAmount(2_050_200_000n, 1_000_000_000n, 998_000_000n),
+    2_054_308_618n,
+  );
+  // Exact rates need no rounding
+  assert.equal(
+    getDebtSwapFlashLoanAmount(500_000_000n, 1_000_000_000n, 1_000_000_000n),
+    500_000_000n,
+  );
+});
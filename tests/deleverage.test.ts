@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import { resolveDeleverageRepayAmount } from "../src/strategies/deleverage";
+import { PositionInfo } from "../src/types";
+
+// $4800 of SUI against 2000 USDC: $2800 equity at 1.71x
+const position = () => loadFixture<PositionInfo>("suilend-position.json");
+
+test("deleverage: target multiplier keeps equity and repays the rest", () => {
+  // 1.5x on $2800 of equity leaves $1400 of debt
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { targetMultiplier: 1.5 }),
+    600_000_000n,
+  );
+});
+
+test("deleverage: target LTV maps to a multiplier", () => {
+  // 25% LTV is 1.33x, leaving $933.33 of debt
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { targetLtvPercent: 25 }),
+    1_066_666_666n,
+  );
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { repayAmount: "150.5" }),
+    150_500_000n,
+  );
+});
+
+test("deleverage: repaying the whole debt is a full close", () => {
+  assert.equal(resolveDeleverageRepayAmount(position()), null);
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { targetMultiplier: 1 }),
+    null,
+  );
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { repayAmount: "2000" }),
+    null,
+  );
+  assert.equal(
+    resolveDeleverageRepayAmount(position(), { repayAmount: "1999.999999" }),
+    1_999_999_999n,
+  );
+});
+
+test("deleverage: targets that do not reduce leverage are rejected", () => {
+  assert.throws(
+    () => resolveDeleverageRepayAmount(position(), { targetMultiplier: 2 }),
+    /not below current 1\.71x/,
+  );
+  assert.throws(
+    () => resolveDeleverageRepayAmount(position(), { targetLtvPercent: 100 }),
+    /Invalid target LTV/,
+  );
+  assert.throws(
+    () => resolveDeleverageRepayAmount(position(), { repayAmount: "0" }),
+    /greater than zero/,
+  );
+  assert.throws(
+    () =>
+      resolveDeleverageRepayAmount(position(), {
+        targetMultiplier: 1.5,
+        targetLtvPercent: 25,
+      }),
+    /only one of/,
+  );
+});
@@ -0,0 +1,45 @@
+/**
+ * DeFi Dash SDK - Test Harness
+ *
+ * A minimal test registry: *.test.ts files call test(), runner.ts loads
+ * them and runs every registered case in order.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+
+export interface TestCase {
+  name: string;
+  fn: () => void | Promise<void>;
+}
+
+const cases: TestCase[] = [];
+
+/**
+ * Register a test case
+ */
+export function test(name: string, fn: () => void | Promise<void>): void {
+  cases.push({ name, fn });
+}
+
+/**
+ * Test cases registered so far
+ */
+export function getTests(): TestCase[] {
+  return [...cases];
+}
+
+/**
+ * Load a recorded fixture from tests/fixtures
+ *
+ * JSON has no bigint, so raw amounts are stored as "<digits>n" strings and
+ * revived here.
+ */
+export function loadFixture<T>(name: string): T {
+  const content = readFileSync(join(__dirname, "fixtures", name), "utf8");
+  return JSON.parse(content, (_, value) =>
+    typeof value === "string" && /^-?\d+n$/.test(value)
+      ? BigInt(value.slice(0, -1))
+      : value,
+  );
+}
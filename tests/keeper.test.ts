@@ -0,0 +1,349 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Transaction } from "@mysten/sui/transactions";
+import { test } from "./harness";
+import {
+  ProtectionKeeper,
+  ProtectionKeeperOptions,
+} from "../src/keeper/keeper";
+import {
+  FileKeeperJournal,
+  KeeperJournalEntry,
+  MemoryKeeperJournal,
+} from "../src/keeper/journal";
+import { normalizeCoinType } from "../src/lib/utils";
+import type { DefiDashSDK } from "../src/sdk";
+import { StrategyResult, SUI_COIN_TYPE } from "../src/types";
+
+const ADDRESS = "0xa11ce";
+const SUI = normalizeCoinType(SUI_COIN_TYPE);
+const OBLIGATION = "0x0b1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FakeSdkState {
+  /** Equity the deleverage takes out of the position (USD) */
+  costUsd?: number;
+  /** Net dry-run gas in MIST (SUI at $3) */
+  gasMist?: bigint;
+  dryRunError?: string;
+  /** SUI price in USD (default 3, 0 when the source has none) */
+  suiPrice?: number;
+  /** Wallet SUI in MIST (default 1000 SUI) */
+  walletMist?: bigint;
+  /** Thrown when the top-up is planned */
+  addCollateralError?: string;
+  /** Number of position fetches that fail first */
+  fetchFailures?: number;
+}
+
+/**
+ * SDK stand-in for one SUI/USDC position at HF 1.2: $3000 collateral,
+ * $2000 debt, 80% liquidation threshold, so $1000 of equity
+ */
+function fakeSdk(state: FakeSdkState = {}) {
+  const calls = {
+    fetches: 0,
+    builds: 0,
+    actions: [] as string[],
+    simulated: [] as Transaction[],
+    executed: [] as Transaction[],
+  };
+  const equityAfterUsd = 1000 - (state.costUsd ?? 5);
+  const suiPrice = state.suiPrice ?? 3;
+  let fetchFailures = state.fetchFailures ?? 0;
+
+  const sdk = {
+    getUserAddress: () => ADDRESS,
+    getProtocolIds: () => ["suilend"],
+    getPriceSource: () => ({
+      name: "fake",
+      getPrices: async () =>
+        suiPrice > 0
+          ? { [SUI]: { coinType: SUI, price: suiPrice, source: "fake" } }
+          : {},
+    }),
+    getObligations: async (
+      _protocol: string,
+      options: { throwOnError?: boolean },
+    ) => {
+      assert.equal(options.throwOnError, true);
+      calls.fetches++;
+      if (fetchFailures > 0) {
+        fetchFailures--;
+        throw new Error("RPC unavailable");
+      }
+      return [
+        {
+          protocol: "suilend",
+          obligationId: OBLIGATION,
+          isDefault: true,
+          portfolio: {
+            healthFactor: 1.2,
+            totalCollateralUsd: 3000,
+            totalDebtUsd: 2000,
+            liquidationThresholdUsd: 2400,
+          },
+        },
+      ];
+    },
+    getPosition: async () => ({
+      collateral: { symbol: "SUI", valueUsd: 3000, closeLtvPct: 80 },
+      debt: { symbol: "USDC", valueUsd: 2000, borrowWeight: 1 },
+    }),
+    previewDeleverage: async (
+      _params: unknown,
+      options: { estimateGas?: boolean },
+    ) => {
+      assert.equal(options.estimateGas, false);
+      return {
+        flashLoanUsdc: 1_000_000_000n,
+        debtSymbol: "USDC",
+        withdrawAmount: 340_000_000_000n,
+        collateralSymbol: "SUI",
+        priceImpactBps: 12,
+        totalProfitUsd: 0,
+        resultingCollateralUsd: 2000,
+        resultingDebtUsd: 2000 - equityAfterUsd,
+        estimatedGas: null,
+      };
+    },
+    buildDeleverageTransaction: async (tx: Transaction) => {
+      calls.builds++;
+      calls.actions.push("deleverage");
+      tx.moveCall({ target: "0x2::fake::deleverage" });
+    },
+    // 200 SUI ($600) lifts the health factor to the target
+    previewAddCollateral: async () => {
+      if (state.addCollateralError) throw new Error(state.addCollateralError);
+      return {
+        coinType: SUI,
+        symbol: "SUI",
+        decimals: 9,
+        amount: 200_000_000_000n,
+        valueUsd: 600,
+      };
+    },
+    getSuiClient: () => ({
+      getBalance: async () => ({
+        totalBalance: String(state.walletMist ?? 1_000_000_000_000n),
+      }),
+    }),
+    buildAddCollateralTransaction: async (
+      tx: Transaction,
+      params: { amount: string },
+    ) => {
+      calls.builds++;
+      calls.actions.push(`add-collateral ${params.amount}`);
+      tx.moveCall({ target: "0x2::fake::deposit" });
+    },
+    simulateTransaction: async (tx: Transaction): Promise<StrategyResult> => {
+      calls.simulated.push(tx);
+      return state.dryRunError
+        ? { success: false, error: state.dryRunError }
+        : { success: true, gasUsed: state.gasMist ?? 5_000_000n };
+    },
+    executeTransaction: async (tx: Transaction): Promise<StrategyResult> => {
+      calls.executed.push(tx);
+      return { success: true, txDigest: "digest", gasUsed: 5_200_000n };
+    },
+  };
+
+  return { sdk: sdk as unknown as DefiDashSDK, calls };
+}
+
+function keeper(
+  sdk: DefiDashSDK,
+  options: Partial<ProtectionKeeperOptions> = {},
+) {
+  return new ProtectionKeeper(sdk, {
+    triggerHealthFactor: 1.25,
+    targetHealthFactor: 1.6,
+    ...options,
+  });
+}
+
+test("keeper: executes the transaction it built and dry-ran", async () => {
+  const { sdk, calls } = fakeSdk();
+
+  const [entry] = await keeper(sdk).runOnce();
+
+  assert.equal(entry.status, "executed");
+  assert.equal(entry.txDigest, "digest");
+  assert.equal(calls.builds, 1);
+  assert.equal(calls.simulated.length, 1);
+  assert.equal(calls.executed[0], calls.simulated[0]);
+});
+
+test("keeper: default budget skips a deleverage costing over 1%", async () => {
+  const { sdk, calls } = fakeSdk({ costUsd: 15 });
+
+  const [entry] = await keeper(sdk).runOnce();
+
+  assert.equal(entry.status, "skipped");
+  assert.equal(entry.reason, "Cost $15.00 is above the $10.00 budget");
+  assert.equal(calls.builds, 0);
+});
+
+test("keeper: dry-run gas counts toward maxCostUsd", async () => {
+  // $4.99 before gas, then 0.01 SUI ($0.03) of gas
+  const { sdk, calls } = fakeSdk({ costUsd: 4.99, gasMist: 10_000_000n });
+
+  const [entry] = await keeper(sdk, { maxCostUsd: 5 }).runOnce();
+
+  assert.equal(entry.status, "skipped");
+  assert.equal(entry.reason, "Cost $5.02 is above the $5.00 budget");
+  assert.equal(calls.simulated.length, 1);
+  assert.equal(calls.executed.length, 0);
+});
+
+test("keeper: dry-run failure journals the underlying error", async () => {
+  const { sdk, calls } = fakeSdk({ dryRunError: "MoveAbort(swap, 7)" });
+
+  const [entry] = await keeper(sdk).runOnce();
+
+  assert.equal(entry.status, "dry-run-failed");
+  assert.equal(entry.reason, "MoveAbort(swap, 7)");
+  assert.equal(calls.executed.length, 0);
+});
+
+test("keeper: simulated actions count toward the daily limit", async () => {
+  const { sdk, calls } = fakeSdk();
+  const k = keeper(sdk, { dryRunOnly: true, maxActionsPerDay: 2 });
+
+  for (let i = 0; i < 4; i++) await k.runOnce();
+
+  // The repeated limit skip is journaled once
+  const statuses = (await k.getJournal().list()).map((e) => e.status);
+  assert.deepEqual(statuses, ["simulated", "simulated", "skipped"]);
+  const last = (await k.getJournal().list())[2];
+  assert.equal(last.reason, "Daily limit reached (2/2 actions)");
+  assert.equal(calls.executed.length, 0);
+});
+
+test("keeper: actions older than a day do not count", async () => {
+  const { sdk } = fakeSdk();
+  const journal = new MemoryKeeperJournal();
+  await journal.append({
+    timestamp: Date.now() - DAY_MS - 1,
+    protocol: "suilend",
+    address: ADDRESS,
+    obligationId: OBLIGATION,
+    action: "deleverage",
+    status: "executed",
+    healthFactor: 1.2,
+    targetHealthFactor: 1.6,
+  });
+
+  const k = keeper(sdk, { journal, maxActionsPerDay: 1 });
+
+  const [entry] = await k.runOnce();
+
+  assert.equal(entry.status, "executed");
+});
+
+test("keeper: add-collateral tops up from the wallet", async () => {
+  const { sdk, calls } = fakeSdk();
+
+  const [entry] = await keeper(sdk, { strategy: "add-collateral" }).runOnce();
+
+  assert.equal(entry.action, "add-collateral");
+  assert.equal(entry.status, "executed");
+  assert.deepEqual(calls.actions, ["add-collateral 200.000000000"]);
+  assert.equal(calls.executed[0], calls.simulated[0]);
+});
+
+test("keeper: add-collateral skips when the wallet is short", async () => {
+  // 200 SUI needed, 0.1 SUI kept for gas
+  const { sdk, calls } = fakeSdk({ walletMist: 200_050_000_000n });
+
+  const [entry] = await keeper(sdk, { strategy: "add-collateral" }).runOnce();
+
+  assert.equal(entry.status, "skipped");
+  assert.equal(entry.reason, "Wallet holds too little SUI");
+  assert.equal(calls.builds, 0);
+});
+
+test("keeper: auto deleverages when collateral cannot be added", async () => {
+  const short = fakeSdk({ walletMist: 0n });
+  const [shortEntry] = await keeper(short.sdk, { strategy: "auto" }).runOnce();
+  assert.equal(shortEntry.action, "deleverage");
+  assert.equal(shortEntry.status, "executed");
+
+  // A failure while planning the top-up falls through as well
+  const failing = fakeSdk({ addCollateralError: "No SUI collateral" });
+  const [entry] = await keeper(failing.sdk, { strategy: "auto" }).runOnce();
+  assert.equal(entry.action, "deleverage");
+  assert.equal(entry.status, "executed");
+  assert.deepEqual(failing.calls.actions, ["deleverage"]);
+});
+
+test("keeper: a missing SUI price skips before the dry run", async () => {
+  const { sdk, calls } = fakeSdk({ suiPrice: 0 });
+
+  const [entry] = await keeper(sdk).runOnce();
+
+  assert.equal(entry.status, "skipped");
+  assert.equal(entry.reason, "No SUI price to value gas");
+  assert.equal(calls.builds, 0);
+});
+
+test("keeper: failed position fetches back off", async () => {
+  const { sdk, calls } = fakeSdk({ fetchFailures: 2 });
+  const k = keeper(sdk, { intervalMs: 1_000 });
+
+  const realNow = Date.now;
+  const realError = console.error;
+  let now = 1_700_000_000_000;
+  Date.now = () => now;
+  console.error = () => {};
+  try {
+    assert.deepEqual(await k.runOnce(), []);
+    // Retried after 2s, then after 4s
+    now += 1_999;
+    await k.runOnce();
+    assert.equal(calls.fetches, 1);
+    now += 1;
+    assert.deepEqual(await k.runOnce(), []);
+    now += 3_999;
+    await k.runOnce();
+    assert.equal(calls.fetches, 2);
+    now += 1;
+    const [entry] = await k.runOnce();
+    assert.equal(entry.status, "executed");
+    assert.equal(calls.fetches, 3);
+  } finally {
+    Date.now = realNow;
+    console.error = realError;
+  }
+});
+
+test("journal: file journal reads back entries with bigint gas", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "keeper-journal-"));
+  try {
+    const journal = new FileKeeperJournal(join(dir, "journal.jsonl"));
+    assert.deepEqual(await journal.list(), []);
+
+    const entry: KeeperJournalEntry = {
+      timestamp: 1_700_000_000_000,
+      protocol: "navi",
+      address: ADDRESS,
+      action: "add-collateral",
+      status: "simulated",
+      healthFactor: 1.2,
+      targetHealthFactor: 1.6,
+      gasUsed: 12_345_678_901n,
+      details: { symbol: "SUI", amount: "1000000000" },
+    };
+    await journal.append(entry);
+    await journal.append({ ...entry, status: "skipped", gasUsed: undefined });
+
+    const entries = await journal.list();
+    assert.deepEqual(entries[0], entry);
+    assert.equal(entries[1].status, "skipped");
+    assert.equal(entries[1].gasUsed, undefined);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { test } from "./harness";
+import {
+  calculateLeveragePreview,
+  calculateLeverageLimits,
+  getMaxMultiplier,
+} from "../src/strategies/leverage";
+import { ILendingProtocol, ReserveInfo } from "../src/protocols/interface";
+import { IFlashLoanProvider } from "../src/flash-loan/interface";
+import { ISwapProvider } from "../src/swap/interface";
+
+const SUI =
+  "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI";
+const USDC =
+  "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+/**
+ * Protocol stand-in: SUI at $3.20 opens at 70% LTV and liquidates at 75%,
+ * USDC at $1 borrows with the given weight and has 400 USDC to lend
+ */
+const protocol = (usdcBorrowWeight = 1) =>
+  ({
+    name: "suilend",
+    getReserveInfo: async (coinType: string): Promise<ReserveInfo> =>
+      coinType === SUI
+        ? {
+            coinType,
+            symbol: "SUI",
+            decimals: 9,
+            openLtvPct: 70,
+            closeLtvPct: 75,
+            borrowWeight: 1,
+            price: 3.2,
+          }
+        : {
+            coinType,
+            symbol: "USDC",
+            decimals: 6,
+            openLtvPct: 77,
+            closeLtvPct: 80,
+            borrowWeight: usdcBorrowWeight,
+            price: 1,
+          },
+    getMarkets: async () => [{ coinType: USDC, availableLiquidity: 400 }],
+  }) as unknown as ILendingProtocol;
+
+// Only reached for cross-asset previews that pass the multiplier cap
+const swapProvider = {
+  name: "none",
+  quote: async () => {
+    throw new Error("unexpected quote");
+  },
+} as unknown as ISwapProvider;
+
+test("leverage: max multiplier follows open LTV and borrow weight", () => {
+  close(getMaxMultiplier(0.7), 1 / 0.3);
+  // 1.5x borrow weight: 0.7 / 1.5 of collateral can be borrowed
+  close(getMaxMultiplier(0.7, 1.5), 1 / (1 - 0.7 / 1.5));
+  assert.equal(getMaxMultiplier(0.8, 0.8), Infinity);
+});
+
+test("leverage: same-asset loop preview sizes the flash loan", async () => {
+  // 100 SUI looped at 2x: borrow 100 SUI (+2% buffer)
+  const preview = await calculateLeveragePreview({
+    protocol: protocol(),
+    swapProvider,
+    depositCoinType: SUI,
+    depositAmount: 100_000_000_000n,
+    multiplier: 2,
+    borrowCoinType: SUI,
+  });
+
+  close(preview.initialEquityUsd, 320);
+  assert.equal(preview.flashLoanUsdc, 102_000_000_000n);
+  close(preview.ltvPercent, 50);
+  close(preview.maxMultiplier, 1 / 0.3);
+  close(preview.healthFactor, 1.5);
+  assert.equal(preview.priceImpactBps, 0);
+});
+
+test("leverage: multipliers above the pair's cap are rejected", async () => {
+  const params = {
+    swapProvider,
+    depositCoinType: SUI,
+    depositAmount: 100_000_000_000n,
+    borrowCoinType: USDC,
+  };
+
+  await assert.rejects(
+    calculateLeveragePreview({
+      ...params,
+      protocol: protocol(),
+      multiplier: 3.5,
+    }),
+    /outside suilend range 1x-3\.33x for SUI\/USDC/,
+  );
+  // A 1.5x borrow weight lowers the cap to 1.875x
+  await assert.rejects(
+    calculateLeveragePreview({
+      ...params,
+      protocol: protocol(1.5),
+      multiplier: 2,
+    }),
+    /outside suilend range 1x-1\.87x/,
+  );
+});
+
+test("leverage: limits cap the multiplier by safety and liquidity", async () => {
+  // 1000 USDC of flash-loan liquidity
+  const flashLoanProvider = {
+    supportsCoin: () => true,
+    getAvailableLiquidity: async () => 1_000_000_000n,
+  } as unknown as IFlashLoanProvider;
+
+  const limits = await calculateLeverageLimits({
+    protocol: protocol(),
+    flashLoanProvider,
+    depositCoinType: SUI,
+    borrowCoinType: USDC,
+    depositAmount: 100_000_000_000n,
+  });
+
+  close(limits.maxMultiplier, 1 / 0.3);
+  // Surviving a 20% drop: LTV 0.8 * 75% = 60%
+  close(limits.safeMultiplier, 2.5);
+  // $1000 over $320 of equity with the 2% loan buffer
+  close(limits.flashLoanMaxMultiplier, 1 + 1000 / (320 * 1.02));
+  close(limits.borrowLiquidityMaxMultiplier, 1 + 400 / 320);
+  assert.equal(limits.borrowLiquidity, 400_000_000n);
+  close(limits.recommendedMaxMultiplier, 2.25);
+});
@@ -0,0 +1,318 @@
+import assert from "node:assert/strict";
+import { test } from "./harness";
+import { PositionMonitor } from "../src/monitor/monitor";
+import { MonitorEvent } from "../src/monitor/interface";
+import { ILendingProtocol } from "../src/protocols/interface";
+import { AccountPortfolio, MarketAsset, Position } from "../src/types";
+
+const ADDRESS = "0xa11ce";
+const OTHER_ADDRESS = "0xb0b";
+const SUI =
+  "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI";
+const USDC =
+  "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+interface PortfolioState {
+  healthFactor: number;
+  netApy?: number;
+  suiPrice?: number;
+  debt?: number;
+}
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+/** One fetch of a wallet: its obligations' portfolios, or a failure */
+type Step = PortfolioState | PortfolioState[] | Error;
+
+// SUI liquidates at 80% of its value, USDC borrows at weight 1
+const markets = [
+  { coinType: SUI, symbol: "SUI", liquidationThreshold: 0.8, borrowWeight: 1 },
+  {
+    coinType: USDC,
+    symbol: "USDC",
+    liquidationThreshold: 0.8,
+    borrowWeight: 1,
+  },
+] as MarketAsset[];
+
+function portfolio(state: PortfolioState): AccountPortfolio {
+  const suiPrice = state.suiPrice ?? 3;
+  const debt = state.debt ?? 1000;
+  const positions: Position[] = [
+    {
+      protocol: "suilend",
+      coinType: SUI,
+      symbol: "SUI",
+      side: "supply",
+      amount: 1000,
+      amountRaw: "1000000000000",
+      decimals: 9,
+      amountKind: "underlying",
+      valueUsd: 1000 * suiPrice,
+      apy: 0.03,
+    },
+    {
+      protocol: "suilend",
+      coinType: USDC,
+      symbol: "USDC",
+      side: "borrow",
+      amount: debt,
+      amountRaw: String(debt * 1e6),
+      decimals: 6,
+      amountKind: "underlying",
+      valueUsd: debt,
+      apy: 0.08,
+    },
+  ];
+  return {
+    protocol: "suilend",
+    address: ADDRESS,
+    healthFactor: state.healthFactor,
+    netValueUsd: 1000 * suiPrice - debt,
+    totalCollateralUsd: 1000 * suiPrice,
+    totalDebtUsd: debt,
+    positions,
+    netApy: state.netApy,
+  };
+}
+
+/**
+ * Monitor over one fake adapter; each fetch of a wallet takes the next
+ * scripted step (an array is one portfolio per obligation)
+ */
+function scriptedMonitor(
+  script: Step[] | Record<string, Step[]>,
+  options: { intervalMs?: number; maxBackoffMs?: number } = {},
+) {
+  const scripts = Array.isArray(script) ? { [ADDRESS]: script } : script;
+  const current: Record<string, PortfolioState[]> = {};
+  const adapter = {
+    name: "suilend",
+    getMarkets: async () => markets,
+    getObligations: async (address: string) => {
+      const next = scripts[address].shift();
+      if (!next) throw new Error("script exhausted");
+      if (next instanceof Error) throw next;
+      current[address] = Array.isArray(next) ? next : [next];
+      return current[address].map((_, i) => ({
+        id: `ob${i}`,
+        isDefault: i === 0,
+      }));
+    },
+    getAccountPortfolio: async (address: string, obligationId: string) =>
+      portfolio(current[address][Number(obligationId.slice(2))]),
+  } as unknown as ILendingProtocol;
+
+  return new PositionMonitor({
+    addresses: Object.keys(scripts),
+    protocols: ["suilend"],
+    getProtocol: async () => adapter,
+    ...options,
+  });
+}
+
+/**
+ * Run with Date.now pinned; advance moves the clock forward
+ */
+async function withClock(
+  fn: (advance: (ms: number) => void) => Promise<void>,
+): Promise<void> {
+  const realNow = Date.now;
+  let now = 1_700_000_000_000;
+  Date.now = () => now;
+  try {
+    await fn((ms) => (now += ms));
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+const summarize = (events: MonitorEvent[]) =>
+  events.map((e) => {
+    switch (e.type) {
+      case "health-factor":
+        return `${e.previousLevel}->${e.level}@${e.threshold}`;
+      case "liquidation-proximity":
+        return `near:${e.symbol}`;
+      case "error":
+        return `error#${e.consecutiveFailures}+${e.retryInMs}`;
+      default:
+        return e.type;
+    }
+  });
+
+test("monitor: health factor events fire on level changes only", async () => {
+  const monitor = scriptedMonitor([
+    { healthFactor: 2 },
+    { healthFactor: 1.4 },
+    { healthFactor: 1.35 },
+    { healthFactor: 1.1 },
+    { healthFactor: 1.3 },
+    { healthFactor: 1.9 },
+    { healthFactor: 1.1 },
+  ]);
+
+  const polls: string[][] = [];
+  for (let i = 0; i < 7; i++) polls.push(summarize(await monitor.poll()));
+
+  assert.deepEqual(polls, [
+    [],
+    ["ok->warning@1.5"],
+    [],
+    ["warning->critical@1.2"],
+    ["critical->warning@1.2"],
+    ["warning->ok@1.5"],
+    ["ok->critical@1.2"],
+  ]);
+});
+
+test("monitor: liquidation alerts repeat only after recovering", async () => {
+  // 1000 SUI against 1600 USDC liquidates at SUI $2 (or USDC at $1.50
+  // while SUI is at $3)
+  const monitor = scriptedMonitor([
+    { healthFactor: 2, suiPrice: 3, debt: 1600 },
+    { healthFactor: 2, suiPrice: 2.1, debt: 1600 },
+    { healthFactor: 2, suiPrice: 2.05, debt: 1600 },
+    { healthFactor: 2, suiPrice: 3, debt: 1600 },
+    { healthFactor: 2, suiPrice: 2.1, debt: 1600 },
+  ]);
+
+  const events: MonitorEvent[][] = [];
+  for (let i = 0; i < 5; i++) events.push(await monitor.poll());
+
+  // Near liquidation a small rise of the debt price is as dangerous
+  assert.deepEqual(events.map(summarize), [
+    [],
+    ["near:SUI", "near:USDC"],
+    [],
+    [],
+    ["near:SUI", "near:USDC"],
+  ]);
+  const sui = events[1][0];
+  assert.ok(sui.type === "liquidation-proximity");
+  close(sui.liquidationPrice, 2);
+  close(sui.distance, 0.1 / 2.1);
+});
+
+test("monitor: net APY flips and debt growth are reported", async () => {
+  const monitor = scriptedMonitor([
+    { healthFactor: 2, netApy: 0.02, debt: 1000 },
+    { healthFactor: 2, netApy: 0.01, debt: 1000.5 },
+    { healthFactor: 2, netApy: -0.01, debt: 1002 },
+    { healthFactor: 2, netApy: -0.02, debt: 1002 },
+  ]);
+
+  const events: MonitorEvent[][] = [];
+  for (let i = 0; i < 4; i++) events.push(await monitor.poll());
+
+  assert.deepEqual(events.map(summarize), [
+    [],
+    [],
+    ["apy-flip", "debt-accrual"],
+    [],
+  ]);
+  const accrual = events[2].find((e) => e.type === "debt-accrual");
+  assert.ok(accrual?.type === "debt-accrual");
+  // Below the 0.1% threshold the baseline stays at the first poll
+  assert.equal(accrual.previousAmount, 1000);
+  assert.equal(accrual.amount, 1002);
+});
+
+test("monitor: failed polls back off exponentially up to the cap", async () => {
+  const rpcDown = new Error("RPC unavailable");
+  await withClock(async (advance) => {
+    const monitor = scriptedMonitor(
+      [rpcDown, rpcDown, rpcDown, rpcDown, { healthFactor: 2 }, rpcDown],
+      { intervalMs: 1_000, maxBackoffMs: 5_000 },
+    );
+
+    const polls = [summarize(await monitor.poll())];
+    for (const wait of [2_000, 4_000, 5_000, 5_000]) {
+      advance(wait - 1);
+      // Still backing off: the wallet is not fetched
+      assert.deepEqual(await monitor.poll(), []);
+      advance(1);
+      polls.push(summarize(await monitor.poll()));
+    }
+
+    // A healthy pair is fetched on every poll
+    polls.push(summarize(await monitor.poll()));
+
+    assert.deepEqual(polls, [
+      ["error#1+2000"],
+      ["error#2+4000"],
+      ["error#3+5000"],
+      ["error#4+5000"],
+      [],
+      ["error#1+2000"],
+    ]);
+  });
+});
+
+test("monitor: a failing wallet does not delay the others", async () => {
+  const rpcDown = new Error("RPC unavailable");
+  await withClock(async (advance) => {
+    const monitor = scriptedMonitor(
+      {
+        [ADDRESS]: [rpcDown, { healthFactor: 1.1 }],
+        [OTHER_ADDRESS]: [
+          { healthFactor: 2 },
+          { healthFactor: 1.4 },
+          { healthFactor: 1.4 },
+        ],
+      },
+      { intervalMs: 1_000 },
+    );
+
+    const first = await monitor.poll();
+    assert.deepEqual(summarize(first), ["error#1+2000"]);
+    assert.equal(first[0].address, ADDRESS);
+
+    advance(1_000);
+    const second = await monitor.poll();
+    assert.deepEqual(summarize(second), ["ok->warning@1.5"]);
+    assert.equal(second[0].address, OTHER_ADDRESS);
+
+    advance(1_000);
+    const third = await monitor.poll();
+    assert.deepEqual(summarize(third), ["ok->critical@1.2"]);
+    assert.equal(third[0].address, ADDRESS);
+  });
+});
+
+test("monitor: every obligation of a wallet is watched", async () => {
+  const monitor = scriptedMonitor([
+    [{ healthFactor: 2 }, { healthFactor: 2 }],
+    [{ healthFactor: 2 }, { healthFactor: 1.1 }],
+  ]);
+
+  await monitor.poll();
+  const events = await monitor.poll();
+
+  assert.deepEqual(summarize(events), ["ok->critical@1.2"]);
+  assert.equal(events[0].obligationId, "ob1");
+});
+
+test("monitor: a failing listener does not stop the others", async () => {
+  const monitor = scriptedMonitor([{ healthFactor: 1.1 }]);
+  const seen: string[] = [];
+  const realError = console.error;
+  console.error = () => {};
+  try {
+    monitor.on("health-factor", () => {
+      throw new Error("listener bug");
+    });
+    monitor.on("health-factor", (e) => seen.push(e.level));
+    monitor.addSink({ name: "memory", handle: (e) => void seen.push(e.type) });
+
+    await monitor.poll();
+  } finally {
+    console.error = realError;
+  }
+
+  assert.deepEqual(seen, ["critical", "health-factor"]);
+});
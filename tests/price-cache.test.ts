@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { test } from "./harness";
+import { CachedPriceSource, StalePriceError } from "../src/price/cache";
+import { IPriceSource, PriceQuote } from "../src/price/interface";
+import { normalizeCoinType } from "../src/lib/utils";
+
+const SUI = normalizeCoinType("0x2::sui::SUI");
+const USDC = normalizeCoinType(
+  "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC",
+);
+
+/**
+ * Source that records every request and serves fixed prices
+ */
+class FakePriceSource implements IPriceSource {
+  readonly requests: string[][] = [];
+
+  constructor(
+    readonly name: string,
+    private prices: Record<string, number>,
+    private publishTimeMs?: number,
+  ) {}
+
+  async getPrices(coinTypes: string[]): Promise<Record<string, PriceQuote>> {
+    this.requests.push(coinTypes);
+    const quotes: Record<string, PriceQuote> = {};
+    for (const coinType of coinTypes) {
+      const price = this.prices[coinType];
+      if (price === undefined) continue;
+      quotes[coinType] = {
+        coinType,
+        price,
+        publishTimeMs: this.publishTimeMs,
+        source: this.name,
+      };
+    }
+    return quotes;
+  }
+}
+
+/**
+ * Run fn with Date.now() pinned to a clock the test advances
+ */
+async function withClock(
+  fn: (advance: (ms: number) => void) => Promise<void>,
+): Promise<void> {
+  const realNow = Date.now;
+  let now = 1_700_000_000_000;
+  Date.now = () => now;
+  try {
+    await fn((ms) => (now += ms));
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+test("price cache: lookups in the same tick share one request", async () => {
+  const source = new FakePriceSource("fake", { [SUI]: 3.2, [USDC]: 1 });
+  const cache = new CachedPriceSource(source);
+
+  const [a, b] = await Promise.all([
+    cache.getPrices([SUI]),
+    cache.getPrices(["0x2::sui::SUI", USDC]),
+  ]);
+
+  assert.equal(source.requests.length, 1);
+  assert.deepEqual(source.requests[0].sort(), [SUI, USDC].sort());
+  assert.equal(a[SUI].price, 3.2);
+  assert.equal(b[SUI].price, 3.2);
+  assert.equal(b[USDC].price, 1);
+});
+
+test("price cache: prices are reused until the TTL expires", async () => {
+  await withClock(async (advance) => {
+    const source = new FakePriceSource("fake", { [SUI]: 3.2 });
+    const cache = new CachedPriceSource(source, { ttlMs: 10_000 });
+
+    await cache.getPrices([SUI]);
+    advance(9_999);
+    await cache.getPrices([SUI]);
+    assert.equal(source.requests.length, 1);
+
+    advance(1);
+    await cache.getPrices([SUI]);
+    assert.equal(source.requests.length, 2);
+  });
+});
+
+test("price cache: unpriced coins are cached as missing", async () => {
+  const source = new FakePriceSource("fake", { [SUI]: 3.2 });
+  const cache = new CachedPriceSource(source);
+
+  assert.deepEqual(await cache.getPrices([USDC]), {});
+  assert.deepEqual(await cache.getPrices([USDC]), {});
+  assert.equal(source.requests.length, 1);
+});
+
+test("price cache: a stale coin does not fail the batch", async () => {
+  await withClock(async () => {
+    const published = Date.now() - 120_000;
+    const stale = new FakePriceSource("pyth", { [SUI]: 3.2 }, published);
+    const fresh = new FakePriceSource("fresh", { [USDC]: 1 }, Date.now());
+    const source: IPriceSource = {
+      name: "mixed",
+      getPrices: async (coinTypes) => ({
+        ...(await stale.getPrices(coinTypes)),
+        ...(await fresh.getPrices(coinTypes)),
+      }),
+    };
+    const cache = new CachedPriceSource(source, { maxAgeMs: 60_000 });
+
+    const { quotes, stale: staleCoins } = await cache.getPricesWithStale([
+      SUI,
+      USDC,
+    ]);
+    assert.deepEqual(Object.keys(quotes), [USDC]);
+    assert.ok(staleCoins[SUI] instanceof StalePriceError);
+    assert.equal(staleCoins[SUI].ageMs, 120_000);
+
+    assert.deepEqual(Object.keys(await cache.getPrices([SUI, USDC])), [USDC]);
+  });
+});
+
+test("price cache: stale primary prices fall back per coin", async () => {
+  await withClock(async () => {
+    const primary = new FakePriceSource(
+      "pyth",
+      { [SUI]: 3.2, [USDC]: 1 },
+      Date.now() - 120_000,
+    );
+    const fallback = new FakePriceSource("navi", { [SUI]: 3.1 });
+    const cache = new CachedPriceSource(primary, {
+      maxAgeMs: 60_000,
+      fallback,
+    });
+
+    const { quotes, stale } = await cache.getPricesWithStale([SUI, USDC]);
+    assert.equal(quotes[SUI].price, 3.1);
+    assert.equal(quotes[SUI].source, "navi");
+    assert.deepEqual(Object.keys(stale), [USDC]);
+    assert.deepEqual(fallback.requests, [[SUI, USDC]]);
+  });
+});
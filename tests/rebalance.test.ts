@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import { calculateRebalancePlan } from "../src/strategies/rebalance";
+import { resolveDeleverageRepayAmount } from "../src/strategies/deleverage";
+import { AccountPortfolio, LendingProtocol, PositionInfo } from "../src/types";
+
+// $4800 of SUI (75% threshold) against 2000 USDC: HF 1.8
+const position = () => loadFixture<PositionInfo>("suilend-position.json");
+
+function portfolio(extraDebtUsd = 0): AccountPortfolio {
+  const totalDebtUsd = 2000 + extraDebtUsd;
+  return {
+    protocol: LendingProtocol.Suilend,
+    address: "0xa11ce",
+    healthFactor: 3600 / totalDebtUsd,
+    netValueUsd: 4800 - totalDebtUsd,
+    totalCollateralUsd: 4800,
+    totalDebtUsd,
+    weightedBorrowsUsd: totalDebtUsd,
+    liquidationThresholdUsd: 3600,
+    positions: [],
+  };
+}
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+test("rebalance: below the band deleverages to the target HF", () => {
+  const plan = calculateRebalancePlan({
+    position: position(),
+    portfolio: portfolio(),
+    band: { minHealthFactor: 2, maxHealthFactor: 3, targetHealthFactor: 2.5 },
+  });
+
+  // Repaying $800 leaves $4000 * 0.75 / $1200 = 2.5
+  assert.equal(plan.action, "deleverage");
+  close(plan.targetLtvPercent, 30);
+  close(plan.targetMultiplier, 1 / 0.7);
+
+  const repay = resolveDeleverageRepayAmount(position(), {
+    targetLtvPercent: plan.targetLtvPercent,
+  });
+  close(Number(repay) / 1e6, 800, 1e-5);
+});
+
+test("rebalance: above the band levers up to the target HF", () => {
+  const plan = calculateRebalancePlan({
+    position: position(),
+    portfolio: portfolio(),
+    band: {
+      minHealthFactor: 1.2,
+      maxHealthFactor: 1.6,
+      targetHealthFactor: 1.4,
+    },
+  });
+
+  assert.equal(plan.action, "leverage");
+  // Debt D' and collateral C' = D' + $2800 satisfy C' * 0.75 / D' = 1.4
+  const debtUsd = (2800 * 0.75) / (1.4 - 0.75);
+  close(plan.targetLtvPercent, (debtUsd / (debtUsd + 2800)) * 100);
+});
+
+test("rebalance: inside the band does nothing", () => {
+  const plan = calculateRebalancePlan({
+    position: position(),
+    portfolio: portfolio(),
+    band: { minHealthFactor: 1.5, maxHealthFactor: 2 },
+  });
+
+  assert.equal(plan.action, "none");
+  assert.equal(plan.targetHealthFactor, 1.75);
+});
+
+test("rebalance: debt outside the pair can make the target unreachable", () => {
+  // $1500 of debt outside the SUI/USDC pair: repaying all of the USDC
+  // (and withdrawing $2000 of SUI) leaves $2100 / $1500 = 1.4
+  assert.throws(
+    () =>
+      calculateRebalancePlan({
+        position: position(),
+        portfolio: portfolio(1500),
+        band: {
+          minHealthFactor: 2,
+          maxHealthFactor: 3,
+          targetHealthFactor: 2.5,
+        },
+      }),
+    /2\.5 is unreachable by resizing SUI\/USDC/,
+  );
+});
+
+test("rebalance: invalid bands are rejected", () => {
+  assert.throws(
+    () =>
+      calculateRebalancePlan({
+        position: position(),
+        portfolio: portfolio(),
+        band: { minHealthFactor: 1, maxHealthFactor: 2 },
+      }),
+    /Invalid health factor band/,
+  );
+  assert.throws(
+    () =>
+      calculateRebalancePlan({
+        position: position(),
+        portfolio: portfolio(),
+        band: {
+          minHealthFactor: 1.5,
+          maxHealthFactor: 2,
+          targetHealthFactor: 3,
+        },
+      }),
+    /outside the band/,
+  );
+});
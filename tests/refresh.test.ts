@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "./harness";
+import { IntervalRefresher } from "../src/lib/utils/refresh";
+
+/**
+ * Stand-in for an adapter's lending market: each reload reads the next
+ * on-chain reserve state
+ */
+function fakeMarket(prices: number[]) {
+  const market = { loads: 0, reserve: { price: prices[0] } };
+  const refresher = new IntervalRefresher(async () => {
+    market.loads++;
+    market.reserve = { price: prices[market.loads] };
+  }, 5_000);
+  refresher.markFresh(); // loaded by initialize
+  return { market, refresher };
+}
+
+async function withClock(
+  fn: (advance: (ms: number) => void) => Promise<void>,
+): Promise<void> {
+  const realNow = Date.now;
+  let now = 1_700_000_000_000;
+  Date.now = () => now;
+  try {
+    await fn((ms) => (now += ms));
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+test("refresh: a poll after the TTL sees a changed reserve", async () => {
+  await withClock(async (advance) => {
+    const { market, refresher } = fakeMarket([3.2, 2.9]);
+
+    await refresher.run();
+    assert.equal(market.reserve.price, 3.2);
+
+    advance(5_000);
+    await refresher.run();
+    assert.equal(market.reserve.price, 2.9);
+    assert.equal(market.loads, 1);
+  });
+});
+
+test("refresh: reads within the TTL reuse the loaded state", async () => {
+  await withClock(async (advance) => {
+    const { market, refresher } = fakeMarket([3.2, 2.9]);
+
+    advance(4_999);
+    await refresher.run();
+    assert.equal(market.loads, 0);
+    assert.equal(market.reserve.price, 3.2);
+  });
+});
+
+test("refresh: concurrent callers share one reload", async () => {
+  await withClock(async (advance) => {
+    const { market, refresher } = fakeMarket([3.2, 2.9, 2.5]);
+
+    advance(10_000);
+    await Promise.all([refresher.run(), refresher.run(), refresher.run()]);
+    assert.equal(market.loads, 1);
+    assert.equal(market.reserve.price, 2.9);
+  });
+});
+
+test("refresh: a failed reload is retried on the next call", async () => {
+  let attempts = 0;
+  const refresher = new IntervalRefresher(async () => {
+    attempts++;
+    if (attempts === 1) throw new Error("RPC unavailable");
+  }, 5_000);
+
+  await assert.rejects(refresher.run(), /RPC unavailable/);
+  await refresher.run();
+  await refresher.run();
+  assert.equal(attempts, 2);
+});
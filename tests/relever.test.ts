@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import { calculateReleveragePreview } from "../src/strategies/relever";
+import { ILendingProtocol, ReserveInfo } from "../src/protocols/interface";
+import { PositionInfo } from "../src/types";
+
+// $4800 of SUI against 2000 USDC: $2800 equity at 1.71x
+const position = () => loadFixture<PositionInfo>("suilend-position.json");
+
+/**
+ * Protocol stand-in whose reserves open at 70% LTV with face-value borrows,
+ * so the SUI/USDC pair caps at 3.33x
+ */
+const protocol = {
+  name: "suilend",
+  getReserveInfo: async (coinType: string): Promise<ReserveInfo> => ({
+    coinType,
+    symbol: coinType.split("::").pop()!,
+    decimals: coinType.endsWith("::SUI") ? 9 : 6,
+    openLtvPct: 70,
+    closeLtvPct: 75,
+    borrowWeight: 1,
+  }),
+} as unknown as ILendingProtocol;
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+test("relever: target multiplier is reached from current equity", async () => {
+  const preview = await calculateReleveragePreview({
+    protocol,
+    position: position(),
+    targetMultiplier: 2.5,
+  });
+
+  // 2.5x on $2800 carries $4200 of debt
+  close(preview.currentMultiplier, 4800 / 2800);
+  assert.equal(preview.additionalDepositUsd, 0);
+  close(preview.debtUsd, 4200);
+  close(preview.additionalDebtUsd, 2200);
+  close(preview.ltvPercent, 60);
+  // 2% buffer on the flash loan
+  assert.equal(preview.flashLoanUsdc, 2_244_000_000n);
+});
+
+test("relever: a wallet deposit adds to equity at the position's price", async () => {
+  const preview = await calculateReleveragePreview({
+    protocol,
+    position: position(),
+    targetMultiplier: 2.5,
+    depositAmount: 100_000_000_000n,
+  });
+
+  // 100 SUI at $3.20
+  close(preview.additionalDepositUsd, 320);
+  close(preview.equityUsd, 3120);
+  close(preview.additionalDebtUsd, 4680 - 2000);
+});
+
+test("relever: targets at or below the current multiplier are rejected", async () => {
+  await assert.rejects(
+    calculateReleveragePreview({
+      protocol,
+      position: position(),
+      targetMultiplier: 1.5,
+    }),
+    /not above current 1\.71x/,
+  );
+});
+
+test("relever: targets above the protocol's max multiplier are rejected", async () => {
+  await assert.rejects(
+    calculateReleveragePreview({
+      protocol,
+      position: position(),
+      targetMultiplier: 3.5,
+    }),
+    /exceeds suilend max 3\.33x for SUI\/USDC/,
+  );
+});
+
+test("relever: multi-asset positions are rejected", async () => {
+  const base = position();
+  await assert.rejects(
+    calculateReleveragePreview({
+      protocol,
+      position: {
+        ...base,
+        debts: [...base.debts, { ...base.debt, symbol: "USDT" }],
+      },
+      targetMultiplier: 2.5,
+    }),
+    /one collateral and one debt/,
+  );
+});
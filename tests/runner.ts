@@ -0,0 +1,36 @@
+/**
+ * DeFi Dash SDK - Test Runner
+ *
+ * Loads every tests/*.test.ts file and runs the cases they register.
+ *
+ * Usage: npm test [-- <name filter>]
+ */
+
+import { readdirSync } from "fs";
+import { getTests } from "./harness";
+
+async function main() {
+  const filter = process.argv[2];
+
+  for (const file of readdirSync(__dirname).sort()) {
+    if (file.endsWith(".test.ts")) require(`./${file}`);
+  }
+
+  const tests = getTests().filter((t) => !filter || t.name.includes(filter));
+  let failed = 0;
+  for (const t of tests) {
+    try {
+      await t.fn();
+      console.log(`✅ ${t.name}`);
+    } catch (e: any) {
+      failed++;
+      console.log(`❌ ${t.name}`);
+      console.log(`   ${e?.stack ?? e}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed} passed, ${failed} failed`);
+  process.exit(failed ? 1 : 0);
+}
+
+main();
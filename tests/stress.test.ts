@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import { stressTestPortfolio } from "../src/lib/stress";
+import {
+  AccountPortfolio,
+  LendingProtocol,
+  MarketAsset,
+} from "../src/types";
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+test("stress: unshocked health factor matches the saved portfolio", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+
+  const result = stressTestPortfolio(portfolio, []);
+
+  assert.equal(result.healthFactorBefore, portfolio.healthFactor);
+  assert.equal(result.healthFactor, portfolio.healthFactor);
+  assert.equal(result.isLiquidatable, false);
+});
+
+test("stress: wallet sCoin lendings are not collateral", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+
+  const result = stressTestPortfolio(portfolio, [
+    { asset: "USDC", change: -0.5 },
+  ]);
+
+  // Only the USDC debt moves; the 5000 USDC lent out is ignored
+  assert.equal(result.totalCollateralUsd, 3200);
+  assert.equal(result.totalDebtUsd, 750);
+  const usdc = result.assets.find((a) => a.symbol === "USDC")!;
+  assert.equal(usdc.collateralUsd, 0);
+});
+
+test("stress: 30% SUI drop on the saved portfolio", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+
+  const result = stressTestPortfolio(portfolio, [
+    { asset: "SUI", change: -0.3 },
+  ]);
+
+  // 1000 SUI at 2.24 × 0.85 threshold / 1500 USDC
+  close(result.healthFactor, (2240 * 0.85) / 1500);
+  assert.equal(result.isLiquidatable, false);
+  assert.equal(result.liquidatableDebtUsd, 0);
+
+  const sui = result.assets.find((a) => a.symbol === "SUI")!;
+  close(sui.price!, 2.24);
+  close(sui.liquidationPrice!, 1500 / (1000 * 0.85));
+  close(sui.distanceToLiquidation!, 1500 / 1904 - 1);
+});
+
+test("stress: liquidation takes the close factor plus the bonus", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+  const markets = loadFixture<MarketAsset[]>("navi-markets.json");
+  markets[0].liquidationThreshold = 0.85;
+  markets[0].liquidationBonus = 0.1;
+
+  const result = stressTestPortfolio(
+    portfolio,
+    [{ asset: "SUI", change: -0.5 }],
+    { markets, closeFactor: 0.2 },
+  );
+
+  close(result.healthFactor, (1600 * 0.85) / 1500);
+  assert.equal(result.isLiquidatable, true);
+  close(result.liquidatableDebtUsd, 300);
+  close(result.seizedCollateralUsd, 330);
+  close(result.liquidationBonusUsd, 30);
+});
+
+test("stress: the close factor defaults per protocol", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+  const shocks = [{ asset: "SUI", change: -0.5 }];
+
+  // Scallop has no built-in close factor
+  assert.throws(
+    () => stressTestPortfolio(portfolio, shocks),
+    /No default close factor for scallop/,
+  );
+
+  const suilend = stressTestPortfolio(
+    { ...portfolio, protocol: LendingProtocol.Suilend },
+    shocks,
+  );
+  close(suilend.liquidatableDebtUsd, 1500 * 0.2);
+});
+
+test("stress: shocks below -100% are rejected", () => {
+  const portfolio = loadFixture<AccountPortfolio>("scallop-portfolio.json");
+
+  assert.throws(
+    () => stressTestPortfolio(portfolio, [{ asset: "SUI", change: -1.5 }]),
+    /below -100%/,
+  );
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "./harness";
+import {
+  getMinAmountOut,
+  getPriceImpactBps,
+  assertPriceImpact,
+  PriceImpactTooHighError,
+  PriceUnavailableError,
+} from "../src/swap/guard";
+import { normalizeCoinType } from "../src/lib/utils";
+import { SwapQuote } from "../src/swap/interface";
+import { IPriceSource, PriceQuote } from "../src/price/interface";
+
+const SUI = normalizeCoinType("0x2::sui::SUI");
+const USDC = normalizeCoinType("0xdba3::usdc::USDC");
+
+// 1000 USDC (6 decimals) → 300 SUI (9 decimals)
+const quote: SwapQuote = {
+  provider: "test",
+  coinTypeIn: USDC,
+  coinTypeOut: SUI,
+  amountIn: 1_000_000_000n,
+  amountOut: 300_000_000_000n,
+  route: null,
+};
+
+const prices = (table: Record<string, number>): IPriceSource => ({
+  name: "fixed",
+  getPrices: async (coinTypes) => {
+    const quotes: Record<string, PriceQuote> = {};
+    for (const coinType of coinTypes) {
+      const price = table[coinType];
+      if (price !== undefined) {
+        quotes[coinType] = { coinType, price, source: "fixed" };
+      }
+    }
+    return quotes;
+  },
+});
+
+test("swap guard: min amount out applies the slippage tolerance", () => {
+  assert.equal(getMinAmountOut(1_000_000n), 990_000n);
+  assert.equal(getMinAmountOut(1_000_000n, 50), 995_000n);
+  assert.throws(() => getMinAmountOut(1_000_000n, 10000), /Invalid slippage/);
+});
+
+test("swap guard: price impact is measured against oracle prices", async () => {
+  // $1000 in, 300 SUI at $3.20 = $960 out → 4%
+  const impact = await getPriceImpactBps(
+    quote,
+    6,
+    9,
+    prices({ [USDC]: 1, [SUI]: 3.2 }),
+  );
+  assert.ok(Math.abs(impact - 400) < 1e-9, `got ${impact}`);
+
+  assert.throws(
+    () => assertPriceImpact(quote, impact),
+    (e: unknown) =>
+      e instanceof PriceImpactTooHighError && e.maxPriceImpactBps === 300,
+  );
+  assert.doesNotThrow(() => assertPriceImpact(quote, impact, 500));
+});
+
+test("swap guard: a missing oracle price refuses the quote", async () => {
+  await assert.rejects(
+    getPriceImpactBps(quote, 6, 9, prices({ [USDC]: 1 })),
+    (e: unknown) => e instanceof PriceUnavailableError && e.coinType === SUI,
+  );
+  await assert.rejects(
+    getPriceImpactBps(quote, 6, 9, prices({ [SUI]: 3.2 })),
+    (e: unknown) => e instanceof PriceUnavailableError && e.coinType === USDC,
+  );
+});
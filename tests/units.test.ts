@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test, loadFixture } from "./harness";
+import {
+  toApy,
+  rescaleRaw,
+  toHumanAmount,
+  toRawAmount,
+} from "../src/lib/utils/units";
+import { AccountPortfolio } from "../src/types";
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected}, got ${actual}`,
+  );
+
+test("units: toApy passes APYs through and compounds APR and bps", () => {
+  assert.equal(toApy(0.05, "apy"), 0.05);
+  close(toApy(0.05, "apr"), Math.pow(1 + 0.05 / 365, 365) - 1);
+  close(toApy(500, "bps"), toApy(0.05, "apr"));
+  assert.equal(toApy(NaN, "apr"), 0);
+});
+
+test("units: rescaleRaw moves between scales rounding down", () => {
+  assert.equal(rescaleRaw(1_500_000_000n, 9, 6), 1_500_000n);
+  assert.equal(rescaleRaw(1_999n, 9, 6), 1n);
+  assert.equal(rescaleRaw(15n, 6, 9), 15_000n);
+  assert.equal(rescaleRaw(42n, 8, 8), 42n);
+});
+
+test("units: toRawAmount and toHumanAmount round-trip", () => {
+  assert.equal(toRawAmount("1.5", 6), 1_500_000n);
+  assert.equal(toRawAmount("0.1234567", 6), 123_456n);
+  assert.equal(toHumanAmount(1_500_000n, 6), 1.5);
+  assert.equal(toHumanAmount("2000000000", 6), 2000);
+});
+
+test("units: Navi 9-decimal balances rescale to the recorded portfolio", () => {
+  const lendingState = loadFixture<any[]>("navi-lending-state.json");
+  const portfolio = loadFixture<AccountPortfolio>("navi-portfolio.json");
+
+  for (const state of lendingState) {
+    const decimals = state.pool.token.decimals;
+    for (const [side, balance] of [
+      ["supply", state.supplyBalance],
+      ["borrow", state.borrowBalance],
+    ]) {
+      const raw = rescaleRaw(BigInt(balance), 9, decimals);
+      const position = portfolio.positions.find(
+        (p) => p.coinType === state.coinType && p.side === side,
+      );
+      if (raw === 0n) {
+        assert.equal(position, undefined);
+        continue;
+      }
+      assert.ok(position, `${side} ${state.coinType} missing`);
+      assert.equal(position.amountRaw, raw.toString());
+      assert.equal(position.decimals, decimals);
+      assert.equal(position.amount, toHumanAmount(raw, decimals));
+    }
+  }
+});
+
+test("units: recorded portfolio net APY is a decimal on equity", () => {
+  const portfolio = loadFixture<AccountPortfolio>("navi-portfolio.json");
+
+  let earnings = 0;
+  for (const p of portfolio.positions) {
+    earnings += (p.side === "supply" ? 1 : -1) * p.valueUsd * p.apy;
+  }
+  close(portfolio.totalAnnualNetEarningsUsd!, earnings, 1e-6);
+  close(portfolio.netApy!, earnings / portfolio.netValueUsd, 1e-6);
+});